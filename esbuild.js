@@ -6,7 +6,8 @@ const isWatch = args.has('--watch');
 const isProduction = args.has('--production');
 
 const options = {
-  entryPoints: ['src/extension.ts'],
+  // The stdio bridge runs as a plain Node process (dist/bridge/stdio.js), outside VS Code.
+  entryPoints: ['src/extension.ts', 'src/bridge/stdio.ts'],
   outdir: 'dist',
   bundle: true,
   format: 'esm',
@@ -0,0 +1,121 @@
+// src/bridge/handshake.ts
+//
+// Local handshake file shared by the extension (writer) and the stdio bridge (reader).
+// - Carries the running endpoint (loopback URL or local socket) and one bearer token; never logged
+// - Directory 0700, file 0600 (POSIX); written to a temp file then renamed into place
+// - Readers reject files that are group/other accessible (POSIX) or malformed (fail closed)
+// - Only the process that wrote the file removes it
+
+import { randomBytes } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { parseSocketEndpointUrl } from '../util/endpoint.js';
+
+export const HANDSHAKE_VERSION = 1 as const;
+export const HANDSHAKE_DIR_NAME = '.mcp-lsp-gateway';
+export const HANDSHAKE_FILE_NAME = 'handshake.json';
+/** Overrides the handshake path for the bridge (tests, non-default home directories). */
+export const HANDSHAKE_PATH_ENV = 'MCP_LSP_GATEWAY_HANDSHAKE';
+
+// Endpoint + token + a few fields; anything larger is not ours.
+const MAX_HANDSHAKE_BYTES = 16 * 1024;
+
+export type Handshake = Readonly<{
+  version: typeof HANDSHAKE_VERSION;
+  endpoint: string;
+  token: string;
+  protocolVersion: '2025-11-25';
+  pid: number;
+}>;
+
+export type ReadHandshakeResult =
+  | Readonly<{ ok: true; handshake: Handshake }>
+  | Readonly<{ ok: false; reason: string }>;
+
+export function defaultHandshakePath(): string {
+  return path.join(os.homedir(), HANDSHAKE_DIR_NAME, HANDSHAKE_FILE_NAME);
+}
+
+export async function writeHandshakeFile(filePath: string, handshake: Handshake): Promise<void> {
+  const dir = path.dirname(filePath);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  // mkdir does not tighten an existing directory.
+  if (process.platform !== 'win32') await fs.chmod(dir, 0o700);
+
+  const tmpPath = path.join(dir, `.${HANDSHAKE_FILE_NAME}.${randomBytes(6).toString('hex')}.tmp`);
+  const handle = await fs.open(tmpPath, 'wx', 0o600);
+  try {
+    await handle.writeFile(`${JSON.stringify(handshake)}\n`, 'utf8');
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tmpPath, filePath);
+  } catch (err) {
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+export async function readHandshakeFile(filePath: string): Promise<ReadHandshakeResult> {
+  let stat: Awaited<ReturnType<typeof fs.stat>>;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    return { ok: false, reason: 'Handshake file not found. Is the gateway running?' };
+  }
+  if (!stat.isFile() || stat.size > MAX_HANDSHAKE_BYTES) {
+    return { ok: false, reason: 'Handshake file is not a regular file.' };
+  }
+  if (process.platform !== 'win32' && (stat.mode & 0o077) !== 0) {
+    return { ok: false, reason: 'Handshake file permissions are too open (expected 0600).' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    return { ok: false, reason: 'Handshake file is malformed.' };
+  }
+  const handshake = parseHandshake(parsed);
+  if (!handshake) return { ok: false, reason: 'Handshake file is malformed.' };
+  return { ok: true, handshake };
+}
+
+/** Remove the file only if it still belongs to `pid` (another window may have replaced it). */
+export async function removeHandshakeFile(filePath: string, pid: number): Promise<void> {
+  const current = await readHandshakeFile(filePath);
+  if (!current.ok || current.handshake.pid !== pid) return;
+  await fs.rm(filePath, { force: true });
+}
+
+export function parseHandshake(value: unknown): Handshake | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const rec = value as Record<string, unknown>;
+  if (rec.version !== HANDSHAKE_VERSION) return undefined;
+  if (rec.protocolVersion !== '2025-11-25') return undefined;
+  if (typeof rec.token !== 'string' || rec.token.trim().length === 0) return undefined;
+  if (typeof rec.pid !== 'number' || !Number.isSafeInteger(rec.pid)) return undefined;
+  if (typeof rec.endpoint !== 'string' || !isLocalGatewayEndpoint(rec.endpoint)) return undefined;
+  return {
+    version: HANDSHAKE_VERSION,
+    endpoint: rec.endpoint,
+    token: rec.token.trim(),
+    protocolVersion: '2025-11-25',
+    pid: rec.pid,
+  };
+}
+
+// The bridge sends the bearer token to this URL; never let the file point it off-host.
+function isLocalGatewayEndpoint(endpoint: string): boolean {
+  const socket = parseSocketEndpointUrl(endpoint);
+  if (socket) return socket.endpointPath === '/mcp';
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'http:' && url.hostname === '127.0.0.1' && url.pathname === '/mcp';
+}
@@ -0,0 +1,62 @@
+// src/bridge/socketFetch.ts
+//
+// BridgeFetch over a local socket (Unix domain socket or Windows named pipe).
+// Global fetch cannot dial a socket path, so requests go through node:http and the response is
+// adapted to a fetch Response (streamed body, so SSE relaying works unchanged).
+
+import * as http from 'node:http';
+import type { BridgeFetch } from './stdioBridge.js';
+
+// Statuses that must not carry a Response body.
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+export function createSocketFetch(socketPath: string): BridgeFetch {
+  return (url, init) =>
+    new Promise<Response>((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath,
+          path: new URL(url).pathname,
+          method: init.method,
+          headers: { ...init.headers, Host: 'localhost' },
+          signal: init.signal,
+        },
+        (res) => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value === undefined) continue;
+            for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+          }
+          const status = res.statusCode ?? 502;
+          if (NULL_BODY_STATUSES.has(status)) {
+            res.resume();
+            resolve(new Response(null, { status, headers }));
+            return;
+          }
+          resolve(new Response(toWebStream(res), { status, headers }));
+        },
+      );
+      req.once('error', reject);
+      req.end(init.body);
+    });
+}
+
+// Streams the body as it arrives; pauses the socket while the reader is behind.
+function toWebStream(res: http.IncomingMessage): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      res.on('data', (chunk: Buffer) => {
+        controller.enqueue(new Uint8Array(chunk));
+        if ((controller.desiredSize ?? 0) <= 0) res.pause();
+      });
+      res.once('end', () => controller.close());
+      res.once('error', (err) => controller.error(err));
+    },
+    pull() {
+      res.resume();
+    },
+    cancel() {
+      res.destroy();
+    },
+  });
+}
@@ -0,0 +1,64 @@
+// src/bridge/stdio.ts
+//
+// stdio bridge entry point (bundled to dist/bridge/stdio.js; no vscode dependency).
+//
+//   node <extension>/dist/bridge/stdio.js [--handshake <path>]
+//
+// The handshake path defaults to $MCP_LSP_GATEWAY_HANDSHAKE, then ~/.mcp-lsp-gateway/handshake.json.
+// stdout carries only MCP messages; diagnostics go to stderr.
+
+import { once } from 'node:events';
+import * as readline from 'node:readline';
+import { defaultHandshakePath, HANDSHAKE_PATH_ENV, readHandshakeFile } from './handshake.js';
+import { createStdioBridge } from './stdioBridge.js';
+
+const LOG_PREFIX = '[mcp-lsp-gateway bridge]';
+
+function log(message: string): void {
+  process.stderr.write(`${LOG_PREFIX} ${message}\n`);
+}
+
+function resolveHandshakePath(argv: readonly string[]): string {
+  const flag = argv.indexOf('--handshake');
+  const fromFlag = flag === -1 ? undefined : argv[flag + 1];
+  if (fromFlag) return fromFlag;
+  const fromEnv = process.env[HANDSHAKE_PATH_ENV];
+  if (fromEnv && fromEnv.trim().length > 0) return fromEnv.trim();
+  return defaultHandshakePath();
+}
+
+async function main(): Promise<number> {
+  const read = await readHandshakeFile(resolveHandshakePath(process.argv.slice(2)));
+  if (!read.ok) {
+    log(read.reason);
+    return 1;
+  }
+
+  const bridge = createStdioBridge({
+    handshake: read.handshake,
+    writeMessage: (line) => {
+      process.stdout.write(`${line}\n`);
+    },
+    log,
+  });
+
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  // Lines are forwarded concurrently; the client correlates responses by id.
+  lines.on('line', (line) => {
+    void bridge.handleLine(line);
+  });
+  await once(lines, 'close');
+  // Waits for the responses to lines already forwarded before ending the session.
+  await bridge.close();
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exit(code);
+  },
+  (err: unknown) => {
+    log(`Unexpected error: ${String(err).slice(0, 200)}`);
+    process.exit(1);
+  },
+);
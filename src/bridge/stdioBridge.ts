@@ -0,0 +1,334 @@
+// src/bridge/stdioBridge.ts
+//
+// MCP stdio <-> Streamable HTTP bridge (client side of the gateway's /mcp endpoint).
+// - One newline-delimited JSON-RPC message (or batch) per stdin line, POSTed as-is
+// - Injects Authorization, MCP-Protocol-Version, and MCP-Session-Id; the stdio client never sees them
+// - JSON bodies and SSE `message` events are written back as single stdout lines
+// - HTTP-layer rejections (empty bodies) become JSON-RPC errors for the affected request ids
+// - After initialization, the standalone GET stream is relayed (resumed with Last-Event-ID)
+// - http+unix:// endpoints are reached over the local socket instead of TCP
+// - Never logs the token, session ids, or message payloads
+
+import { parseSocketEndpointUrl } from '../util/endpoint.js';
+import type { Handshake } from './handshake.js';
+import { createSocketFetch } from './socketFetch.js';
+
+const RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+// The gateway answers every request within 30 s (streamingRequestTimeoutMs is capped there).
+const DRAIN_TIMEOUT_MS = 30_000;
+
+export type BridgeFetch = (
+  url: string,
+  init: Readonly<{
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal: AbortSignal;
+  }>,
+) => Promise<Response>;
+
+export type StdioBridgeOptions = Readonly<{
+  handshake: Handshake;
+  /** Write one JSON-RPC message (single-line JSON text, no trailing newline) to the client. */
+  writeMessage: (line: string) => void;
+  /** Diagnostics for stderr; never receives secrets or payloads. */
+  log?: (message: string) => void;
+  fetch?: BridgeFetch;
+  reconnectDelayMs?: number;
+  /** How long close() waits for requests already forwarded before aborting them. */
+  drainTimeoutMs?: number;
+}>;
+
+export type StdioBridge = Readonly<{
+  /** Forward one stdin line. Resolves once every response for it has been written. */
+  handleLine: (line: string) => Promise<void>;
+  /**
+   * Stop accepting lines, wait (bounded) for the responses to lines already forwarded, then abort
+   * what is left and terminate the session (DELETE). Idempotent.
+   */
+  close: () => Promise<void>;
+}>;
+
+type Outgoing = Readonly<{
+  ids: readonly (string | number)[];
+  isInitialize: boolean;
+  isInitializedNotification: boolean;
+}>;
+
+export function createStdioBridge(opts: StdioBridgeOptions): StdioBridge {
+  const { endpoint, token, protocolVersion } = opts.handshake;
+  const socket = parseSocketEndpointUrl(endpoint);
+  const fetchImpl: BridgeFetch =
+    opts.fetch ?? (socket ? createSocketFetch(socket.socketPath) : (url, init) => fetch(url, init));
+  const reconnectDelayMs = opts.reconnectDelayMs ?? RECONNECT_DELAY_MS;
+  const drainTimeoutMs = opts.drainTimeoutMs ?? DRAIN_TIMEOUT_MS;
+  const abort = new AbortController();
+  const pendingLines = new Set<Promise<void>>();
+  let sessionId: string | undefined;
+  let standaloneStarted = false;
+  let closed = false;
+
+  const baseHeaders = (): Record<string, string> => ({
+    Authorization: `Bearer ${token}`,
+    'MCP-Protocol-Version': protocolVersion,
+    ...(sessionId ? { 'MCP-Session-Id': sessionId } : {}),
+  });
+
+  const writeErrors = (ids: readonly (string | number)[], message: string) => {
+    for (const id of ids) {
+      opts.writeMessage(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32603, message } }));
+    }
+  };
+
+  const forwardLine = async (line: string): Promise<void> => {
+    const body = line.trim();
+    if (body.length === 0) return;
+
+    const outgoing = describeOutgoing(body);
+    if (!outgoing) {
+      opts.writeMessage(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32700, message: 'Parse error' },
+        }),
+      );
+      return;
+    }
+
+    let res: Response;
+    try {
+      res = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          ...baseHeaders(),
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body,
+        signal: abort.signal,
+      });
+    } catch {
+      if (!abort.signal.aborted) writeErrors(outgoing.ids, 'Gateway unreachable.');
+      return;
+    }
+
+    if (outgoing.isInitialize && res.ok) {
+      sessionId = res.headers.get('mcp-session-id') ?? undefined;
+    }
+
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => undefined);
+      if (res.status === 404 && sessionId) {
+        // Terminated or evicted session: the client has to initialize again.
+        sessionId = undefined;
+        opts.log?.('Gateway session expired; re-initialize to continue.');
+      }
+      writeErrors(outgoing.ids, `Gateway rejected the request (HTTP ${res.status}).`);
+      return;
+    }
+
+    const contentType = res.headers.get('content-type') ?? '';
+    try {
+      if (contentType.startsWith('text/event-stream') && res.body) {
+        await readSseStream(res.body, (event) => {
+          if (event.data.length > 0) opts.writeMessage(event.data);
+        });
+      } else {
+        const text = (await res.text()).trim();
+        if (text.length > 0) opts.writeMessage(text);
+      }
+    } catch {
+      if (!abort.signal.aborted) writeErrors(outgoing.ids, 'Gateway response was interrupted.');
+      return;
+    }
+
+    if (outgoing.isInitializedNotification && res.status === 202 && !standaloneStarted) {
+      standaloneStarted = true;
+      void relayStandaloneStream(sessionId);
+    }
+  };
+
+  // Server-initiated messages. Ends on 405 (no standalone stream), session change, or close.
+  const relayStandaloneStream = async (forSession: string | undefined): Promise<void> => {
+    let lastEventId: string | undefined;
+    let failures = 0;
+    while (!closed && sessionId === forSession && failures < MAX_RECONNECT_ATTEMPTS) {
+      try {
+        const res = await fetchImpl(endpoint, {
+          method: 'GET',
+          headers: {
+            ...baseHeaders(),
+            Accept: 'text/event-stream',
+            ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+          },
+          signal: abort.signal,
+        });
+        if (res.status === 405) return;
+        if (!res.ok || !res.body) {
+          await res.body?.cancel().catch(() => undefined);
+          // An expired resume point is not fatal; anything else is.
+          if (res.status !== 400 || lastEventId === undefined) return;
+          lastEventId = undefined;
+        } else {
+          failures = 0;
+          await readSseStream(res.body, (event) => {
+            if (event.id !== undefined) lastEventId = event.id;
+            if (event.data.length > 0) opts.writeMessage(event.data);
+          });
+        }
+      } catch {
+        if (closed) return;
+      }
+      failures += 1;
+      await delay(reconnectDelayMs);
+    }
+  };
+
+  const handleLine = (line: string): Promise<void> => {
+    if (closed) return Promise.resolve();
+    const pending = forwardLine(line).finally(() => pendingLines.delete(pending));
+    pendingLines.add(pending);
+    return pending;
+  };
+
+  return {
+    handleLine,
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      // Piped input (`echo ... | bridge`) ends before the responses arrive; let them finish.
+      if (pendingLines.size > 0) {
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          Promise.allSettled([...pendingLines]),
+          new Promise((resolve) => {
+            timer = setTimeout(resolve, drainTimeoutMs);
+          }),
+        ]);
+        clearTimeout(timer);
+      }
+      abort.abort();
+      if (!sessionId) return;
+      try {
+        const res = await fetchImpl(endpoint, {
+          method: 'DELETE',
+          headers: baseHeaders(),
+          signal: AbortSignal.timeout(2_000),
+        });
+        await res.body?.cancel().catch(() => undefined);
+      } catch {
+        // The session expires on its own (idle TTL / LRU cap).
+      }
+      sessionId = undefined;
+    },
+  };
+}
+
+/** Request ids (for synthesized errors) and lifecycle markers of one stdin line. */
+function describeOutgoing(body: string): Outgoing | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  const ids: (string | number)[] = [];
+  let isInitialize = false;
+  let isInitializedNotification = false;
+  for (const message of messages) {
+    if (!message || typeof message !== 'object') continue;
+    const rec = message as Record<string, unknown>;
+    const hasMethod = typeof rec.method === 'string';
+    if (hasMethod && (typeof rec.id === 'string' || typeof rec.id === 'number')) ids.push(rec.id);
+    if (rec.method === 'initialize') isInitialize = true;
+    if (rec.method === 'notifications/initialized') isInitializedNotification = true;
+  }
+  return { ids, isInitialize, isInitializedNotification };
+}
+
+export type SseEvent = Readonly<{ id?: string; event: string; data: string }>;
+
+export type SseParser = Readonly<{ push: (chunk: string) => void }>;
+
+/**
+ * Incremental text/event-stream parser (WHATWG field rules; comments and `retry` ignored). An
+ * event not terminated by a blank line when the stream ends is discarded, as the spec requires.
+ */
+export function createSseParser(onEvent: (event: SseEvent) => void): SseParser {
+  let buffer = '';
+  let data: string[] = [];
+  let eventName = '';
+  let eventId: string | undefined;
+  let hasFields = false;
+
+  const dispatch = () => {
+    if (hasFields) {
+      onEvent({
+        ...(eventId !== undefined ? { id: eventId } : {}),
+        event: eventName || 'message',
+        data: data.join('\n'),
+      });
+    }
+    data = [];
+    eventName = '';
+    eventId = undefined;
+    hasFields = false;
+  };
+
+  const processLine = (line: string) => {
+    if (line.length === 0) {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'data') {
+      data.push(value);
+      hasFields = true;
+    } else if (field === 'event') {
+      eventName = value;
+      hasFields = true;
+    } else if (field === 'id') {
+      eventId = value;
+      hasFields = true;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      // Hold back a trailing '\r': it may be the first half of a '\r\n' split across chunks.
+      const holdCr = buffer.endsWith('\r');
+      const lines = (holdCr ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+      buffer = (lines.pop() ?? '') + (holdCr ? '\r' : '');
+      for (const line of lines) processLine(line);
+    },
+  };
+}
+
+async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void,
+): Promise<void> {
+  const parser = createSseParser((event) => {
+    if (event.event === 'message') onEvent(event);
+  });
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+}
+
+async function delay(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,29 +1,45 @@
 // src/extensions.ts
 
 import * as vscode from 'vscode';
+import {
+  defaultHandshakePath,
+  removeHandshakeFile,
+  writeHandshakeFile,
+  HANDSHAKE_VERSION,
+} from './bridge/handshake.js';
 import { createLogger } from './logging/redact.js';
-import { createMcpPostHandler } from './mcp/handler.js';
+import { createMcpHandlers } from './mcp/handler.js';
 import { SchemaRegistry } from './tools/schemaRegistry.js';
-import { HttpServer } from './server/httpServer.js';
+import type { ResourceSubscriptions } from './resources/subscriptions.js';
+import { HttpServer, type ListenMode } from './server/httpServer.js';
+import { defaultSocketPath } from './server/socketListener.js';
 import { ensureBearerTokenPresent, parseTokenSecret } from './server/tokenSecret.js';
 import { ToolRuntime } from './tools/runtime/toolRuntime.js';
-import { buildCodexConfigToml } from './util/codexConfigToml.js';
+import { buildCodexConfigToml, buildCodexStdioBridgeConfigToml } from './util/codexConfigToml.js';
+import { buildSocketEndpointUrl, buildTcpEndpointUrl, isValidSocketPath } from './util/endpoint.js';
 import { stableJsonStringify } from './util/stableStringify.js';
 import { computeAllowedRoots } from './workspace/roots.js';
+import { isRealPathAllowed } from './workspace/uri.js';
 
 type GatewaySettings = Readonly<{
   enabled: boolean;
   bindAddress: '127.0.0.1';
   port: number;
   endpointPath: '/mcp';
+  listenMode: ListenMode;
+  socketPath: string;
   secretStorageKey: string;
   allowedOrigins: readonly string[];
   additionalAllowedRoots: readonly string[];
   enableSessions: boolean;
+  sessionIdleTtlMs: number;
   allowLegacyInitializeProtocolVersion: boolean;
+  enableBatchRequests: boolean;
+  enableStdioBridge: boolean;
   maxItemsPerPage: number;
   maxResponseBytes: number;
   requestTimeoutMs: number;
+  streamingRequestTimeoutMs: number;
   debugLogging: boolean;
   traceLogging: boolean;
   traceLogMaxChars: number;
@@ -35,6 +51,7 @@ const TRACE_OUT_CHAN_NAME = 'MCP LSP Gateway (Trace)';
 const TRACE_LOG_DEFAULT_MAX_CHARS = 8192;
 const TRACE_LOG_MIN_MAX_CHARS = 4096;
 const TRACE_LOG_MAX_MAX_CHARS = 16384;
+const LISTEN_MODES: readonly ListenMode[] = ['tcp', 'socket', 'tcpAndSocket'];
 
 /**
  * NOTE: This intentionally fails closed. If a setting is invalid or expands trust
@@ -47,6 +64,8 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
   const bindAddress = String(cfg.get<string>('bindAddress', '127.0.0.1'));
   const port = Number(cfg.get<number>('port', 3939));
   const endpointPath = String(cfg.get<string>('endpointPath', '/mcp'));
+  const listenMode = String(cfg.get<string>('listenMode', 'tcp'));
+  const socketPathSetting = String(cfg.get<string>('socketPath', '') ?? '').trim();
 
   const secretStorageKey = String(cfg.get<string>('secretStorageKey', `${EXT_NS}.authTokens`));
   const allowedOrigins = (cfg.get<readonly string[]>('allowedOrigins', []) ?? []).map(String);
@@ -55,13 +74,17 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
   ).map(String);
 
   const enableSessions = !!cfg.get<boolean>('enableSessions', true);
+  const sessionIdleTtlMs = Number(cfg.get<number>('sessionIdleTtlMs', 0));
   const allowLegacyInitializeProtocolVersion = !!cfg.get<boolean>(
     'allowLegacyInitializeProtocolVersion',
     false,
   );
+  const enableBatchRequests = !!cfg.get<boolean>('enableBatchRequests', false);
+  const enableStdioBridge = !!cfg.get<boolean>('enableStdioBridge', false);
   const maxItemsPerPage = Number(cfg.get<number>('maxItemsPerPage', 200));
   const maxResponseBytes = Number(cfg.get<number>('maxResponseBytes', 524_288));
   const requestTimeoutMs = Number(cfg.get<number>('requestTimeoutMs', 2_000));
+  const streamingRequestTimeoutMs = Number(cfg.get<number>('streamingRequestTimeoutMs', 0));
   const debugLogging = !!cfg.get<boolean>('debugLogging', false);
   const traceLogging = !!cfg.get<boolean>('traceLogging', false);
   const traceLogMaxChars = Number(cfg.get<number>('traceLogMaxChars', TRACE_LOG_DEFAULT_MAX_CHARS));
@@ -80,6 +103,15 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
   if (!Number.isInteger(port) || port < 1024 || port > 65535)
     problems.push(`port must be an integer in [1024, 65535] (got "${port}").`);
 
+  if (!isListenMode(listenMode))
+    problems.push(`listenMode must be one of ${LISTEN_MODES.join(', ')} (got "${listenMode}").`);
+
+  const socketPath = socketPathSetting || defaultSocketPath();
+  if (!isValidSocketPath(socketPath))
+    problems.push(
+      'socketPath must be an absolute path of at most 103 bytes, or a \\\\.\\pipe\\ name on Windows.',
+    );
+
   if (!Number.isInteger(maxItemsPerPage) || maxItemsPerPage < 1 || maxItemsPerPage > 200)
     problems.push(`maxItemsPerPage must be an integer in [1, 200] (got "${maxItemsPerPage}").`);
 
@@ -97,6 +129,21 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
       `requestTimeoutMs must be an integer in [250, 2000] (got "${requestTimeoutMs}").`,
     );
 
+  if (!Number.isInteger(sessionIdleTtlMs) || sessionIdleTtlMs < 0 || sessionIdleTtlMs > 86_400_000)
+    problems.push(
+      `sessionIdleTtlMs must be an integer in [0, 86400000] (got "${sessionIdleTtlMs}").`,
+    );
+
+  if (
+    !Number.isInteger(streamingRequestTimeoutMs) ||
+    streamingRequestTimeoutMs < 0 ||
+    streamingRequestTimeoutMs > 30_000 ||
+    (streamingRequestTimeoutMs > 0 && streamingRequestTimeoutMs < requestTimeoutMs)
+  )
+    problems.push(
+      `streamingRequestTimeoutMs must be 0 or an integer in [requestTimeoutMs, 30000] (got "${streamingRequestTimeoutMs}").`,
+    );
+
   if (
     !Number.isInteger(traceLogMaxChars) ||
     traceLogMaxChars < TRACE_LOG_MIN_MAX_CHARS ||
@@ -106,7 +153,7 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
       `traceLogMaxChars must be an integer in [${TRACE_LOG_MIN_MAX_CHARS}, ${TRACE_LOG_MAX_MAX_CHARS}] (got "${traceLogMaxChars}").`,
     );
 
-  if (problems.length) return { problems };
+  if (problems.length || !isListenMode(listenMode)) return { problems };
 
   return {
     problems,
@@ -115,14 +162,20 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
       bindAddress: '127.0.0.1',
       port,
       endpointPath: '/mcp',
+      listenMode,
+      socketPath,
       secretStorageKey,
       allowedOrigins,
       additionalAllowedRoots,
       enableSessions,
+      sessionIdleTtlMs,
       allowLegacyInitializeProtocolVersion,
+      enableBatchRequests,
+      enableStdioBridge,
       maxItemsPerPage,
       maxResponseBytes,
       requestTimeoutMs,
+      streamingRequestTimeoutMs,
       debugLogging,
       traceLogging,
       traceLogMaxChars,
@@ -130,8 +183,30 @@ function readAndValidateSettings(): { settings?: GatewaySettings; problems: stri
   };
 }
 
+function isListenMode(value: string): value is ListenMode {
+  return (LISTEN_MODES as readonly string[]).includes(value);
+}
+
+/** The endpoint clients are pointed at: the TCP URL unless the server listens on a socket only. */
 function buildBaseUrl(settings: GatewaySettings): string {
-  return `http://${settings.bindAddress}:${settings.port}${settings.endpointPath}`;
+  return settings.listenMode === 'socket'
+    ? buildSocketEndpointUrl(settings.socketPath, settings.endpointPath)
+    : buildTcpEndpointUrl(settings.bindAddress, settings.port, settings.endpointPath);
+}
+
+/** The bridge prefers the socket whenever one is listening (filesystem permissions apply). */
+function buildHandshakeEndpoint(settings: GatewaySettings): string {
+  return settings.listenMode === 'tcp'
+    ? buildTcpEndpointUrl(settings.bindAddress, settings.port, settings.endpointPath)
+    : buildSocketEndpointUrl(settings.socketPath, settings.endpointPath);
+}
+
+function describeListeners(settings: GatewaySettings): string {
+  const tcp = buildTcpEndpointUrl(settings.bindAddress, settings.port, settings.endpointPath);
+  const socket = buildSocketEndpointUrl(settings.socketPath, settings.endpointPath);
+  if (settings.listenMode === 'tcp') return tcp;
+  if (settings.listenMode === 'socket') return socket;
+  return `${tcp} and ${socket}`;
 }
 
 /**
@@ -210,6 +285,24 @@ async function copyCodexConfigTomlCommand(context: vscode.ExtensionContext): Pro
     return;
   }
 
+  // Codex cannot reach a local socket over HTTP; launch the stdio bridge instead (no token inline).
+  if (settings.listenMode === 'socket') {
+    if (!settings.enableStdioBridge) {
+      void vscode.window.showErrorMessage(
+        'The server listens on a local socket only. Enable "mcpLspGateway.enableStdioBridge" and retry.',
+      );
+      return;
+    }
+    const toml = buildCodexStdioBridgeConfigToml({
+      bridgeScriptPath: context.asAbsolutePath('dist/bridge/stdio.js'),
+    });
+    await vscode.env.clipboard.writeText(toml);
+    void vscode.window.showInformationMessage(
+      'Copied Codex config.toml (stdio bridge) to clipboard.',
+    );
+    return;
+  }
+
   const tokenEnsure = await ensureBearerTokenPresent(context.secrets, settings.secretStorageKey);
   if (!tokenEnsure.ok) {
     void vscode.window.showErrorMessage(
@@ -255,6 +348,7 @@ class ExtensionRuntime {
 
   private restartTimer: NodeJS.Timeout | undefined;
   private lastStartKey: string | undefined;
+  private handshakeWritten = false;
 
   public dispose(): void {
     if (this.restartTimer) clearTimeout(this.restartTimer);
@@ -315,11 +409,16 @@ class ExtensionRuntime {
       bindAddress: settings.bindAddress,
       port: settings.port,
       endpointPath: settings.endpointPath,
+      listenMode: settings.listenMode,
+      socketPath: settings.socketPath,
       enableSessions: settings.enableSessions,
+      sessionIdleTtlMs: settings.sessionIdleTtlMs,
       allowLegacyInitializeProtocolVersion: settings.allowLegacyInitializeProtocolVersion,
+      enableBatchRequests: settings.enableBatchRequests,
       maxItemsPerPage: settings.maxItemsPerPage,
       maxResponseBytes: settings.maxResponseBytes,
       requestTimeoutMs: settings.requestTimeoutMs,
+      streamingRequestTimeoutMs: settings.streamingRequestTimeoutMs,
       debugLogging: settings.debugLogging,
       traceLogging: settings.traceLogging,
       traceLogMaxChars: settings.traceLogMaxChars,
@@ -328,7 +427,11 @@ class ExtensionRuntime {
       secretStorageKey: settings.secretStorageKey,
     });
 
-    if (this.server && this.lastStartKey === startKey) return;
+    if (this.server && this.lastStartKey === startKey) {
+      // Token changes and the bridge toggle do not restart the server.
+      await this.syncStdioHandshake(settings);
+      return;
+    }
 
     await this.stopServer();
 
@@ -369,7 +472,6 @@ class ExtensionRuntime {
 
     const toolRuntime = new ToolRuntime();
     this.toolRuntime = toolRuntime;
-    this.registerRuntimeWatchers(toolRuntime);
 
     const logger = createLogger(this.output, { debugEnabled: settings.debugLogging });
     if (settings.traceLogging && !this.traceOutput) {
@@ -386,36 +488,51 @@ class ExtensionRuntime {
             maxChars: settings.traceLogMaxChars,
           })
         : undefined;
-    const onMcpPost = createMcpPostHandler({
+    const mcpHandlers = createMcpHandlers({
       protocolVersion: '2025-11-25',
       serverInfo,
       enableSessions: settings.enableSessions,
+      sessionIdleTtlMs: settings.sessionIdleTtlMs,
       allowLegacyInitializeProtocolVersion: settings.allowLegacyInitializeProtocolVersion,
+      enableBatchRequests: settings.enableBatchRequests,
       schemaRegistry,
       toolRuntime,
       maxItemsPerPage: settings.maxItemsPerPage,
       maxResponseBytes: settings.maxResponseBytes,
       requestTimeoutMs: settings.requestTimeoutMs,
+      streamingRequestTimeoutMs: settings.streamingRequestTimeoutMs,
       allowedRootsRealpaths,
       logger,
       ...(traceLogger ? { traceLogger } : {}),
       // Keep fail-closed unless you have a reproduced interop issue + a smoke test.
       allowMissingProtocolVersionOnInitializedNotification: false,
     });
+    this.registerRuntimeWatchers(
+      toolRuntime,
+      mcpHandlers.resourceSubscriptions,
+      allowedRootsRealpaths,
+    );
 
     this.server = new HttpServer({
       settings,
       secrets: this.context.secrets,
       output: this.output,
-      onMcpPost,
+      onMcpPost: mcpHandlers.onMcpPost,
+      onMcpGet: mcpHandlers.onMcpGet,
+      ...(settings.enableSessions ? { onMcpDelete: mcpHandlers.onMcpDelete } : {}),
+      onBeforeStop: () => {
+        mcpHandlers.resourceSubscriptions.clear();
+        mcpHandlers.streams.closeAll();
+      },
     });
 
     try {
       await this.server.start();
       this.lastStartKey = startKey;
       this.output.appendLine(
-        `[info] MCP server listening on ${buildBaseUrl(settings)} (localhost-only).`,
+        `[info] MCP server listening on ${describeListeners(settings)} (localhost-only).`,
       );
+      await this.syncStdioHandshake(settings);
     } catch (err) {
       this.output.appendLine(
         `[error] Failed to start MCP server; it will remain stopped. ${String(err).slice(0, 500)}`,
@@ -433,6 +550,7 @@ class ExtensionRuntime {
   }
 
   private async stopServer(): Promise<void> {
+    await this.removeStdioHandshake();
     if (!this.server && !this.toolRuntime) return;
     const toolRuntime = this.toolRuntime;
     this.toolRuntime = undefined;
@@ -454,22 +572,106 @@ class ExtensionRuntime {
     }
   }
 
-  private registerRuntimeWatchers(toolRuntime: ToolRuntime): void {
+  // The stdio bridge (dist/bridge/stdio.js) finds the endpoint and a bearer token in this file.
+  private async syncStdioHandshake(settings: GatewaySettings): Promise<void> {
+    if (!settings.enableStdioBridge || !this.server) {
+      await this.removeStdioHandshake();
+      return;
+    }
+
+    const parsed = parseTokenSecret(await this.context.secrets.get(settings.secretStorageKey));
+    const token = parsed.kind === 'valid' ? parsed.tokens[0] : undefined;
+    if (!token) {
+      await this.removeStdioHandshake();
+      return;
+    }
+
+    try {
+      await writeHandshakeFile(defaultHandshakePath(), {
+        version: HANDSHAKE_VERSION,
+        endpoint: buildHandshakeEndpoint(settings),
+        token,
+        protocolVersion: '2025-11-25',
+        pid: process.pid,
+      });
+      if (!this.handshakeWritten) {
+        this.output.appendLine('[info] Wrote stdio bridge handshake file (token not displayed).');
+      }
+      this.handshakeWritten = true;
+    } catch (err) {
+      this.output.appendLine(
+        `[error] Failed to write stdio bridge handshake file. ${String(err).slice(0, 500)}`,
+      );
+    }
+  }
+
+  private async removeStdioHandshake(): Promise<void> {
+    if (!this.handshakeWritten) return;
+    this.handshakeWritten = false;
+    await removeHandshakeFile(defaultHandshakePath(), process.pid).catch(() => undefined);
+  }
+
+  private registerRuntimeWatchers(
+    toolRuntime: ToolRuntime,
+    resourceSubscriptions: ResourceSubscriptions,
+    allowedRootsRealpaths: readonly string[],
+  ): void {
     for (const disposable of this.runtimeDisposables) {
       disposable.dispose();
     }
     this.runtimeDisposables.length = 0;
 
+    const changed = (uris: readonly vscode.Uri[]) =>
+      resourceSubscriptions.fileChanged(
+        uris.filter((uri) => uri.scheme === 'file').map((uri) => uri.toString()),
+      );
+    // Catch edits made outside VS Code (other tools, git) for subscribed resources. A plain glob
+    // only covers workspace folders, so roots outside them (additionalAllowedRoots) get their own.
+    const workspaceFolderPaths = (vscode.workspace.workspaceFolders ?? [])
+      .filter((wf) => wf.uri.scheme === 'file')
+      .map((wf) => wf.uri.fsPath);
+    const fsWatchers = [
+      vscode.workspace.createFileSystemWatcher('**/*'),
+      ...allowedRootsRealpaths
+        .filter((root) => !isRealPathAllowed(root, workspaceFolderPaths))
+        .map((root) =>
+          vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(root), '**/*'),
+          ),
+        ),
+    ];
+
     this.runtimeDisposables.push(
       vscode.workspace.onDidOpenTextDocument(() => toolRuntime.bumpTextEpoch()),
       vscode.workspace.onDidCloseTextDocument(() => toolRuntime.bumpTextEpoch()),
-      vscode.workspace.onDidChangeTextDocument(() => toolRuntime.bumpTextEpoch()),
-      vscode.workspace.onDidSaveTextDocument(() => toolRuntime.bumpTextEpoch()),
-      vscode.workspace.onDidCreateFiles(() => toolRuntime.bumpFsEpoch()),
-      vscode.workspace.onDidDeleteFiles(() => toolRuntime.bumpFsEpoch()),
-      vscode.workspace.onDidRenameFiles(() => toolRuntime.bumpFsEpoch()),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        toolRuntime.bumpTextEpoch();
+        changed([e.document.uri]);
+      }),
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        toolRuntime.bumpTextEpoch();
+        changed([doc.uri]);
+      }),
+      vscode.workspace.onDidCreateFiles((e) => {
+        toolRuntime.bumpFsEpoch();
+        changed(e.files);
+      }),
+      vscode.workspace.onDidDeleteFiles((e) => {
+        toolRuntime.bumpFsEpoch();
+        changed(e.files);
+      }),
+      vscode.workspace.onDidRenameFiles((e) => {
+        toolRuntime.bumpFsEpoch();
+        changed(e.files.flatMap((f) => [f.oldUri, f.newUri]));
+      }),
       vscode.workspace.onDidChangeWorkspaceFolders(() => toolRuntime.bumpRootsEpoch()),
       vscode.languages.onDidChangeDiagnostics(() => toolRuntime.bumpDiagnosticsEpoch()),
+      ...fsWatchers.flatMap((watcher) => [
+        watcher,
+        watcher.onDidChange((uri) => changed([uri])),
+        watcher.onDidCreate((uri) => changed([uri])),
+        watcher.onDidDelete((uri) => changed([uri])),
+      ]),
     );
   }
 }
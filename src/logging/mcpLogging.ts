@@ -0,0 +1,170 @@
+// src/logging/mcpLogging.ts
+//
+// MCP `logging` capability (v1), scoped like the standalone SSE streams (per session, or one
+// global key when sessions are disabled).
+// - Nothing is sent until the session calls logging/setLevel; the level is the minimum severity
+// - Events are the ones written to the output channel logger (same names and metadata), forwarded
+//   as notifications/message with `data` passed through sanitizeForTrace (redaction + bounds);
+//   stack traces stay in the output channel and are never sent to clients
+// - Request-scoped events go to the requesting session only; server-wide events go to every
+//   session that set a level
+// - Rate limited per session; dropped messages are reported once the next window opens
+
+import type { Logger } from './redact.js';
+import { sanitizeForTrace } from './traceSanitize.js';
+
+/** RFC 5424 severities, lowest first (MCP logging levels). */
+export const MCP_LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+export type McpLogLevel = (typeof MCP_LOG_LEVELS)[number];
+
+export const MCP_LOGGER_NAME = 'mcp-lsp-gateway' as const;
+export const MAX_LOG_MESSAGES_PER_SECOND = 50;
+
+export type LoggingMessageParams = Readonly<{
+  level: McpLogLevel;
+  logger: typeof MCP_LOGGER_NAME;
+  data: unknown;
+}>;
+
+export type McpLoggingOptions = Readonly<{
+  /** Deliver one `notifications/message` to a session's stream. */
+  notify: (streamKey: string, params: LoggingMessageParams) => void;
+  maxPerSecond?: number;
+  now?: () => number;
+}>;
+
+export type McpLogging = Readonly<{
+  setLevel: (streamKey: string, level: McpLogLevel) => void;
+  /** Forward one event; `streamKey` undefined means every session that set a level. */
+  log: (streamKey: string | undefined, level: McpLogLevel, event: string, meta?: unknown) => void;
+  /** Logger that writes to `base` and forwards each event like `log`. */
+  forward: (base: Logger | undefined, streamKey?: string) => Logger;
+  releaseSession: (streamKey: string) => void;
+  clear: () => void;
+}>;
+
+type SessionLogState = {
+  minIndex: number;
+  windowStart: number;
+  sent: number;
+  dropped: number;
+};
+
+export function createMcpLogging(opts: McpLoggingOptions): McpLogging {
+  const maxPerSecond = opts.maxPerSecond ?? MAX_LOG_MESSAGES_PER_SECOND;
+  const now = opts.now ?? Date.now;
+  const sessions = new Map<string, SessionLogState>();
+
+  const deliver = (streamKey: string, params: LoggingMessageParams) => {
+    try {
+      opts.notify(streamKey, params);
+    } catch {
+      // Delivery failures must not affect request handling.
+    }
+  };
+
+  const sendTo = (streamKey: string, state: SessionLogState, level: McpLogLevel, data: unknown) => {
+    if (levelIndex(level) < state.minIndex) return;
+
+    const at = now();
+    if (at - state.windowStart >= 1_000) {
+      const dropped = state.dropped;
+      state.windowStart = at;
+      state.sent = 0;
+      state.dropped = 0;
+      if (dropped > 0) {
+        state.sent += 1;
+        deliver(streamKey, {
+          level: 'warning',
+          logger: MCP_LOGGER_NAME,
+          data: { event: 'log.dropped', meta: { dropped } },
+        });
+      }
+    }
+    if (state.sent >= maxPerSecond) {
+      state.dropped += 1;
+      return;
+    }
+    state.sent += 1;
+    deliver(streamKey, { level, logger: MCP_LOGGER_NAME, data });
+  };
+
+  const log: McpLogging['log'] = (streamKey, level, event, meta) => {
+    const targets: Array<[string, SessionLogState]> = [];
+    if (streamKey === undefined) {
+      targets.push(...sessions.entries());
+    } else {
+      const state = sessions.get(streamKey);
+      if (state) targets.push([streamKey, state]);
+    }
+    if (targets.length === 0) return;
+
+    const data = omitStacks(sanitizeForTrace(meta === undefined ? { event } : { event, meta }));
+    for (const [key, state] of targets) sendTo(key, state, level, data);
+  };
+
+  return {
+    setLevel: (streamKey, level) => {
+      const existing = sessions.get(streamKey);
+      if (existing) {
+        existing.minIndex = levelIndex(level);
+        return;
+      }
+      sessions.set(streamKey, { minIndex: levelIndex(level), windowStart: 0, sent: 0, dropped: 0 });
+    },
+    log,
+    forward: (base, streamKey) => ({
+      debug: (msg, meta) => {
+        base?.debug(msg, meta);
+        log(streamKey, 'debug', msg, meta);
+      },
+      info: (msg, meta) => {
+        base?.info(msg, meta);
+        log(streamKey, 'info', msg, meta);
+      },
+      warn: (msg, meta) => {
+        base?.warn(msg, meta);
+        log(streamKey, 'warning', msg, meta);
+      },
+      error: (msg, meta) => {
+        base?.error(msg, meta);
+        log(streamKey, 'error', msg, meta);
+      },
+    }),
+    releaseSession: (streamKey) => {
+      sessions.delete(streamKey);
+    },
+    clear: () => {
+      sessions.clear();
+    },
+  };
+}
+
+export function isMcpLogLevel(value: unknown): value is McpLogLevel {
+  return typeof value === 'string' && (MCP_LOG_LEVELS as readonly string[]).includes(value);
+}
+
+// Runs on sanitizeForTrace output, which is acyclic and bounded.
+function omitStacks(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(omitStacks);
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key !== 'stack') out[key] = omitStacks(item);
+  }
+  return out;
+}
+
+function levelIndex(level: McpLogLevel): number {
+  return MCP_LOG_LEVELS.indexOf(level);
+}
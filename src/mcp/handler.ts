@@ -5,22 +5,83 @@
 // - Lifecycle: initialize -> notifications/initialized
 // - Post-init header enforcement: MCP-Protocol-Version (+ MCP-Session-Id when sessions enabled)
 // - Routing: ping + tools/list + tools/call (delegated to tools/dispatcher)
+// - Routing: resources/list, resources/templates/list, resources/read (resources/dispatcher)
+// - resources/subscribe: notifications/resources/updated go out on the session's standalone stream
+// - Routing: prompts/list, prompts/get (prompts/dispatcher)
+// - logging/setLevel: logger events of the session go out as notifications/message on its
+//   standalone stream
+// - GET: standalone per-session SSE stream for server-initiated messages
+// - Slow tools/call requests may be answered as an SSE stream (progress, then the response)
+// - SSE streams are resumable: GET with Last-Event-ID replays missed events from a per-session buffer
+// - DELETE: explicit session termination (sessions enabled); later requests with the id get 404
+// - notifications/cancelled stops waiting on an in-flight tools/call of the same session
 //
 // Notes:
 // - Transport/security gating (Content-Type, Accept, Authorization, Origin, max bytes) should already
 //   be enforced before this handler is invoked.
 // - All HTTP-layer rejections return empty bodies (fail-closed), even for JSON-RPC requests with ids.
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { createSessionStore, type SessionStore } from '../server/session.js';
+import { createMcpLogging, isMcpLogLevel, type McpLogLevel } from '../logging/mcpLogging.js';
 import type { Logger } from '../logging/redact.js';
 import { redactString } from '../logging/redact.js';
 import { sanitizeForTrace, sanitizeJsonRpcMessage } from '../logging/traceSanitize.js';
-import type { McpPostContext, McpPostHandler, McpPostResult } from '../server/router.js';
-import { parseJsonRpcMessage, type JsonRpcId, type JsonRpcErrorObject } from './jsonrpc.js';
+import type {
+  McpDeleteContext,
+  McpDeleteHandler,
+  McpDeleteResult,
+  McpGetContext,
+  McpGetHandler,
+  McpGetResult,
+  McpPostContext,
+  McpPostHandler,
+  McpPostResult,
+} from '../server/router.js';
+import { createReplayBuffer, type ReplayBuffer } from '../server/replay.js';
+import {
+  createSseStreamRegistry,
+  SSE_GLOBAL_STREAM_KEY,
+  type SseConnection,
+  type SseStream,
+  type SseStreamRegistry,
+} from '../server/sse.js';
+import {
+  parseJsonRpcBatch,
+  parseJsonRpcMessage,
+  type JsonRpcId,
+  type JsonRpcErrorObject,
+  type ParsedJsonRpcMessage,
+} from './jsonrpc.js';
 import { dispatchToolsList, dispatchToolCall, type ToolCallResult } from '../tools/dispatcher.js';
+import {
+  dispatchResourceTemplatesList,
+  dispatchResourcesList,
+  dispatchResourcesRead,
+  dispatchResourcesSubscribe,
+  dispatchResourcesUnsubscribe,
+  type ResourcesDispatcherDeps,
+  type ResourcesDispatchResult,
+  type ResourcesSubscriptionDeps,
+} from '../resources/dispatcher.js';
+import { truncateResourcesReadResult } from '../resources/read.js';
+import { dispatchPromptsGet, dispatchPromptsList } from '../prompts/dispatcher.js';
+import {
+  createResourceSubscriptions,
+  type ResourceSubscriptions,
+} from '../resources/subscriptions.js';
 import type { SchemaRegistry } from '../tools/schemaRegistry.js';
+import {
+  createCancellationSource,
+  type CancellationSource,
+} from '../tools/runtime/cancellation.js';
+import { createProgressRelay, type ProgressRelay } from '../tools/runtime/progress.js';
 import type { ToolRuntime } from '../tools/runtime/toolRuntime.js';
-import { truncateHoverToolCallResult } from '../tools/truncate.js';
+import {
+  truncateHoverToolCallResult,
+  truncateInlayHintsToolCallResult,
+  truncateSignatureHelpToolCallResult,
+} from '../tools/truncate.js';
 import { jsonByteLength, utf8ByteLength } from '../util/responseSize.js';
 
 export type McpServerInfo = Readonly<{
@@ -37,6 +98,17 @@ export type CreateMcpPostHandlerOptions = Readonly<{
   maxItemsPerPage: number;
   maxResponseBytes: number;
   requestTimeoutMs: number;
+  /**
+   * Processing-time cap for tools/call requests answered as an SSE stream. Calls still running
+   * after a short delay switch to text/event-stream. 0 or omitted disables the delayed upgrade;
+   * calls carrying a progress token are streamed either way.
+   */
+  streamingRequestTimeoutMs?: number;
+  /**
+   * Evict sessions idle (no request presenting their MCP-Session-Id) for this long.
+   * 0 or omitted disables idle expiry; the session cap still applies.
+   */
+  sessionIdleTtlMs?: number;
   /**
    * Canonical realpaths of allowlisted roots (workspace folders + additional roots).
    */
@@ -64,6 +136,14 @@ export type CreateMcpPostHandlerOptions = Readonly<{
    * Default: false (fail closed).
    */
   allowLegacyInitializeProtocolVersion?: boolean;
+  /**
+   * Opt-in: accept JSON-RPC batch arrays (at most MAX_BATCH_ITEMS elements per POST).
+   *
+   * Default: false (arrays are rejected with 400).
+   */
+  enableBatchRequests?: boolean;
+  /** Clock for batch deadlines (tests). Default: Date.now. */
+  now?: () => number;
 }>;
 
 type InitializeResult = Readonly<{
@@ -72,6 +152,14 @@ type InitializeResult = Readonly<{
     tools: Readonly<{
       listChanged: false;
     }>;
+    resources: Readonly<{
+      subscribe: true;
+      listChanged: false;
+    }>;
+    prompts: Readonly<{
+      listChanged: false;
+    }>;
+    logging: Readonly<Record<string, never>>;
   }>;
   serverInfo: McpServerInfo;
 }>;
@@ -81,109 +169,364 @@ const ERR_CAP_EXCEEDED = 'MCP_LSP_GATEWAY/CAP_EXCEEDED' as const;
 const ERR_INVALID_PARAMS = 'MCP_LSP_GATEWAY/INVALID_PARAMS' as const;
 const ERR_INTERNAL = 'MCP_LSP_GATEWAY/INTERNAL' as const;
 
+// tools/call answers switch from a JSON body to an SSE stream after this delay (streaming enabled).
+const STREAM_UPGRADE_AFTER_MS = 1_000;
+const STREAM_PROGRESS_INTERVAL_MS = 1_000;
+
+export const MAX_BATCH_ITEMS = 10;
+
+const RESOURCES_METHODS: ReadonlySet<string> = new Set([
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+]);
+
 const LEGACY_INITIALIZE_PROTOCOL_VERSIONS = new Set(['2025-06-18', '2025-11-25']);
 
-export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPostHandler {
+export type McpHandlers = Readonly<{
+  onMcpPost: McpPostHandler;
+  onMcpGet: McpGetHandler;
+  /** Session termination; answers 405 when sessions are disabled. */
+  onMcpDelete: McpDeleteHandler;
+  /** Open standalone SSE streams, keyed by session id (or a single global key without sessions). */
+  streams: SseStreamRegistry;
+  /** resources/subscribe state, keyed like `streams`; fed file change events by the extension. */
+  resourceSubscriptions: ResourceSubscriptions;
+}>;
+
+export function createMcpHandlers(opts: CreateMcpPostHandlerOptions): McpHandlers {
+  const now = opts.now ?? Date.now;
+
   // Global init state (used when sessions are disabled).
   let didAnyInitializeSucceed = false;
   let didReceiveInitializedNotification = false;
 
   // Session state (used when sessions are enabled).
   // NOTE: Session IDs are intentionally nondeterministic; enforcement behavior is deterministic.
+  const streams = createSseStreamRegistry();
+
+  // Replay buffers, keyed like `streams`. A session's buffer is dropped when the session ends, so
+  // total replay memory stays bounded by maxSessions x the per-session byte cap.
+  const replayBuffers = new Map<string, ReplayBuffer>();
+
+  // In-flight tools/call requests, keyed like `streams` and then by request id. Cancellation is
+  // scoped to the session that sent the request.
+  const inFlightCalls = new Map<string, Map<string, CancellationSource>>();
+
+  // Update notifications are dropped when the session has no open standalone stream.
+  const resourceSubscriptions = createResourceSubscriptions({
+    notify: (streamKey, uri) => {
+      streams.send(streamKey, {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri },
+      });
+    },
+  });
+  // Log notifications follow the same rule: no open standalone stream, no delivery.
+  const mcpLogging = createMcpLogging({
+    notify: (streamKey, params) => {
+      streams.send(streamKey, { jsonrpc: '2.0', method: 'notifications/message', params });
+    },
+  });
+  // Stream key of the request whose tool or resource call is running. Cache evictions are routine
+  // churn: they go to the output channel and, at debug, to the session whose call caused them only.
+  const cacheScope = new AsyncLocalStorage<string>();
+  opts.toolRuntime.onCacheEvicted((event) => {
+    opts.logger?.debug('cache.evict', event);
+    const streamKey = cacheScope.getStore();
+    if (streamKey !== undefined) mcpLogging.log(streamKey, 'debug', 'cache.evict', event);
+  });
+  const trackCall = (
+    streamKey: string,
+    id: JsonRpcId,
+  ): Readonly<{ source: CancellationSource; untrack: () => void }> => {
+    let calls = inFlightCalls.get(streamKey);
+    if (!calls) {
+      calls = new Map();
+      inFlightCalls.set(streamKey, calls);
+    }
+    const key = requestIdKey(id);
+    const source = createCancellationSource();
+    calls.set(key, source);
+    const untrack = () => {
+      if (calls.get(key) === source) calls.delete(key);
+      if (calls.size === 0 && inFlightCalls.get(streamKey) === calls)
+        inFlightCalls.delete(streamKey);
+    };
+    return { source, untrack };
+  };
+  const cancelCall = (streamKey: string, id: JsonRpcId): boolean => {
+    const source = inFlightCalls.get(streamKey)?.get(requestIdKey(id));
+    source?.cancel();
+    return source !== undefined;
+  };
+
+  // Open GET (event-stream) connections per stream key; a session holding one is active even
+  // without POSTs, so idle expiry skips it.
+  const openGetConnections = new Map<string, number>();
+  const trackGetConnection = (streamKey: string, connection: SseConnection) => {
+    openGetConnections.set(streamKey, (openGetConnections.get(streamKey) ?? 0) + 1);
+    connection.onClose(() => {
+      const count = openGetConnections.get(streamKey) ?? 0;
+      if (count > 1) openGetConnections.set(streamKey, count - 1);
+      else openGetConnections.delete(streamKey);
+    });
+  };
+
+  const releaseSession = (sessionId: string) => {
+    streams.close(sessionId);
+    replayBuffers.get(sessionId)?.clear();
+    replayBuffers.delete(sessionId);
+    for (const source of inFlightCalls.get(sessionId)?.values() ?? []) source.cancel();
+    inFlightCalls.delete(sessionId);
+    resourceSubscriptions.releaseSession(sessionId);
+    mcpLogging.releaseSession(sessionId);
+  };
+
   const sessionStore: SessionStore | undefined = opts.enableSessions
     ? createSessionStore({
-        // Deterministic eviction by insertion order; no TTL by default.
+        // Least-recently-active eviction at the cap; optional idle TTL.
         maxSessions: 64,
+        idleTtlMs: opts.sessionIdleTtlMs ?? 0,
+        isActive: (sessionId) => openGetConnections.has(sessionId),
+        onEvict: (sessionId, reason, remaining) => {
+          releaseSession(sessionId);
+          // Output channel only: other sessions must not learn about this one.
+          opts.logger?.debug('session.evict', { reason, sessions: remaining });
+        },
       })
     : undefined;
 
-  return async function onMcpPost(ctx: McpPostContext): Promise<McpPostResult> {
-    const bodyText = ctx.bodyText;
-    const logger = opts.logger;
-    const traceLogger = opts.traceLogger;
-    const rid = ctx.requestId;
+  const getReplayBuffer = (streamKey: string): ReplayBuffer => {
+    let buffer = replayBuffers.get(streamKey);
+    if (!buffer) {
+      buffer = createReplayBuffer();
+      replayBuffers.set(streamKey, buffer);
+    }
+    return buffer;
+  };
+
+  // Post-init once any initialize succeeded. With sessions, a request presenting MCP-Session-Id is
+  // always judged against the store, so terminated ids keep getting 404 after the last session ends.
+  const isPostInit = (headers: Readonly<Record<string, string>>): boolean =>
+    opts.enableSessions
+      ? (sessionStore?.size() ?? 0) > 0 || getHeader(headers, 'mcp-session-id') !== undefined
+      : didAnyInitializeSucceed;
+
+  // Enforce post-init headers (HTTP errors, empty body). Shared by POST, GET, and DELETE.
+  const checkPostInitHeaders = (
+    headers: Readonly<Record<string, string>>,
+    requireProtocolVersion: boolean,
+    requireSession: boolean,
+    allowMissingProtocolVersionForThisCall: boolean,
+  ): { ok: true; sessionId?: string } | { ok: false; status: number } => {
+    if (requireProtocolVersion) {
+      const pv = getHeader(headers, 'mcp-protocol-version');
+      if (!pv) {
+        if (!allowMissingProtocolVersionForThisCall) return { ok: false, status: 400 };
+      } else if (pv !== opts.protocolVersion) {
+        return { ok: false, status: 400 };
+      }
+    }
+
+    if (requireSession) {
+      if (!sessionStore) return { ok: false, status: 500 };
+      const sid = getHeader(headers, 'mcp-session-id');
+      const r = sessionStore.require(sid);
+      if (!r.ok) return { ok: false, status: r.status };
+      return { ok: true, sessionId: r.sessionId };
+    }
+
+    return { ok: true };
+  };
+
+  const onMcpPost: McpPostHandler = async function onMcpPost(
+    ctx: McpPostContext,
+  ): Promise<McpPostResult> {
+    if (opts.enableBatchRequests) {
+      const batch = parseJsonRpcBatch(ctx.bodyText);
+      if (batch.ok) return await handleBatch(ctx, batch.messages);
+      if (batch.reason !== 'not_batch') {
+        logInvalidBody(ctx, batch.reason);
+        return { status: 400 };
+      }
+    }
 
-    const parsed = parseJsonRpcMessage(bodyText);
+    const parsed = parseJsonRpcMessage(ctx.bodyText);
     if (!parsed.ok) {
-      logger?.debug('jsonrpc.invalid', {
-        rid,
-        reason: parsed.reason,
-        bodyBytes: ctx.bodyBytes,
-      });
-      traceLogger?.info('trace.in', {
-        rid,
-        kind: 'invalid',
-        reason: parsed.reason,
-        bodyBytes: ctx.bodyBytes,
-      });
+      logInvalidBody(ctx, parsed.reason);
       // Invalid JSON or invalid JSON-RPC envelope: transport-layer 400, empty body.
       return { status: 400 };
     }
+    return await handleMessage(
+      ctx,
+      parsed.message,
+      /* allowStream */ true,
+      /* requestTimeoutMs */ opts.requestTimeoutMs,
+    );
+  };
+
+  const logInvalidBody = (ctx: McpPostContext, reason: string) => {
+    opts.logger?.debug('jsonrpc.invalid', { rid: ctx.requestId, reason, bodyBytes: ctx.bodyBytes });
+    opts.traceLogger?.info('trace.in', {
+      rid: ctx.requestId,
+      kind: 'invalid',
+      reason,
+      bodyBytes: ctx.bodyBytes,
+    });
+  };
+
+  // Opt-in JSON-RPC batches: every element passes the same lifecycle and header checks as a single
+  // message before any element runs, so a transport-layer rejection fails the whole batch (empty
+  // body) without side effects. Elements then run in order under one requestTimeoutMs deadline;
+  // requests left when it passes get timeout errors without running.
+  // Responses keep request order under one combined maxResponseBytes budget; a response that does
+  // not fit is replaced by a CAP_EXCEEDED error for its id (space for those errors is reserved).
+  const handleBatch = async (
+    ctx: McpPostContext,
+    messages: readonly ParsedJsonRpcMessage[],
+  ): Promise<McpPostResult> => {
+    if (messages.length > MAX_BATCH_ITEMS) return { status: 400 };
+    // initialize mints the session header for its own POST, so it cannot share one.
+    if (messages.some((m) => m.kind !== 'response' && m.msg.method === 'initialize')) {
+      return { status: 400 };
+    }
+    for (const message of messages) {
+      const status = transportRejection(ctx.headers, message);
+      if (status !== undefined) return { status };
+    }
+
+    const capFallbacks = messages.map((m) =>
+      m.kind === 'request'
+        ? jsonRpcErrorResponse(m.msg.id, capExceededError('Batch exceeded maxResponseBytes.'))
+            .bodyText!
+        : undefined,
+    );
+    const fallbackBytes = capFallbacks.map((t) => (t === undefined ? 0 : utf8ByteLength(t) + 1));
+    let reserved = fallbackBytes.reduce((a, b) => a + b, 0);
+    // Brackets plus one comma per element after the first (each element is counted with +1).
+    let used = 1;
+    if (used + reserved > opts.maxResponseBytes) return { status: 400 };
+
+    opts.logger?.debug('jsonrpc.batch', { rid: ctx.requestId, items: messages.length });
+    const deadline = now() + opts.requestTimeoutMs;
+    const bodies: string[] = [];
+    for (const [i, message] of messages.entries()) {
+      const remainingMs = deadline - now();
+      const result =
+        remainingMs <= 0 && message.kind === 'request'
+          ? jsonRpcErrorResponse(message.msg.id, capExceededError('Request timed out.'))
+          : await handleMessage(
+              ctx,
+              message,
+              /* allowStream */ false,
+              /* requestTimeoutMs */ Math.max(0, remainingMs),
+            );
+      reserved -= fallbackBytes[i]!;
+      if (typeof result.bodyText !== 'string') {
+        // Only reachable when the session ends while the batch runs (DELETE or eviction).
+        if (result.status >= 400) return { status: result.status };
+        continue;
+      }
+      const bytes = utf8ByteLength(result.bodyText) + 1;
+      const fits = used + bytes + reserved <= opts.maxResponseBytes;
+      const text = fits || capFallbacks[i] === undefined ? result.bodyText : capFallbacks[i];
+      used += fits ? bytes : fallbackBytes[i]!;
+      bodies.push(text);
+    }
+
+    if (bodies.length === 0) return { status: 202 };
+    return { status: 200, bodyText: `[${bodies.join(',')}]` };
+  };
+
+  // The HTTP status handleMessage would reject this message with before doing any work, if any.
+  // Mirrors its lifecycle and header checks (batch elements are never initialize).
+  const transportRejection = (
+    headers: Readonly<Record<string, string>>,
+    message: ParsedJsonRpcMessage,
+  ): number | undefined => {
+    if (message.kind === 'response') return undefined;
+    const method = message.msg.method;
+    const isInitializedNotification = method === 'notifications/initialized';
+    if (!isPostInit(headers)) {
+      // Requests get a JSON-RPC "Not initialized" error instead.
+      return message.kind === 'notification' || isInitializedNotification ? 400 : undefined;
+    }
+    const allowMissingPv =
+      Boolean(opts.allowMissingProtocolVersionOnInitializedNotification) &&
+      isInitializedNotification &&
+      message.kind === 'notification';
+    const hdr = checkPostInitHeaders(
+      headers,
+      /* requireProtocolVersion */ true,
+      /* requireSession */ opts.enableSessions,
+      /* allowMissingProtocolVersionForThisCall */ allowMissingPv,
+    );
+    return hdr.ok ? undefined : hdr.status;
+  };
+
+  const handleMessage = async (
+    ctx: McpPostContext,
+    message: ParsedJsonRpcMessage,
+    allowStream: boolean,
+    requestTimeoutMs: number,
+  ): Promise<McpPostResult> => {
+    const logger = opts.logger;
+    const traceLogger = opts.traceLogger;
+    const rid = ctx.requestId;
 
     // JSON-RPC responses sent to us are accepted and ignored.
-    if (parsed.message.kind === 'response') {
+    if (message.kind === 'response') {
       logger?.debug('jsonrpc.in', {
         rid,
         kind: 'response',
         idPresent: true,
         bodyBytes: ctx.bodyBytes,
       });
-      traceLogger?.info('trace.in', { rid, message: sanitizeJsonRpcMessage(parsed.message) });
+      traceLogger?.info('trace.in', { rid, message: sanitizeJsonRpcMessage(message) });
       return { status: 202 };
     }
 
     const headers = ctx.headers;
-    const method = parsed.message.msg.method;
+    const method = message.msg.method;
     logger?.debug('jsonrpc.in', {
       rid,
-      kind: parsed.message.kind,
+      kind: message.kind,
       method,
-      idPresent: parsed.message.kind === 'request',
+      idPresent: message.kind === 'request',
       bodyBytes: ctx.bodyBytes,
     });
-    traceLogger?.info('trace.in', { rid, message: sanitizeJsonRpcMessage(parsed.message) });
+    traceLogger?.info('trace.in', { rid, message: sanitizeJsonRpcMessage(message) });
 
     // Lifecycle / post-init model:
     // - Pre-init: only "initialize" should succeed.
     // - Post-init: enforce MCP-Protocol-Version (and session id if enabled) on every request/notification.
-    const postInit = opts.enableSessions
-      ? (sessionStore?.size() ?? 0) > 0
-      : didAnyInitializeSucceed;
+    const postInit = isPostInit(headers);
 
     // Helper: enforce post-init headers (HTTP errors, empty body).
     const enforcePostInitHeaders = (
       requireProtocolVersion: boolean,
       requireSession: boolean,
       allowMissingProtocolVersionForThisCall: boolean,
-    ): { ok: true; sessionId?: string } | { ok: false; status: number } => {
-      if (requireProtocolVersion) {
-        const pv = getHeader(headers, 'mcp-protocol-version');
-        if (!pv) {
-          if (!allowMissingProtocolVersionForThisCall) return { ok: false, status: 400 };
-        } else if (pv !== opts.protocolVersion) {
-          return { ok: false, status: 400 };
-        }
-      }
-
-      if (requireSession) {
-        if (!sessionStore) return { ok: false, status: 500 };
-        const sid = getHeader(headers, 'mcp-session-id');
-        const r = sessionStore.require(sid);
-        if (!r.ok) return { ok: false, status: r.status };
-        return { ok: true, sessionId: r.sessionId };
-      }
-
-      return { ok: true };
-    };
+    ) =>
+      checkPostInitHeaders(
+        headers,
+        requireProtocolVersion,
+        requireSession,
+        allowMissingProtocolVersionForThisCall,
+      );
 
     // --- initialize ---------------------------------------------------------
     if (method === 'initialize') {
-      if (parsed.message.kind !== 'request') {
+      if (message.kind !== 'request') {
         // initialize MUST be a request; as a notification we cannot respond with JSON-RPC.
         return { status: 400 };
       }
 
-      const req = parsed.message.msg;
+      const req = message.msg;
 
       // Validate required param: params.protocolVersion must match.
       const pv = getProtocolVersionParam(req.params);
@@ -213,6 +556,9 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
         protocolVersion: opts.protocolVersion,
         capabilities: {
           tools: { listChanged: false },
+          resources: { subscribe: true, listChanged: false },
+          prompts: { listChanged: false },
+          logging: {},
         },
         serverInfo: opts.serverInfo,
       };
@@ -238,6 +584,7 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
       if (opts.enableSessions) {
         // Mint and attach MCP-Session-Id header.
         const sessionId = sessionStore!.create(opts.protocolVersion);
+        logger?.debug('session.create', { rid, sessions: sessionStore!.size() });
         traceLogger?.info('trace.out', {
           rid,
           status: initResponse.response.status,
@@ -274,7 +621,7 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
       // Enforce post-init headers on this subsequent request.
       const allowMissingPv =
         Boolean(opts.allowMissingProtocolVersionOnInitializedNotification) &&
-        parsed.message.kind === 'notification';
+        message.kind === 'notification';
 
       const hdr = enforcePostInitHeaders(
         /* requireProtocolVersion */ true,
@@ -283,8 +630,8 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
       );
       if (!hdr.ok) return { status: hdr.status };
 
-      if (parsed.message.kind === 'request') {
-        return jsonRpcErrorResponse(parsed.message.msg.id, {
+      if (message.kind === 'request') {
+        return jsonRpcErrorResponse(message.msg.id, {
           code: -32600,
           message: 'Invalid Request',
         });
@@ -304,7 +651,7 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
     }
 
     // --- Other notifications ----------------------------------------------
-    if (parsed.message.kind === 'notification') {
+    if (message.kind === 'notification') {
       // Pre-init: only initialize should succeed. Notifications cannot carry JSON-RPC errors.
       if (!postInit) return { status: 400 };
 
@@ -316,13 +663,22 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
           /* allowMissingProtocolVersionForThisCall */ false,
         );
         if (!hdr.ok) return { status: hdr.status };
+
+        // Unknown or already-finished request ids are ignored (the race is expected).
+        if (method === 'notifications/cancelled') {
+          const requestId = getCancelledRequestId(message.msg.params);
+          const matched =
+            requestId !== undefined &&
+            cancelCall(hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY, requestId);
+          logger?.debug('tools.cancel', { rid, matched });
+        }
       }
       traceLogger?.info('trace.out', { rid, status: 202, kind: 'notification' });
       return { status: 202 };
     }
 
     // From here: requests (must receive JSON-RPC response, unless HTTP-layer rejection applies).
-    const req = parsed.message.msg;
+    const req = message.msg;
 
     // Lifecycle: require initialization before serving any non-initialize requests.
     // This is a JSON-RPC-level error (not a transport-level error) because the envelope is valid.
@@ -347,6 +703,8 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
       /* allowMissingProtocolVersionForThisCall */ false,
     );
     if (!hdr.ok) return { status: hdr.status };
+    // Request-scoped events also reach the session's MCP log (logging/setLevel).
+    const sessionLogger = mcpLogging.forward(opts.logger, hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY);
 
     // Optional stricter lifecycle: require notifications/initialized before non-health methods.
     // We allow "ping" regardless once initialize succeeded.
@@ -483,78 +841,241 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
 
     // --- tools/call --------------------------------------------------------
     if (method === 'tools/call') {
-      let toolName: string | undefined;
-      try {
-        const parsedCall = parseToolsCallParams(req.params);
-        if (!parsedCall.ok) {
-          const response = jsonRpcErrorResponse(req.id, {
-            code: -32602,
-            message: 'Invalid params',
-            data: { code: ERR_INVALID_PARAMS },
+      const streamKey = hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY;
+      // Tracked until the call settles so notifications/cancelled can find it.
+      const call = trackCall(streamKey, req.id);
+      // A call with a progress token (from a client accepting text/event-stream) is answered as an
+      // event stream right away, so progress reaches the client whether or not streaming is enabled.
+      // Without one, streaming (when enabled) upgrades slow calls after STREAM_UPGRADE_AFTER_MS.
+      // Otherwise (and for batch elements): single JSON body under the hard requestTimeoutMs cap.
+      const streamingTimeoutMs = opts.streamingRequestTimeoutMs ?? 0;
+      const progressToken = getProgressToken(req.params);
+      const streamNow =
+        allowStream && progressToken !== undefined && acceptsEventStream(ctx.headers);
+      const canUpgrade = allowStream && streamingTimeoutMs > 0;
+      // Stage messages from snapshot builds wait here until the event stream is attached.
+      const stages = streamNow ? createProgressRelay() : undefined;
+      const callTool = async (requestTimeoutMs: number): Promise<McpPostResult> => {
+        let toolName: string | undefined;
+        try {
+          const parsedCall = parseToolsCallParams(req.params);
+          if (!parsedCall.ok) {
+            const response = jsonRpcErrorResponse(req.id, {
+              code: -32602,
+              message: 'Invalid params',
+              data: { code: ERR_INVALID_PARAMS },
+            });
+            traceLogger?.info('trace.out', {
+              rid,
+              status: response.status,
+              message: {
+                kind: 'response',
+                id: req.id,
+                error: sanitizeForTrace({
+                  code: -32602,
+                  message: 'Invalid params',
+                  data: { code: ERR_INVALID_PARAMS },
+                }),
+              },
+            });
+            return response;
+          }
+
+          toolName = parsedCall.name;
+          const args = parsedCall.arguments;
+          const toolStart = process.hrtime.bigint();
+
+          sessionLogger.debug('tools.call', {
+            rid,
+            tool: toolName,
+            argKeys: summarizeArgumentKeys(args),
+          });
+
+          const dispatched = await cacheScope.run(streamKey, dispatchToolCall, toolName, args, {
+            schemaRegistry: opts.schemaRegistry,
+            allowedRootsRealpaths: opts.allowedRootsRealpaths,
+            maxItemsPerPage: opts.maxItemsPerPage,
+            requestTimeoutMs,
+            // The longest budget any caller can have: a streamed call may join a run started by a
+            // JSON call (or a batch element with less time left); each still waits only its own.
+            sharedRunTimeoutMs: Math.max(opts.requestTimeoutMs, streamingTimeoutMs),
+            toolRuntime: opts.toolRuntime,
+            cancellationToken: call.source.token,
+            ...(stages ? { reportProgress: stages.report } : {}),
+            ...(opts.traceLogger ? { traceLogger: opts.traceLogger } : {}),
+          });
+
+          if (!dispatched.ok) {
+            const response = jsonRpcErrorResponse(req.id, dispatched.error);
+            traceLogger?.info('trace.out', {
+              rid,
+              status: response.status,
+              message: {
+                kind: 'response',
+                id: req.id,
+                error: sanitizeForTrace(dispatched.error),
+              },
+            });
+            sessionLogger.debug('tools.result', {
+              rid,
+              tool: toolName,
+              ok: false,
+              errorCode: extractErrorCode(dispatched.error),
+              durationMs: durationMsSince(toolStart),
+              responseBytes: response.bodyText ? utf8ByteLength(response.bodyText) : 0,
+            });
+            warnOnErrorCode(
+              sessionLogger,
+              'tools.error',
+              { rid, tool: toolName },
+              dispatched.error,
+            );
+            return response;
+          }
+          const toolResult = truncateToolCallResult(
+            toolName,
+            dispatched.result,
+            opts.maxResponseBytes,
+            (candidate) => jsonByteLength({ jsonrpc: '2.0', id: req.id, result: candidate }),
+          );
+          const response = jsonRpcResultResponseWithCap(req.id, toolResult, opts.maxResponseBytes);
+          traceLogger?.info('trace.out', {
+            rid,
+            status: response.response.status,
+            message: {
+              kind: 'response',
+              id: req.id,
+              ...(response.ok
+                ? { result: sanitizeForTrace(toolResult) }
+                : {
+                    error: sanitizeForTrace(
+                      capExceededError('Response exceeded maxResponseBytes.'),
+                    ),
+                  }),
+            },
+          });
+          sessionLogger.debug('tools.result', {
+            rid,
+            tool: toolName,
+            ok: response.ok,
+            durationMs: durationMsSince(toolStart),
+            responseBytes: response.response.bodyText
+              ? utf8ByteLength(response.response.bodyText)
+              : 0,
+            ...(response.ok ? summarizeToolResult(toolResult) : {}),
           });
+          return response.response;
+        } catch (err) {
+          logUnexpectedToolError(sessionLogger, toolName, err);
+          const response = jsonRpcErrorResponse(req.id, internalError());
           traceLogger?.info('trace.out', {
             rid,
             status: response.status,
             message: {
               kind: 'response',
               id: req.id,
-              error: sanitizeForTrace({
-                code: -32602,
-                message: 'Invalid params',
-                data: { code: ERR_INVALID_PARAMS },
-              }),
+              error: sanitizeForTrace(internalError()),
             },
           });
           return response;
+        } finally {
+          call.untrack();
         }
+      };
 
-        toolName = parsedCall.name;
-        const args = parsedCall.arguments;
-        const toolStart = process.hrtime.bigint();
+      if (!streamNow && !canUpgrade) return await callTool(requestTimeoutMs);
 
-        logger?.debug('tools.call', {
-          rid,
-          tool: toolName,
-          argKeys: summarizeArgumentKeys(args),
-        });
+      // Without a progress token, fast calls still get a JSON body; calls that outlive the upgrade
+      // delay are answered as an SSE stream (then the final response) under the streaming budget.
+      const pending = callTool(Math.max(requestTimeoutMs, streamingTimeoutMs));
+      if (!streamNow) {
+        const early = await settleWithin(pending, STREAM_UPGRADE_AFTER_MS);
+        if (early.settled) return early.value;
+      }
+
+      sessionLogger.debug('tools.stream', { rid, progress: progressToken !== undefined });
+      const replay = getReplayBuffer(streamKey);
+      return {
+        status: 200,
+        onStream: async (connection) => {
+          // The logical stream keeps recording after a disconnect so the client can resume it.
+          const stream = replay.open();
+          stream.attach(connection);
+          try {
+            // A cancelled request gets no response; the stream just ends.
+            const answer = pending.then((result) =>
+              call.source.token.isCancellationRequested ? { status: 202 } : result,
+            );
+            await streamPendingResponse(stream, answer, progressToken, stages);
+          } finally {
+            stream.close();
+          }
+        },
+      };
+    }
 
-        const dispatched = await dispatchToolCall(toolName, args, {
-          schemaRegistry: opts.schemaRegistry,
+    // --- resources/* ---------------------------------------------------------
+    if (RESOURCES_METHODS.has(method)) {
+      const streamKey = hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY;
+      // Tracked like tools/call so notifications/cancelled can stop a slow listing.
+      const call = trackCall(streamKey, req.id);
+      try {
+        const resourceDeps: ResourcesDispatcherDeps = {
           allowedRootsRealpaths: opts.allowedRootsRealpaths,
           maxItemsPerPage: opts.maxItemsPerPage,
-          requestTimeoutMs: opts.requestTimeoutMs,
+          maxResponseBytes: opts.maxResponseBytes,
+          requestTimeoutMs,
           toolRuntime: opts.toolRuntime,
-          ...(opts.traceLogger ? { traceLogger: opts.traceLogger } : {}),
-        });
+          cancellationToken: call.source.token,
+        };
+        let dispatched: ResourcesDispatchResult<unknown>;
+        if (method === 'resources/list') {
+          dispatched = await cacheScope.run(
+            streamKey,
+            dispatchResourcesList,
+            req.params,
+            resourceDeps,
+          );
+        } else if (method === 'resources/templates/list') {
+          dispatched = dispatchResourceTemplatesList(req.params);
+        } else if (method === 'resources/subscribe' || method === 'resources/unsubscribe') {
+          const subscriptionDeps: ResourcesSubscriptionDeps = {
+            allowedRootsRealpaths: opts.allowedRootsRealpaths,
+            subscriptions: resourceSubscriptions,
+            streamKey,
+          };
+          dispatched =
+            method === 'resources/subscribe'
+              ? await dispatchResourcesSubscribe(req.params, subscriptionDeps)
+              : dispatchResourcesUnsubscribe(req.params, subscriptionDeps);
+        } else {
+          const read = await dispatchResourcesRead(req.params, resourceDeps);
+          dispatched = read.ok
+            ? {
+                ok: true as const,
+                result: truncateResourcesReadResult(read.result, opts.maxResponseBytes, (r) =>
+                  jsonByteLength({ jsonrpc: '2.0', id: req.id, result: r }),
+                ),
+              }
+            : read;
+        }
 
         if (!dispatched.ok) {
           const response = jsonRpcErrorResponse(req.id, dispatched.error);
           traceLogger?.info('trace.out', {
             rid,
             status: response.status,
-            message: {
-              kind: 'response',
-              id: req.id,
-              error: sanitizeForTrace(dispatched.error),
-            },
-          });
-          logger?.debug('tools.result', {
-            rid,
-            tool: toolName,
-            ok: false,
-            errorCode: extractErrorCode(dispatched.error),
-            durationMs: durationMsSince(toolStart),
-            responseBytes: response.bodyText ? utf8ByteLength(response.bodyText) : 0,
+            message: { kind: 'response', id: req.id, error: sanitizeForTrace(dispatched.error) },
           });
+          warnOnErrorCode(sessionLogger, 'resources.error', { rid, method }, dispatched.error);
           return response;
         }
-        const toolResult =
-          toolName === 'vscode_lsp_hover'
-            ? truncateHoverToolCallResult(dispatched.result, opts.maxResponseBytes, (candidate) =>
-                jsonByteLength({ jsonrpc: '2.0', id: req.id, result: candidate }),
-              ).result
-            : dispatched.result;
-        const response = jsonRpcResultResponseWithCap(req.id, toolResult, opts.maxResponseBytes);
+
+        const response = jsonRpcResultResponseWithCap(
+          req.id,
+          dispatched.result,
+          opts.maxResponseBytes,
+        );
         traceLogger?.info('trace.out', {
           rid,
           status: response.response.status,
@@ -562,39 +1083,96 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
             kind: 'response',
             id: req.id,
             ...(response.ok
-              ? { result: sanitizeForTrace(toolResult) }
+              ? { result: sanitizeForTrace(dispatched.result) }
               : {
                   error: sanitizeForTrace(capExceededError('Response exceeded maxResponseBytes.')),
                 }),
           },
         });
-        logger?.debug('tools.result', {
-          rid,
-          tool: toolName,
-          ok: response.ok,
-          durationMs: durationMsSince(toolStart),
-          responseBytes: response.response.bodyText
-            ? utf8ByteLength(response.response.bodyText)
-            : 0,
-          ...(response.ok ? summarizeToolResult(toolResult) : {}),
-        });
         return response.response;
       } catch (err) {
-        logUnexpectedToolError(opts.logger, toolName, err);
+        logUnexpectedError(sessionLogger, method, err);
         const response = jsonRpcErrorResponse(req.id, internalError());
         traceLogger?.info('trace.out', {
           rid,
           status: response.status,
-          message: {
-            kind: 'response',
-            id: req.id,
-            error: sanitizeForTrace(internalError()),
-          },
+          message: { kind: 'response', id: req.id, error: sanitizeForTrace(internalError()) },
         });
         return response;
+      } finally {
+        call.untrack();
       }
     }
 
+    // --- prompts/* -----------------------------------------------------------
+    if (method === 'prompts/list' || method === 'prompts/get') {
+      const dispatched =
+        method === 'prompts/list'
+          ? dispatchPromptsList(req.params, opts.schemaRegistry)
+          : dispatchPromptsGet(req.params, opts.schemaRegistry);
+      if (!dispatched.ok) {
+        const response = jsonRpcErrorResponse(req.id, dispatched.error);
+        traceLogger?.info('trace.out', {
+          rid,
+          status: response.status,
+          message: { kind: 'response', id: req.id, error: sanitizeForTrace(dispatched.error) },
+        });
+        return response;
+      }
+
+      const response = jsonRpcResultResponseWithCap(
+        req.id,
+        dispatched.result,
+        opts.maxResponseBytes,
+      );
+      traceLogger?.info('trace.out', {
+        rid,
+        status: response.response.status,
+        message: {
+          kind: 'response',
+          id: req.id,
+          ...(response.ok
+            ? { result: sanitizeForTrace(dispatched.result) }
+            : { error: sanitizeForTrace(capExceededError('Response exceeded maxResponseBytes.')) }),
+        },
+      });
+      return response.response;
+    }
+
+    // --- logging/setLevel ----------------------------------------------------
+    if (method === 'logging/setLevel') {
+      const level = getLogLevelParam(req.params);
+      if (level === undefined) {
+        const error = {
+          code: -32602,
+          message: 'Invalid params',
+          data: { code: ERR_INVALID_PARAMS },
+        };
+        const response = jsonRpcErrorResponse(req.id, error);
+        traceLogger?.info('trace.out', {
+          rid,
+          status: response.status,
+          message: { kind: 'response', id: req.id, error: sanitizeForTrace(error) },
+        });
+        return response;
+      }
+
+      mcpLogging.setLevel(hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY, level);
+      const response = jsonRpcResultResponseWithCap(req.id, {}, opts.maxResponseBytes);
+      traceLogger?.info('trace.out', {
+        rid,
+        status: response.response.status,
+        message: {
+          kind: 'response',
+          id: req.id,
+          ...(response.ok
+            ? { result: sanitizeForTrace({}) }
+            : { error: sanitizeForTrace(capExceededError('Response exceeded maxResponseBytes.')) }),
+        },
+      });
+      return response.response;
+    }
+
     // Default: method not found.
     const response = jsonRpcErrorResponse(req.id, { code: -32601, message: 'Method not found' });
     traceLogger?.info('trace.out', {
@@ -608,6 +1186,174 @@ export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPost
     });
     return response;
   };
+
+  // Standalone SSE stream (GET): same post-init header rules as POST, and the session must have
+  // completed the initialize -> notifications/initialized handshake. Rejections are empty-body.
+  const onMcpGet: McpGetHandler = (ctx: McpGetContext): McpGetResult => {
+    const rid = ctx.requestId;
+    if (!isPostInit(ctx.headers)) return { status: 400 };
+
+    const hdr = checkPostInitHeaders(
+      ctx.headers,
+      /* requireProtocolVersion */ true,
+      /* requireSession */ opts.enableSessions,
+      /* allowMissingProtocolVersionForThisCall */ false,
+    );
+    if (!hdr.ok) return { status: hdr.status };
+
+    const initialized = opts.enableSessions
+      ? Boolean(sessionStore?.get(hdr.sessionId!)?.initializedNotificationSeen)
+      : didReceiveInitializedNotification;
+    if (!initialized) return { status: 400 };
+
+    const streamKey = hdr.sessionId ?? SSE_GLOBAL_STREAM_KEY;
+    const replay = getReplayBuffer(streamKey);
+
+    // Resume: replay the named stream's missed events on this connection, then continue live.
+    // Unknown, evicted, or malformed ids fail closed (the client must not assume a replay).
+    const lastEventId = ctx.headers['last-event-id'];
+    if (lastEventId !== undefined) {
+      const resumed = replay.resume(lastEventId.trim());
+      if (!resumed) return { status: 400 };
+      return {
+        status: 200,
+        onStream: (connection) => {
+          trackGetConnection(streamKey, connection);
+          resumed.stream.attach(connection, resumed.afterSeq);
+          opts.logger?.debug('sse.resume', { rid, afterSeq: resumed.afterSeq });
+        },
+      };
+    }
+
+    return {
+      status: 200,
+      onStream: (connection) => {
+        const stream = replay.open({ standalone: true });
+        trackGetConnection(streamKey, connection);
+        stream.attach(connection);
+        streams.attach(streamKey, stream);
+        opts.logger?.debug('sse.open', { rid, streams: streams.size() });
+        connection.onClose(() => opts.logger?.debug('sse.close', { rid, streams: streams.size() }));
+      },
+    };
+  };
+
+  // Session termination (DELETE): same protocol version + session checks as POST. The session's
+  // standalone stream and replay buffer go with it; later requests with the id get 404.
+  const onMcpDelete: McpDeleteHandler = (ctx: McpDeleteContext): McpDeleteResult => {
+    if (!sessionStore) return { status: 405, headers: { Allow: 'GET, POST' } };
+
+    const hdr = checkPostInitHeaders(
+      ctx.headers,
+      /* requireProtocolVersion */ true,
+      /* requireSession */ true,
+      /* allowMissingProtocolVersionForThisCall */ false,
+    );
+    if (!hdr.ok) return { status: hdr.status };
+
+    const sid = hdr.sessionId!;
+    sessionStore.delete(sid);
+    releaseSession(sid);
+    opts.logger?.debug('session.delete', { rid: ctx.requestId, sessions: sessionStore.size() });
+    return { status: 200 };
+  };
+
+  return { onMcpPost, onMcpGet, onMcpDelete, streams, resourceSubscriptions };
+}
+
+/** POST-only entry point (GET streams disabled); kept for callers that only need POST. */
+export function createMcpPostHandler(opts: CreateMcpPostHandlerOptions): McpPostHandler {
+  return createMcpHandlers(opts).onMcpPost;
+}
+
+type SettleWithinResult<T> = Readonly<{ settled: true; value: T }> | Readonly<{ settled: false }>;
+
+async function settleWithin<T>(
+  promise: Promise<T>,
+  delayMs: number,
+): Promise<SettleWithinResult<T>> {
+  let timer: NodeJS.Timeout | undefined;
+  const delay = new Promise<SettleWithinResult<T>>((resolve) => {
+    timer = setTimeout(() => resolve({ settled: false }), delayMs);
+  });
+  try {
+    return await Promise.race([
+      promise.then((value) => ({ settled: true as const, value })),
+      delay,
+    ]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+/**
+ * Drive an SSE-framed response: emit `notifications/progress` while the call is pending (only when
+ * the client supplied a progress token), then the final JSON-RPC response as the last event.
+ * Stage messages from `stages` (buffered ones first) share the same strictly increasing counter.
+ */
+export async function streamPendingResponse(
+  stream: SseStream,
+  pending: Promise<McpPostResult>,
+  progressToken: ProgressToken | undefined,
+  stages?: ProgressRelay,
+): Promise<void> {
+  let progress = 0;
+  const sendProgress = (message = 'Waiting for language provider.') => {
+    if (progressToken === undefined) return;
+    progress += 1;
+    stream.send({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken, progress, message },
+    });
+  };
+
+  sendProgress();
+  stages?.attach(sendProgress);
+  const ticker = setInterval(sendProgress, STREAM_PROGRESS_INTERVAL_MS);
+  try {
+    const result = await pending;
+    if (typeof result.bodyText === 'string') stream.sendSerialized(result.bodyText);
+  } finally {
+    clearInterval(ticker);
+    // Nothing may follow the final response on this stream.
+    stages?.attach(() => undefined);
+  }
+}
+
+export type ProgressToken = string | number;
+
+/** `params.requestId` of notifications/cancelled; undefined when missing or malformed. */
+export function getCancelledRequestId(params: unknown): JsonRpcId | undefined {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return undefined;
+  const requestId = (params as Record<string, unknown>)['requestId'];
+  if (typeof requestId === 'string') return requestId;
+  if (typeof requestId === 'number' && Number.isFinite(requestId)) return requestId;
+  return undefined;
+}
+
+// JSON-RPC ids 1 and "1" are distinct requests.
+function requestIdKey(id: JsonRpcId): string {
+  return `${typeof id}:${id}`;
+}
+
+// The router already requires it on POST (406 otherwise); checked again for direct callers.
+function acceptsEventStream(headers: Readonly<Record<string, string>>): boolean {
+  const accept = getHeader(headers, 'accept');
+  if (!accept) return false;
+  return accept
+    .split(',')
+    .some((type) => type.split(';')[0]?.trim().toLowerCase() === 'text/event-stream');
+}
+
+export function getProgressToken(params: unknown): ProgressToken | undefined {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return undefined;
+  const meta = (params as Record<string, unknown>)['_meta'];
+  if (!meta || typeof meta !== 'object' || Array.isArray(meta)) return undefined;
+  const token = (meta as Record<string, unknown>)['progressToken'];
+  if (typeof token === 'string' && token.length > 0) return token;
+  if (typeof token === 'number' && Number.isFinite(token)) return token;
+  return undefined;
 }
 
 function jsonRpcResultResponse(
@@ -706,6 +1452,12 @@ function parseOptionalCursor(params: unknown): OptionalCursorParse {
   return { ok: true, cursor: c };
 }
 
+function getLogLevelParam(params: unknown): McpLogLevel | undefined {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return undefined;
+  const level = (params as Record<string, unknown>).level;
+  return isMcpLogLevel(level) ? level : undefined;
+}
+
 type ToolsCallParams =
   | Readonly<{ ok: true; name: string; arguments: unknown }>
   | Readonly<{ ok: false }>;
@@ -751,6 +1503,31 @@ function logUnexpectedToolError(
   });
 }
 
+// Errors the client should hear about even when it does not inspect them: the language provider
+// is unavailable, or a paging cursor can no longer be used (paging must restart).
+const WARNING_ERROR_CODES: ReadonlySet<string> = new Set([
+  'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE',
+  ERR_CURSOR_INVALID,
+  'MCP_LSP_GATEWAY/CURSOR_EXPIRED',
+]);
+
+function warnOnErrorCode(
+  logger: Logger,
+  event: string,
+  meta: Readonly<Record<string, unknown>>,
+  error: JsonRpcErrorObject,
+): void {
+  const errorCode = extractErrorCode(error);
+  if (errorCode !== undefined && WARNING_ERROR_CODES.has(errorCode)) {
+    logger.warn(event, { ...meta, errorCode });
+  }
+}
+
+function logUnexpectedError(logger: Logger | undefined, method: string, err: unknown): void {
+  if (!logger) return;
+  logger.error(`Unexpected error during ${method}.`, { error: sanitizeErrorForLog(err) });
+}
+
 function sanitizeErrorForLog(err: unknown): Record<string, string> {
   const asError = err instanceof Error;
   const name = asError && err.name ? err.name : 'Error';
@@ -788,6 +1565,30 @@ function summarizeArgumentKeys(args: unknown): Record<string, unknown> {
   };
 }
 
+/**
+ * Apply tool-specific deterministic truncation (hover contents, signature help documentation,
+ * inlay hint labels)
+ * before the generic maxResponseBytes check.
+ */
+function truncateToolCallResult(
+  toolName: string,
+  result: ToolCallResult,
+  maxResponseBytes: number,
+  measureJsonRpcBytes: (candidate: ToolCallResult) => number,
+): ToolCallResult {
+  switch (toolName) {
+    case 'vscode_lsp_hover':
+      return truncateHoverToolCallResult(result, maxResponseBytes, measureJsonRpcBytes).result;
+    case 'vscode_lsp_signatureHelp':
+      return truncateSignatureHelpToolCallResult(result, maxResponseBytes, measureJsonRpcBytes)
+        .result;
+    case 'vscode_lsp_inlayHints':
+      return truncateInlayHintsToolCallResult(result, maxResponseBytes, measureJsonRpcBytes).result;
+    default:
+      return result;
+  }
+}
+
 function summarizeToolResult(result: ToolCallResult): Record<string, unknown> {
   const summary: Record<string, unknown> = {};
   const structured = result.structuredContent;
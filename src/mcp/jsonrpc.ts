@@ -4,7 +4,8 @@
 //
 // Design goals:
 // - Fail closed: reject anything that is not a single JSON object JSON-RPC message.
-// - Reject batch arrays at the transport layer (caller should return HTTP 400, empty body).
+// - Reject batch arrays at the transport layer (caller should return HTTP 400, empty body), unless
+//   the caller opted into batches (parseJsonRpcBatch).
 // - Classify messages into: request, notification, response.
 // - Validate only the minimal invariants required to route safely.
 
@@ -55,6 +56,36 @@ export function parseJsonRpcMessage(bodyText: string): ParseJsonRpcMessageResult
   return validateJsonRpcMessage(parsed);
 }
 
+export type ParseJsonRpcBatchResult =
+  | Readonly<{ ok: true; messages: readonly ParsedJsonRpcMessage[] }>
+  | Readonly<{ ok: false; reason: 'not_batch' | 'invalid_json' | 'invalid_envelope' }>;
+
+/**
+ * Opt-in batch parsing. Bodies that are not a JSON array yield `not_batch` (parse them with
+ * parseJsonRpcMessage). Fails closed: an empty array or any invalid element rejects the batch.
+ */
+export function parseJsonRpcBatch(bodyText: string): ParseJsonRpcBatchResult {
+  if (!bodyText.trimStart().startsWith('[')) return { ok: false, reason: 'not_batch' };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bodyText);
+  } catch {
+    return { ok: false, reason: 'invalid_json' };
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    return { ok: false, reason: 'invalid_envelope' };
+  }
+
+  const messages: ParsedJsonRpcMessage[] = [];
+  for (const item of parsed) {
+    const validated = validateJsonRpcMessage(item);
+    if (!validated.ok) return { ok: false, reason: 'invalid_envelope' };
+    messages.push(validated.message);
+  }
+  return { ok: true, messages };
+}
+
 export function validateJsonRpcMessage(value: unknown): ParseJsonRpcMessageResult {
   if (!isRecord(value) || Array.isArray(value)) return { ok: false, reason: 'invalid_envelope' };
 
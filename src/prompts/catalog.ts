@@ -0,0 +1,264 @@
+// src/prompts/catalog.ts
+//
+// v1 prompt catalog (single source of truth for prompt text):
+// - Stable, ordered prompt names per docs/CONTRACT.md §2.3
+// - Investigation playbooks built only from v1 tools (symbols, definition, references, hover,
+//   diagnostics), with the same fixed bounds in every prompt
+// - Arguments come from `schemas/prompts/<name>.json` (validated by schemaRegistry); the text is
+//   part of the v1 contract, so wording changes are contract changes
+// - Argument values are inserted verbatim inside fenced blocks, never interpreted
+
+import type { JsonSchemaObject } from '../tools/catalog.js';
+
+export const V1_PROMPT_NAMES = [
+  'lsp_trace_requirement_to_implementation',
+  'lsp_audit_security_boundary',
+  'lsp_audit_determinism_and_paging',
+  'lsp_audit_schema_runtime_consistency',
+  'lsp_triage_error_to_root_cause',
+  'lsp_map_feature_surface',
+] as const;
+
+export type V1PromptName = (typeof V1_PROMPT_NAMES)[number];
+
+export type PromptArguments = Readonly<Record<string, string>>;
+
+export type PromptArgument = Readonly<{
+  name: string;
+  description?: string;
+  required: boolean;
+}>;
+
+export type PromptCatalogEntry = Readonly<{
+  name: V1PromptName;
+  title: string;
+  description: string;
+  arguments: readonly PromptArgument[];
+}>;
+
+export type GetPromptResult = Readonly<{
+  description: string;
+  messages: readonly [
+    Readonly<{ role: 'user'; content: Readonly<{ type: 'text'; text: string }> }>,
+  ];
+}>;
+
+type PromptDefinition = Readonly<{
+  title: string;
+  description: string;
+  render: (args: PromptArguments) => readonly string[];
+}>;
+
+const BOUNDS = [
+  'Bounds (do not exceed):',
+  '- pageSize 25 for paged tools; at most 10 pages per query.',
+  '- At most 25 anchor symbols and 50 findings.',
+  '- Sort every list you report by uri, then start line, then symbol name.',
+];
+
+const FINDINGS_FORMAT =
+  'Report findings as `{category, symbol, uri, range, evidence, severity, notes}` entries.';
+
+const TEXT_SEARCH_NOTE =
+  'If you also have a text search tool (for example ripgrep), use it only to find seeds; confirm every claim with the LSP tools.';
+
+const PROMPTS: Readonly<Record<V1PromptName, PromptDefinition>> = {
+  lsp_trace_requirement_to_implementation: {
+    title: 'Trace requirement to implementation',
+    description: 'Find where a requirement or behavior is implemented and tested.',
+    render: (args) => [
+      'Trace this requirement to the code that implements it and the tests that assert it.',
+      '',
+      'Requirement:',
+      fence(args.requirement ?? ''),
+      ...optionalBlock('Seed keywords:', args.keywords),
+      '',
+      'Procedure:',
+      '1. Turn the requirement (and seed keywords) into 3-10 identifier-like search terms. ' +
+        TEXT_SEARCH_NOTE,
+      '2. Run `vscode_lsp_workspaceSymbols` for each term and pick the best anchors.',
+      '3. For each anchor, use `vscode_lsp_definition` to reach the implementation and ' +
+        '`vscode_lsp_references` (paged) to find call sites and tests.',
+      '4. Use `vscode_lsp_hover` at key call sites to confirm parameter and return expectations.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report: requirement anchors, the primary implementation path (5-15 nodes), and tests or ' +
+        'assertions, each as `(symbol, uri, range, role: spec|impl|test, notes)`.',
+    ],
+  },
+  lsp_audit_security_boundary: {
+    title: 'Audit security boundary',
+    description: 'Prove the security gates exist and identify bypass surfaces.',
+    render: (args) => [
+      'Identify where security checks (authentication, authorization, validation, sanitization, ' +
+        'origin checks, redaction) are enforced, and find paths that skip them.',
+      ...optionalBlock('Guard keywords:', args.keywords),
+      ...optionalBlock('Start from entrypoint:', args.entrypoint),
+      ...optionalBlock('Focus on:', args.scopeUri),
+      '',
+      'Procedure:',
+      '1. Build a guard shortlist: run `vscode_lsp_workspaceSymbols` for the guard keywords ' +
+        '(default: auth, token, secret, validate, sanitize, redact, origin, permission). ' +
+        TEXT_SEARCH_NOTE,
+      '2. Open each candidate with `vscode_lsp_definition` and keep only functions that reject ' +
+        'or transform input.',
+      '3. Enumerate enforcement sites with `vscode_lsp_references` (paged).',
+      '4. From the entrypoints, follow `vscode_lsp_definition` into handlers and note sensitive ' +
+        'work reachable without passing a guard.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report a guard surface map: guard symbol, where it is enforced, what it protects, and ' +
+        'potential bypasses with evidence locations. ' +
+        FINDINGS_FORMAT,
+    ],
+  },
+  lsp_audit_determinism_and_paging: {
+    title: 'Audit determinism and paging',
+    description: 'Check that list/search APIs order results stably and page them safely.',
+    render: (args) => [
+      'Audit these list/search APIs for deterministic results and cursor paging:',
+      fence(args.api ?? ''),
+      '',
+      'Procedure:',
+      '1. Locate each API with `vscode_lsp_workspaceSymbols`; open it with ' +
+        '`vscode_lsp_definition`. ' +
+        TEXT_SEARCH_NOTE,
+      '2. Use `vscode_lsp_references` (paged) to find every call site and variant.',
+      '3. Find the sort and dedupe keys and check that they use stable, canonical fields.',
+      '4. Trace how cursors are built and validated, and what happens on invalid cursors or ' +
+        'oversized result sets.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report per API: inputs accepted, sort keys, cursor semantics, caps, and invalid-cursor ' +
+        'behavior, with symbol locations. ' +
+        FINDINGS_FORMAT,
+    ],
+  },
+  lsp_audit_schema_runtime_consistency: {
+    title: 'Audit schema and runtime consistency',
+    description: 'Check that schemas, runtime validation, and serialization agree.',
+    render: (args) => [
+      'Cross-check this schema against the code that validates and produces the data:',
+      fence(args.schema ?? ''),
+      ...optionalBlock('Method, endpoint, or tool:', args.method),
+      '',
+      'Procedure:',
+      '1. Locate the schema definition and its validator with `vscode_lsp_workspaceSymbols`. ' +
+        TEXT_SEARCH_NOTE,
+      '2. From the schema symbols, use `vscode_lsp_references` to find every usage site.',
+      '3. From the handler, use `vscode_lsp_definition` and `vscode_lsp_hover` to confirm the ' +
+        'types that are actually accepted and returned.',
+      '4. List fields present at runtime but missing from the schema (or the reverse), and ' +
+        'error mappings without tests.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report drift findings as `(field or symbol, expected, observed, evidence)`.',
+    ],
+  },
+  lsp_triage_error_to_root_cause: {
+    title: 'Triage error to root cause',
+    description: 'Find where an error originates, who calls it, and the likely fix.',
+    render: (args) => [
+      'Find the origin of this error, the call chain that reaches it, and the likely fix.',
+      '',
+      'Error:',
+      fence(args.errorText ?? ''),
+      ...optionalBlock(
+        'Observed at:',
+        args.uri !== undefined ? `${args.uri}${args.line ? ` line ${args.line}` : ''}` : undefined,
+      ),
+      '',
+      'Procedure:',
+      '1. Start at the observed location if given; otherwise locate the message or error code ' +
+        'with `vscode_lsp_workspaceSymbols` and `vscode_lsp_diagnostics_workspace`. ' +
+        TEXT_SEARCH_NOTE,
+      '2. Use `vscode_lsp_diagnostics_document` and `vscode_lsp_hover` at the failing site to ' +
+        'record expected versus actual types.',
+      '3. Use `vscode_lsp_definition` and `vscode_lsp_references` (paged) to walk callers until ' +
+        'you find the smallest boundary where the wrong value crosses.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report a short incident note: origin sites, a bounded call-chain slice, likely fix ' +
+        'options, and evidence locations.',
+    ],
+  },
+  lsp_map_feature_surface: {
+    title: 'Map feature surface',
+    description: 'Map a subsystem: entrypoints, core types, and hotspots.',
+    render: (args) => [
+      'Build a bounded map of this feature or subsystem:',
+      fence(args.query ?? ''),
+      ...optionalBlock('Focus on:', args.scopeUri),
+      '',
+      'Procedure:',
+      '1. Run `vscode_lsp_workspaceSymbols` for the query (and close variants); take the top ' +
+        'symbols. Use `vscode_lsp_documentSymbols` for files in focus. ' +
+        TEXT_SEARCH_NOTE,
+      '2. For each symbol, open it with `vscode_lsp_definition` and count references with ' +
+        '`vscode_lsp_references` (paged).',
+      '3. Rank symbols by reference count; break ties by uri, range, then name.',
+      '',
+      ...BOUNDS,
+      '',
+      'Report: top entrypoints, core types and interfaces, and hotspot files, with locations.',
+    ],
+  },
+};
+
+export function isV1PromptName(name: string): name is V1PromptName {
+  return (V1_PROMPT_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Build the v1 prompt catalog. Arguments are derived from each prompt's arguments schema
+ * (property order, `description`, and `required`), so the schema file stays the single source.
+ */
+export function buildV1PromptCatalog(
+  getArgumentsSchema: (name: V1PromptName) => JsonSchemaObject,
+): readonly PromptCatalogEntry[] {
+  return V1_PROMPT_NAMES.map((name) => ({
+    name,
+    title: PROMPTS[name].title,
+    description: PROMPTS[name].description,
+    arguments: promptArgumentsFromSchema(getArgumentsSchema(name)),
+  }));
+}
+
+/** Render a prompt. `args` must already be validated against the prompt's arguments schema. */
+export function renderPrompt(name: V1PromptName, args: PromptArguments): GetPromptResult {
+  const prompt = PROMPTS[name];
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args).join('\n') } }],
+  };
+}
+
+function promptArgumentsFromSchema(schema: JsonSchemaObject): readonly PromptArgument[] {
+  const properties = (schema['properties'] ?? {}) as Readonly<Record<string, JsonSchemaObject>>;
+  const required = new Set((schema['required'] ?? []) as readonly string[]);
+  return Object.entries(properties).map(([name, property]) => {
+    const description = property['description'];
+    return {
+      name,
+      ...(typeof description === 'string' ? { description } : {}),
+      required: required.has(name),
+    };
+  });
+}
+
+function optionalBlock(label: string, value: string | undefined): readonly string[] {
+  if (value === undefined) return [];
+  return ['', label, fence(value)];
+}
+
+// Fence longer than any backtick run in the value, so argument text cannot close the block.
+function fence(value: string): string {
+  const longestRun = Math.max(0, ...(value.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${ticks}text\n${value}\n${ticks}`;
+}
@@ -0,0 +1,86 @@
+// src/prompts/dispatcher.ts
+//
+// prompts/* routing (v1), kept out of `src/mcp/handler.ts` like the tools dispatcher:
+// - prompts/list: single page, cursor handling mirrors tools/list (CURSOR_INVALID)
+// - prompts/get: strict params parsing; arguments validated against the prompt's schema
+//   (schemaRegistry), then rendered from the catalog
+
+import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
+import type { SchemaRegistry } from '../tools/schemaRegistry.js';
+import {
+  buildV1PromptCatalog,
+  isV1PromptName,
+  renderPrompt,
+  type GetPromptResult,
+  type PromptArguments,
+  type PromptCatalogEntry,
+} from './catalog.js';
+
+const ERROR_CODE_INVALID_PARAMS = 'MCP_LSP_GATEWAY/INVALID_PARAMS' as const;
+const ERROR_CODE_CURSOR_INVALID = 'MCP_LSP_GATEWAY/CURSOR_INVALID' as const;
+
+export type PromptsListResult = Readonly<{ prompts: readonly PromptCatalogEntry[] }>;
+
+export type PromptsDispatchResult<T> =
+  | Readonly<{ ok: true; result: T }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export function dispatchPromptsList(
+  params: unknown,
+  schemaRegistry: SchemaRegistry,
+): PromptsDispatchResult<PromptsListResult> {
+  const cursor = parseOptionalCursor(params);
+  if (!cursor.ok) return { ok: false, error: invalidParamsError() };
+  // Fail closed: no pagination for prompts/list in v1.
+  if (cursor.cursor !== null) return { ok: false, error: cursorInvalidError() };
+
+  const prompts = buildV1PromptCatalog((name) => schemaRegistry.getPromptArgumentsSchema(name));
+  return { ok: true, result: { prompts } };
+}
+
+export function dispatchPromptsGet(
+  params: unknown,
+  schemaRegistry: SchemaRegistry,
+): PromptsDispatchResult<GetPromptResult> {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    return { ok: false, error: invalidParamsError() };
+  }
+  const { name, arguments: rawArgs } = params as Record<string, unknown>;
+  if (typeof name !== 'string') return { ok: false, error: invalidParamsError() };
+
+  // MCP allows arguments to be omitted; anything else is checked by the schema (object root).
+  const args = rawArgs === undefined ? {} : rawArgs;
+  const validated = schemaRegistry.validatePromptArguments(name, args);
+  if (!validated.ok) return validated;
+  // validatePromptArguments only accepts v1 prompt names.
+  if (!isV1PromptName(name)) return { ok: false, error: invalidParamsError() };
+
+  return { ok: true, result: renderPrompt(name, args as PromptArguments) };
+}
+
+type OptionalCursor = Readonly<{ ok: true; cursor: string | null }> | Readonly<{ ok: false }>;
+
+function parseOptionalCursor(params: unknown): OptionalCursor {
+  if (params === undefined || params === null) return { ok: true, cursor: null };
+  if (typeof params !== 'object' || Array.isArray(params)) return { ok: false };
+  const cursor = (params as Record<string, unknown>).cursor;
+  if (cursor === undefined || cursor === null) return { ok: true, cursor: null };
+  if (typeof cursor !== 'string') return { ok: false };
+  return { ok: true, cursor };
+}
+
+function invalidParamsError(): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code: ERROR_CODE_INVALID_PARAMS },
+  };
+}
+
+function cursorInvalidError(): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code: ERROR_CODE_CURSOR_INVALID },
+  };
+}
@@ -0,0 +1,165 @@
+// src/resources/dispatcher.ts
+//
+// resources/* routing (v1), kept out of `src/mcp/handler.ts` like the tools dispatcher:
+// - Strict params parsing (deterministic -32602 INVALID_PARAMS)
+// - requestTimeoutMs cap; snapshot cache writes stop once the request timed out or was cancelled
+// - resources/subscribe gates the URI like resources/read; unsubscribe is idempotent
+
+import type { CancellationToken } from 'vscode';
+import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
+import { withTimeout } from '../tools/dispatcher.js';
+import { createCacheWriteGuard, type ToolRuntime } from '../tools/runtime/toolRuntime.js';
+import { handleResourcesList, type ResourcesListResult } from './list.js';
+import {
+  handleResourcesRead,
+  resolveResourceUri,
+  resourceFileKeys,
+  type ResourcesReadResult,
+} from './read.js';
+import type { ResourceSubscriptions } from './subscriptions.js';
+import { listResourceTemplates, type ResourceTemplatesListResult } from './templates.js';
+
+const ERROR_CODE_INVALID_PARAMS = 'MCP_LSP_GATEWAY/INVALID_PARAMS' as const;
+const ERROR_CODE_CAP_EXCEEDED = 'MCP_LSP_GATEWAY/CAP_EXCEEDED' as const;
+
+export type ResourcesDispatcherDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  maxResponseBytes: number;
+  requestTimeoutMs: number;
+  toolRuntime: ToolRuntime;
+  /** Cancelled when the client sends notifications/cancelled for this request. */
+  cancellationToken?: CancellationToken;
+}>;
+
+export type ResourcesSubscriptionDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  subscriptions: ResourceSubscriptions;
+  /** Session id, or the global stream key when sessions are disabled. */
+  streamKey: string;
+}>;
+
+export type ResourcesDispatchResult<T> =
+  | Readonly<{ ok: true; result: T }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export async function dispatchResourcesList(
+  params: unknown,
+  deps: ResourcesDispatcherDeps,
+): Promise<ResourcesDispatchResult<ResourcesListResult>> {
+  const parsed = parseListParams(params);
+  if (!parsed.ok) return { ok: false, error: invalidParamsError() };
+
+  const { guard, expire } = createCacheWriteGuard();
+  deps.cancellationToken?.onCancellationRequested(expire);
+  const raced = await withTimeout(
+    handleResourcesList(parsed.cursor, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      cacheWriteGuard: guard,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    }),
+    deps.requestTimeoutMs,
+    expire,
+  );
+  if (raced.timedOut) return { ok: false, error: capExceededError('Request timed out.') };
+  return raced.value;
+}
+
+export async function dispatchResourcesRead(
+  params: unknown,
+  deps: ResourcesDispatcherDeps,
+): Promise<ResourcesDispatchResult<ResourcesReadResult>> {
+  const parsed = parseUriParams(params);
+  if (!parsed.ok) return { ok: false, error: invalidParamsError() };
+
+  const raced = await withTimeout(
+    handleResourcesRead(parsed.uri, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxReadBytes: deps.maxResponseBytes,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    }),
+    deps.requestTimeoutMs,
+  );
+  if (raced.timedOut) return { ok: false, error: capExceededError('Request timed out.') };
+  return raced.value;
+}
+
+export function dispatchResourceTemplatesList(
+  params: unknown,
+): ResourcesDispatchResult<ResourceTemplatesListResult> {
+  const parsed = parseListParams(params);
+  // Fail closed: the template list is a single page, like tools/list.
+  if (!parsed.ok || parsed.cursor !== null) return { ok: false, error: invalidParamsError() };
+  return { ok: true, result: listResourceTemplates() };
+}
+
+export async function dispatchResourcesSubscribe(
+  params: unknown,
+  deps: ResourcesSubscriptionDeps,
+): Promise<ResourcesDispatchResult<Record<string, never>>> {
+  const parsed = parseUriParams(params);
+  if (!parsed.ok) return { ok: false, error: invalidParamsError() };
+
+  const resolved = await resolveResourceUri(parsed.uri, deps.allowedRootsRealpaths);
+  if (!resolved.ok) return resolved;
+
+  const outcome = deps.subscriptions.subscribe(
+    deps.streamKey,
+    parsed.uri,
+    resourceFileKeys(resolved.target),
+  );
+  if (outcome === 'capExceeded') {
+    return { ok: false, error: capExceededError('Too many resource subscriptions.') };
+  }
+  return { ok: true, result: {} };
+}
+
+export function dispatchResourcesUnsubscribe(
+  params: unknown,
+  deps: ResourcesSubscriptionDeps,
+): ResourcesDispatchResult<Record<string, never>> {
+  const parsed = parseUriParams(params);
+  if (!parsed.ok) return { ok: false, error: invalidParamsError() };
+  deps.subscriptions.unsubscribe(deps.streamKey, parsed.uri);
+  return { ok: true, result: {} };
+}
+
+type ListParams = Readonly<{ ok: true; cursor: string | null }> | Readonly<{ ok: false }>;
+
+function parseListParams(params: unknown): ListParams {
+  if (params === undefined || params === null) return { ok: true, cursor: null };
+  if (typeof params !== 'object' || Array.isArray(params)) return { ok: false };
+  const cursor = (params as Record<string, unknown>).cursor;
+  if (cursor === undefined || cursor === null) return { ok: true, cursor: null };
+  if (typeof cursor !== 'string') return { ok: false };
+  return { ok: true, cursor };
+}
+
+type UriParams = Readonly<{ ok: true; uri: string }> | Readonly<{ ok: false }>;
+
+function parseUriParams(params: unknown): UriParams {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return { ok: false };
+  const uri = (params as Record<string, unknown>).uri;
+  if (typeof uri !== 'string' || uri.trim().length === 0) return { ok: false };
+  return { ok: true, uri };
+}
+
+function invalidParamsError(): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code: ERROR_CODE_INVALID_PARAMS },
+  };
+}
+
+function capExceededError(message: string): JsonRpcErrorObject {
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data: { code: ERROR_CODE_CAP_EXCEEDED, message },
+  };
+}
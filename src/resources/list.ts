@@ -0,0 +1,226 @@
+// src/resources/list.ts
+//
+// resources/list (v1)
+// - Enumerates files under the allowed roots (workspace folders + additional roots)
+// - files.exclude and search.exclude apply (keeps node_modules and build output out of listings)
+// - Canonicalizes each file to its realpath and drops anything outside the roots (symlinks)
+// - Stable sort by URI + dedupe (roots may overlap) + total-set cap enforcement
+// - Cursor-based paging over a memoized snapshot (fs + roots epochs)
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
+import { canonicalizeFileUri, isRealPathAllowed } from '../workspace/uri.js';
+import {
+  allowCacheWrite,
+  type CacheWriteGuard,
+  type ToolRuntime,
+} from '../tools/runtime/toolRuntime.js';
+import { raceCancellation } from '../tools/runtime/cancellation.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../tools/paging/cursor.js';
+import { mimeTypeForPath } from './mimeTypes.js';
+
+export const RESOURCES_LIST_SNAPSHOT_NAME = 'resources/list' as const;
+const MAX_RESOURCES_TOTAL = 20000;
+
+const E_INTERNAL = -32603;
+
+export type ContractResource = Readonly<{
+  uri: string;
+  name: string;
+  mimeType?: string;
+}>;
+
+export type ResourcesListResult = Readonly<{
+  resources: readonly ContractResource[];
+  nextCursor?: string;
+}>;
+
+export type ResourcesListDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export type ResourcesListOutcome =
+  | Readonly<{ ok: true; result: ResourcesListResult }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export async function handleResourcesList(
+  cursor: string | null,
+  deps: ResourcesListDeps,
+): Promise<ResourcesListOutcome> {
+  const requestKey = computeRequestKey(RESOURCES_LIST_SNAPSHOT_NAME, []);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    RESOURCES_LIST_SNAPSHOT_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as
+    | readonly ContractResource[]
+    | undefined;
+
+  let resources: readonly ContractResource[];
+  if (cursor !== null) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    resources = cached;
+  } else if (cached) {
+    resources = cached;
+  } else {
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        const listed = await listAllowedFiles(deps.allowedRootsRealpaths, token);
+        if (!listed.ok) return listed;
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, listed.value);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+        return listed;
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) return { ok: false, error: cancelledError() };
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    resources = computed.value;
+  }
+
+  const pageSize = clampPageSize(deps.maxItemsPerPage);
+  const paged = paginate(resources, pageSize, cursor, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  return {
+    ok: true,
+    result: {
+      resources: paged.items,
+      ...(paged.nextCursor ? { nextCursor: paged.nextCursor } : {}),
+    },
+  };
+}
+
+type ListOutcome =
+  | Readonly<{ ok: true; value: readonly ContractResource[] }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+async function listAllowedFiles(
+  allowedRootsRealpaths: readonly string[],
+  token: vscode.CancellationToken,
+): Promise<ListOutcome> {
+  const byUri = new Map<string, ContractResource>();
+  const exclude = readExcludeGlob();
+  for (const root of allowedRootsRealpaths) {
+    let found: readonly vscode.Uri[];
+    try {
+      const executed = await raceCancellation(
+        Promise.resolve(
+          vscode.workspace.findFiles(
+            new vscode.RelativePattern(vscode.Uri.file(root), '**/*'),
+            exclude,
+            MAX_RESOURCES_TOTAL + 1,
+            token,
+          ),
+        ),
+        token,
+      );
+      if (executed.cancelled) return { ok: false, error: cancelledError() };
+      found = executed.value;
+    } catch {
+      return {
+        ok: false,
+        error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+      };
+    }
+
+    for (const uri of found) {
+      if (token.isCancellationRequested) return { ok: false, error: cancelledError() };
+      if (uri.scheme !== 'file') continue;
+      const canon = await canonicalizeFileUri(uri.toString());
+      if (!canon.ok) continue;
+      if (!isRealPathAllowed(canon.value.realPath, allowedRootsRealpaths)) continue;
+      if (byUri.has(canon.value.uri)) continue;
+      byUri.set(canon.value.uri, toContractResource(canon.value.uri, canon.value.realPath));
+      // Fail closed instead of returning an arbitrary subset (findFiles order is not stable).
+      if (byUri.size > MAX_RESOURCES_TOTAL) {
+        return {
+          ok: false,
+          error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CAP_EXCEEDED', 'Too many resources.', {
+            cap: MAX_RESOURCES_TOTAL,
+          }),
+        };
+      }
+    }
+  }
+
+  return { ok: true, value: [...byUri.values()].sort(compareResources) };
+}
+
+// An explicit exclude replaces findFiles' default (files.exclude), so both settings are merged.
+function readExcludeGlob(): string | undefined {
+  const patterns = new Set<string>();
+  for (const section of ['files.exclude', 'search.exclude']) {
+    const entries = vscode.workspace.getConfiguration().get<Record<string, unknown>>(section) ?? {};
+    for (const [pattern, enabled] of Object.entries(entries)) {
+      // `{ when: ... }` sibling conditions cannot be expressed in a single glob; skip them.
+      if (enabled === true) patterns.add(pattern);
+    }
+  }
+  if (patterns.size === 0) return undefined;
+  return `{${[...patterns].sort().join(',')}}`;
+}
+
+function toContractResource(uri: string, realPath: string): ContractResource {
+  const mimeType = mimeTypeForPath(realPath);
+  return {
+    uri,
+    name: path.basename(realPath),
+    ...(mimeType ? { mimeType } : {}),
+  };
+}
+
+function compareResources(a: ContractResource, b: ContractResource): number {
+  if (a.uri < b.uri) return -1;
+  if (a.uri > b.uri) return 1;
+  return 0;
+}
+
+function clampPageSize(maxItemsPerPage: number): number {
+  if (!Number.isInteger(maxItemsPerPage) || maxItemsPerPage < 1) return 1;
+  return Math.min(maxItemsPerPage, 200);
+}
+
+function cancelledError(): JsonRpcErrorObject {
+  return toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED');
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: 'Internal error',
+    data,
+  };
+}
@@ -0,0 +1,47 @@
+// src/resources/mimeTypes.ts
+//
+// Extension -> MIME type for resource listings and reads. Deliberately small: unknown extensions
+// get no mimeType in listings; reads fall back to text/plain or application/octet-stream.
+
+import * as path from 'node:path';
+
+const MIME_TYPES: Readonly<Record<string, string>> = {
+  '.c': 'text/x-c',
+  '.cc': 'text/x-c++',
+  '.cjs': 'text/javascript',
+  '.cpp': 'text/x-c++',
+  '.cs': 'text/x-csharp',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.go': 'text/x-go',
+  '.h': 'text/x-c',
+  '.hpp': 'text/x-c++',
+  '.html': 'text/html',
+  '.java': 'text/x-java',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.jsx': 'text/javascript',
+  '.md': 'text/markdown',
+  '.mjs': 'text/javascript',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.py': 'text/x-python',
+  '.rs': 'text/x-rust',
+  '.sh': 'text/x-shellscript',
+  '.svg': 'image/svg+xml',
+  '.toml': 'application/toml',
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.zip': 'application/zip',
+};
+
+export function mimeTypeForPath(filePath: string): string | undefined {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
@@ -0,0 +1,418 @@
+// src/resources/read.ts
+//
+// resources/read (v1)
+// - `file:` URIs only, gated by canonicalizeAndGateFileUri (allowed roots, realpath policy)
+// - Template URIs (see templates.ts) read one symbol or a line range from the text document
+// - Dirty editor buffers are served as-is (unsaved edits); otherwise the file is read from disk
+// - Disk reads are bounded by maxResponseBytes (nothing larger can be returned anyway)
+// - Text (UTF-8) is returned as `text`; files with NUL bytes are treated as binary (`blob`, base64)
+// - Deterministic truncation to fit maxResponseBytes, reported in `_meta`
+
+import * as fsp from 'node:fs/promises';
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type CanonicalFileTarget } from '../workspace/uri.js';
+import { utf8ByteLength } from '../util/responseSize.js';
+import { raceCancellation } from '../tools/runtime/cancellation.js';
+import { normalizeDocumentSymbolsResult } from '../tools/handlers/documentSymbols.js';
+import { workspaceSymbolId } from '../tools/handlers/workspaceSymbols.js';
+import { mimeTypeForPath } from './mimeTypes.js';
+import {
+  buildLinesResourceUri,
+  buildSymbolResourceUri,
+  parseResourceUri,
+  type LineRange,
+  type ParsedResourceUri,
+} from './templates.js';
+
+/** `_meta` key carrying read provenance and truncation details. */
+export const RESOURCE_READ_META_KEY = 'mcp-lsp-gateway/read' as const;
+
+// Bytes inspected for NUL when deciding text vs binary.
+const BINARY_SNIFF_BYTES = 8192;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+const E_RESOURCE_NOT_FOUND = -32002;
+
+export type ResourceContents =
+  | Readonly<{ uri: string; mimeType: string; text: string }>
+  | Readonly<{ uri: string; mimeType: string; blob: string }>;
+
+export type ResourceReadMeta = Readonly<{
+  source: 'buffer' | 'disk';
+  /** Size of the whole resource (UTF-8 bytes for buffers, file size on disk). */
+  totalBytes: number;
+  /** Bytes of content returned (decoded bytes for blobs). */
+  returnedBytes: number;
+  truncated: boolean;
+  /** Lines the content was taken from (1-based, inclusive); symbol and line-range reads only. */
+  lines?: LineRange;
+}>;
+
+export type ResourcesReadResult = Readonly<{
+  contents: readonly [ResourceContents];
+  _meta: Readonly<{ [RESOURCE_READ_META_KEY]: ResourceReadMeta }>;
+}>;
+
+export type ResourcesReadDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  /** Upper bound for bytes read from disk. */
+  maxReadBytes: number;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export type ResourcesReadOutcome =
+  | Readonly<{ ok: true; result: ResourcesReadResult }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export async function handleResourcesRead(
+  uri: string,
+  deps: ResourcesReadDeps,
+): Promise<ResourcesReadOutcome> {
+  const resolved = await resolveResourceUri(uri, deps.allowedRootsRealpaths);
+  if (!resolved.ok) return resolved;
+
+  const { parsed, target } = resolved;
+  if (parsed.kind === 'lines') return await readLines(target, parsed.lines, deps);
+  if (parsed.kind === 'symbol') return await readSymbol(target, parsed.symbolId, deps);
+  return await readFile(target, deps);
+}
+
+export type ResolvedResourceUri =
+  | Readonly<{
+      ok: true;
+      parsed: Exclude<ParsedResourceUri, Readonly<{ kind: 'invalid' }>>;
+      target: CanonicalFileTarget;
+    }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+/** Parse a resource URI (plain or templated) and gate its underlying file (-32602 on failure). */
+export async function resolveResourceUri(
+  uri: string,
+  allowedRootsRealpaths: readonly string[],
+): Promise<ResolvedResourceUri> {
+  const parsed = parseResourceUri(uri);
+  if (parsed.kind === 'invalid') {
+    return { ok: false, error: invalidParamsError('MCP_LSP_GATEWAY/URI_INVALID') };
+  }
+
+  const gated = await canonicalizeAndGateFileUri(parsed.fileUri, allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+  return { ok: true, parsed, target: gated.value };
+}
+
+/**
+ * `file:` URI strings a target is known under: the canonical URI and the requested path, which
+ * differ for symlinks. Editor documents and change events may use either.
+ */
+export function resourceFileKeys(target: CanonicalFileTarget): readonly string[] {
+  return [...new Set([target.uri, vscode.Uri.file(target.fsPath).toString()])];
+}
+
+async function readFile(
+  target: CanonicalFileTarget,
+  deps: ResourcesReadDeps,
+): Promise<ResourcesReadOutcome> {
+  const mimeType = mimeTypeForPath(target.realPath);
+  const open = findOpenTextDocument(target);
+  const dirty = open?.isDirty ? open : undefined;
+  if (dirty) {
+    const full = dirty.getText();
+    // Every UTF-16 unit is at least one UTF-8 byte, so this prefix still covers maxReadBytes.
+    const text = full.slice(0, safeSliceEnd(full, deps.maxReadBytes));
+    return {
+      ok: true,
+      result: buildResult(
+        { uri: target.uri, mimeType: mimeType ?? 'text/plain', text },
+        {
+          source: 'buffer',
+          totalBytes: utf8ByteLength(full),
+          returnedBytes: utf8ByteLength(text),
+          truncated: text.length < full.length,
+        },
+      ),
+    };
+  }
+
+  const read = await readBounded(target.realPath, deps.maxReadBytes);
+  if (!read) return { ok: false, error: notFoundError(target.uri) };
+
+  const partial = read.bytes.length < read.totalBytes;
+  if (isBinary(read.bytes)) {
+    return {
+      ok: true,
+      result: buildResult(
+        {
+          uri: target.uri,
+          mimeType: mimeType ?? 'application/octet-stream',
+          blob: read.bytes.toString('base64'),
+        },
+        {
+          source: 'disk',
+          totalBytes: read.totalBytes,
+          returnedBytes: read.bytes.length,
+          truncated: partial,
+        },
+      ),
+    };
+  }
+
+  // A bounded read may end inside a multi-byte sequence; streaming decode drops the incomplete tail.
+  const text = new TextDecoder('utf-8').decode(read.bytes, { stream: partial });
+  return {
+    ok: true,
+    result: buildResult(
+      { uri: target.uri, mimeType: mimeType ?? 'text/plain', text },
+      {
+        source: 'disk',
+        totalBytes: read.totalBytes,
+        returnedBytes: utf8ByteLength(text),
+        truncated: partial,
+      },
+    ),
+  };
+}
+
+async function readLines(
+  target: CanonicalFileTarget,
+  lines: LineRange,
+  deps: ResourcesReadDeps,
+): Promise<ResourcesReadOutcome> {
+  const resourceUri = buildLinesResourceUri(target.uri, lines);
+  const doc = await openTextDocument(target);
+  if (!doc) return { ok: false, error: notFoundError(resourceUri) };
+  if (lines.start > doc.lineCount) {
+    return {
+      ok: false,
+      error: invalidParamsError(
+        'MCP_LSP_GATEWAY/INVALID_PARAMS',
+        'Line range starts after the end of the document.',
+      ),
+    };
+  }
+
+  const end = Math.min(lines.end, doc.lineCount);
+  // Up to the start of the following line, so the last line keeps its line break.
+  const range = doc.validateRange(new vscode.Range(lines.start - 1, 0, end, 0));
+  return {
+    ok: true,
+    result: buildDocumentRangeResult(resourceUri, target, doc, doc.getText(range), deps, {
+      start: lines.start,
+      end,
+    }),
+  };
+}
+
+async function readSymbol(
+  target: CanonicalFileTarget,
+  symbolId: string,
+  deps: ResourcesReadDeps,
+): Promise<ResourcesReadOutcome> {
+  const resourceUri = buildSymbolResourceUri(target.uri, symbolId);
+  const doc = await openTextDocument(target);
+  if (!doc) return { ok: false, error: notFoundError(resourceUri) };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand('vscode.executeDocumentSymbolProvider', doc.uri),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: internalError('MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: internalError('MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = await normalizeDocumentSymbolsResult(
+    raw,
+    target.uri,
+    deps.allowedRootsRealpaths,
+  );
+  if (!normalized.ok) return { ok: false, error: normalized.error };
+
+  // Ids from both tools resolve here: documentSymbols ids, and workspaceSymbols ids (which hash
+  // the symbol's location instead of its selection range).
+  const symbol = normalized.items.find(
+    (s) =>
+      s.id === symbolId ||
+      workspaceSymbolId({ uri: target.uri, range: s.range }, s.name, s.kind, s.containerName) ===
+        symbolId,
+  );
+  if (!symbol) return { ok: false, error: notFoundError(resourceUri) };
+
+  const { start, end } = symbol.range;
+  const range = doc.validateRange(
+    new vscode.Range(start.line, start.character, end.line, end.character),
+  );
+  return {
+    ok: true,
+    result: buildDocumentRangeResult(resourceUri, target, doc, doc.getText(range), deps, {
+      start: range.start.line + 1,
+      end: range.end.line + 1,
+    }),
+  };
+}
+
+function buildDocumentRangeResult(
+  resourceUri: string,
+  target: CanonicalFileTarget,
+  doc: vscode.TextDocument,
+  full: string,
+  deps: ResourcesReadDeps,
+  lines: LineRange,
+): ResourcesReadResult {
+  const text = full.slice(0, safeSliceEnd(full, deps.maxReadBytes));
+  return buildResult(
+    { uri: resourceUri, mimeType: mimeTypeForPath(target.realPath) ?? 'text/plain', text },
+    {
+      source: doc.isDirty ? 'buffer' : 'disk',
+      totalBytes: utf8ByteLength(full),
+      returnedBytes: utf8ByteLength(text),
+      truncated: text.length < full.length,
+      lines,
+    },
+  );
+}
+
+/**
+ * Shrink the single content item until the JSON-RPC response fits `maxResponseBytes`.
+ *
+ * Text keeps the longest prefix (whole code points) that fits; blobs keep the longest byte prefix.
+ * Binary search over the prefix length, so the outcome depends only on the content and the cap.
+ */
+export function truncateResourcesReadResult(
+  result: ResourcesReadResult,
+  maxResponseBytes: number,
+  measureJsonRpcBytes: (candidate: ResourcesReadResult) => number,
+): ResourcesReadResult {
+  const cap = Math.floor(maxResponseBytes);
+  if (!Number.isFinite(cap) || cap <= 0) return result;
+  if (measureJsonRpcBytes(result) <= cap) return result;
+
+  const item = result.contents[0];
+  const meta = result._meta[RESOURCE_READ_META_KEY];
+
+  if ('text' in item) {
+    const text = item.text;
+    const build = (length: number) => {
+      const prefix = text.slice(0, safeSliceEnd(text, length));
+      return buildResult(
+        { uri: item.uri, mimeType: item.mimeType, text: prefix },
+        { ...meta, returnedBytes: utf8ByteLength(prefix), truncated: true },
+      );
+    };
+    return build(longestFittingPrefix(text.length, (n) => measureJsonRpcBytes(build(n)) <= cap));
+  }
+
+  const bytes = Buffer.from(item.blob, 'base64');
+  const build = (length: number) =>
+    buildResult(
+      {
+        uri: item.uri,
+        mimeType: item.mimeType,
+        blob: bytes.subarray(0, length).toString('base64'),
+      },
+      { ...meta, returnedBytes: length, truncated: true },
+    );
+  return build(longestFittingPrefix(bytes.length, (n) => measureJsonRpcBytes(build(n)) <= cap));
+}
+
+function buildResult(contents: ResourceContents, meta: ResourceReadMeta): ResourcesReadResult {
+  return { contents: [contents], _meta: { [RESOURCE_READ_META_KEY]: meta } };
+}
+
+function longestFittingPrefix(length: number, fits: (n: number) => boolean): number {
+  let lo = 0;
+  let hi = length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (fits(mid)) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+// Never cut a UTF-16 surrogate pair in half.
+function safeSliceEnd(text: string, end: number): number {
+  if (end <= 0 || end >= text.length) return Math.max(0, Math.min(end, text.length));
+  const code = text.charCodeAt(end - 1);
+  return code >= 0xd800 && code <= 0xdbff ? end - 1 : end;
+}
+
+function isBinary(bytes: Buffer): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+type BoundedRead = Readonly<{ bytes: Buffer; totalBytes: number }>;
+
+async function readBounded(realPath: string, maxBytes: number): Promise<BoundedRead | undefined> {
+  let handle: fsp.FileHandle | undefined;
+  try {
+    handle = await fsp.open(realPath, 'r');
+    const stat = await handle.stat();
+    if (!stat.isFile()) return undefined;
+    const limit = Math.max(0, Math.min(stat.size, Math.floor(maxBytes)));
+    const buffer = Buffer.alloc(limit);
+    let offset = 0;
+    while (offset < limit) {
+      const { bytesRead } = await handle.read(buffer, offset, limit - offset, offset);
+      if (bytesRead === 0) break;
+      offset += bytesRead;
+    }
+    return { bytes: buffer.subarray(0, offset), totalBytes: stat.size };
+  } catch {
+    return undefined;
+  } finally {
+    await handle?.close().catch(() => undefined);
+  }
+}
+
+function findOpenTextDocument(target: CanonicalFileTarget): vscode.TextDocument | undefined {
+  // The editor may hold the document under the requested (possibly symlinked) path.
+  const candidates = new Set(resourceFileKeys(target));
+  const open = vscode.workspace.textDocuments.filter(
+    (d) => d.uri.scheme === 'file' && candidates.has(d.uri.toString()),
+  );
+  return open.find((d) => d.isDirty) ?? open[0];
+}
+
+async function openTextDocument(
+  target: CanonicalFileTarget,
+): Promise<vscode.TextDocument | undefined> {
+  const open = findOpenTextDocument(target);
+  if (open) return open;
+  // Rejects binary and oversized files.
+  return await Promise.resolve(
+    vscode.workspace.openTextDocument(vscode.Uri.parse(target.uri, true)),
+  ).catch(() => undefined);
+}
+
+function invalidParamsError(code: string, message?: string): JsonRpcErrorObject {
+  return {
+    code: E_INVALID_PARAMS,
+    message: 'Invalid params',
+    data: { code, ...(message ? { message } : {}) },
+  };
+}
+
+function internalError(code: string): JsonRpcErrorObject {
+  return { code: E_INTERNAL, message: 'Internal error', data: { code } };
+}
+
+function notFoundError(uri: string): JsonRpcErrorObject {
+  return {
+    code: E_RESOURCE_NOT_FOUND,
+    message: 'Resource not found',
+    data: { code: 'MCP_LSP_GATEWAY/NOT_FOUND', uri },
+  };
+}
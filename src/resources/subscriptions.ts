@@ -0,0 +1,152 @@
+// src/resources/subscriptions.ts
+//
+// resources/subscribe bookkeeping (v1), scoped like the standalone SSE streams (per session, or
+// one global key when sessions are disabled).
+// - A subscription is the URI exactly as the client sent it, plus the file keys it is matched on
+//   (canonical URI and the requested path, so events for deleted or symlinked paths still match)
+// - Change events are coalesced per (session, URI): at most one notification per debounce window
+// - Capped per session; releasing a session drops its subscriptions and pending notifications
+
+export const MAX_SUBSCRIPTIONS_PER_SESSION = 256;
+export const RESOURCE_UPDATE_DEBOUNCE_MS = 250;
+
+export type ResourceSubscriptionsOptions = Readonly<{
+  /** Deliver `notifications/resources/updated` for `uri` to one session's stream. */
+  notify: (streamKey: string, uri: string) => void;
+  debounceMs?: number;
+  maxPerSession?: number;
+}>;
+
+export type SubscribeOutcome = 'subscribed' | 'capExceeded';
+
+export type ResourceSubscriptions = Readonly<{
+  /** Idempotent; re-subscribing the same URI replaces its file keys. */
+  subscribe: (streamKey: string, uri: string, fileKeys: readonly string[]) => SubscribeOutcome;
+  /** Idempotent; unknown URIs are ignored. */
+  unsubscribe: (streamKey: string, uri: string) => void;
+  /** Queue notifications for every subscription matching one of the changed file URIs. */
+  fileChanged: (fileUris: readonly string[]) => void;
+  releaseSession: (streamKey: string) => void;
+  /** Drop everything (server shutdown). */
+  clear: () => void;
+  size: () => number;
+}>;
+
+export function createResourceSubscriptions(
+  opts: ResourceSubscriptionsOptions,
+): ResourceSubscriptions {
+  const debounceMs = opts.debounceMs ?? RESOURCE_UPDATE_DEBOUNCE_MS;
+  const maxPerSession = opts.maxPerSession ?? MAX_SUBSCRIPTIONS_PER_SESSION;
+
+  // streamKey -> subscribed uri -> file keys
+  const bySession = new Map<string, Map<string, readonly string[]>>();
+  // file key -> streamKey -> subscribed uris
+  const byFileKey = new Map<string, Map<string, Set<string>>>();
+  // streamKey -> uris waiting for the debounce timer
+  const pending = new Map<string, Set<string>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const unindex = (streamKey: string, uri: string, fileKeys: readonly string[]) => {
+    for (const key of fileKeys) {
+      const sessions = byFileKey.get(key);
+      const uris = sessions?.get(streamKey);
+      uris?.delete(uri);
+      if (uris && uris.size === 0) sessions?.delete(streamKey);
+      if (sessions && sessions.size === 0) byFileKey.delete(key);
+    }
+  };
+
+  const flush = () => {
+    timer = undefined;
+    const batch = [...pending.entries()];
+    pending.clear();
+    for (const [streamKey, uris] of batch) {
+      for (const uri of [...uris].sort()) {
+        // The subscription may have been dropped while the notification was pending.
+        if (!bySession.get(streamKey)?.has(uri)) continue;
+        try {
+          opts.notify(streamKey, uri);
+        } catch {
+          // Delivery failures must not affect other sessions.
+        }
+      }
+    }
+  };
+
+  const unsubscribe = (streamKey: string, uri: string) => {
+    const subs = bySession.get(streamKey);
+    const fileKeys = subs?.get(uri);
+    if (!subs || !fileKeys) return;
+    subs.delete(uri);
+    if (subs.size === 0) bySession.delete(streamKey);
+    unindex(streamKey, uri, fileKeys);
+    pending.get(streamKey)?.delete(uri);
+  };
+
+  return {
+    subscribe: (streamKey, uri, fileKeys) => {
+      let subs = bySession.get(streamKey);
+      if (!subs?.has(uri) && (subs?.size ?? 0) >= maxPerSession) return 'capExceeded';
+      unsubscribe(streamKey, uri);
+      subs = bySession.get(streamKey);
+      if (!subs) {
+        subs = new Map();
+        bySession.set(streamKey, subs);
+      }
+      const keys = [...new Set(fileKeys)];
+      subs.set(uri, keys);
+      for (const key of keys) {
+        let sessions = byFileKey.get(key);
+        if (!sessions) {
+          sessions = new Map();
+          byFileKey.set(key, sessions);
+        }
+        let uris = sessions.get(streamKey);
+        if (!uris) {
+          uris = new Set();
+          sessions.set(streamKey, uris);
+        }
+        uris.add(uri);
+      }
+      return 'subscribed';
+    },
+    unsubscribe,
+    fileChanged: (fileUris) => {
+      let queued = false;
+      for (const fileUri of fileUris) {
+        for (const [streamKey, uris] of byFileKey.get(fileUri) ?? []) {
+          let waiting = pending.get(streamKey);
+          if (!waiting) {
+            waiting = new Set();
+            pending.set(streamKey, waiting);
+          }
+          for (const uri of uris) waiting.add(uri);
+          queued = true;
+        }
+      }
+      if (queued && !timer) {
+        timer = setTimeout(flush, debounceMs);
+        timer.unref?.();
+      }
+    },
+    releaseSession: (streamKey) => {
+      for (const [uri, fileKeys] of bySession.get(streamKey) ?? []) {
+        unindex(streamKey, uri, fileKeys);
+      }
+      bySession.delete(streamKey);
+      pending.delete(streamKey);
+    },
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      timer = undefined;
+      bySession.clear();
+      byFileKey.clear();
+      pending.clear();
+    },
+    size: () => {
+      let total = 0;
+      for (const subs of bySession.values()) total += subs.size;
+      return total;
+    },
+  };
+}
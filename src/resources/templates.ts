@@ -0,0 +1,100 @@
+// src/resources/templates.ts
+//
+// resources/templates/list (v1) and parsing of templated resource URIs
+// - `lsp-symbol:///{uri}#{symbolId}`: source text of one symbol; `uri` is the percent-encoded
+//   `file:` URI, `symbolId` a `sha256:` id from documentSymbols or workspaceSymbols
+// - `file:///{path}?lines={start}-{end}`: a 1-based, inclusive line range of a file
+// - Anything else with a query or fragment is rejected (URI_INVALID) rather than read whole
+
+export const SYMBOL_URI_PREFIX = 'lsp-symbol:///' as const;
+
+// Largest line number accepted in `?lines=`; keeps parsing within safe integers.
+const MAX_LINE_NUMBER = 10_000_000;
+
+export type ContractResourceTemplate = Readonly<{
+  uriTemplate: string;
+  name: string;
+  description: string;
+}>;
+
+export type ResourceTemplatesListResult = Readonly<{
+  resourceTemplates: readonly ContractResourceTemplate[];
+}>;
+
+const RESOURCE_TEMPLATES: readonly ContractResourceTemplate[] = [
+  {
+    uriTemplate: 'lsp-symbol:///{uri}#{symbolId}',
+    name: 'symbol',
+    description:
+      'Source text of one symbol. `uri` is the percent-encoded file URI; `symbolId` is an `id` returned by vscode_lsp_documentSymbols or vscode_lsp_workspaceSymbols.',
+  },
+  {
+    uriTemplate: 'file:///{path}?lines={start}-{end}',
+    name: 'lines',
+    description: 'Lines `start` through `end` of a file (1-based, inclusive).',
+  },
+];
+
+export function listResourceTemplates(): ResourceTemplatesListResult {
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+}
+
+export type LineRange = Readonly<{ start: number; end: number }>;
+
+export type ParsedResourceUri =
+  | Readonly<{ kind: 'file'; fileUri: string }>
+  | Readonly<{ kind: 'lines'; fileUri: string; lines: LineRange }>
+  | Readonly<{ kind: 'symbol'; fileUri: string; symbolId: string }>
+  | Readonly<{ kind: 'invalid' }>;
+
+/** Split a resources/read URI into the underlying `file:` URI and the template selector. */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith(SYMBOL_URI_PREFIX)) return parseSymbolUri(trimmed);
+
+  const hash = trimmed.indexOf('#');
+  if (hash !== -1) return { kind: 'invalid' };
+  const question = trimmed.indexOf('?');
+  if (question === -1) return { kind: 'file', fileUri: trimmed };
+
+  const lines = parseLinesQuery(trimmed.slice(question + 1));
+  if (!lines) return { kind: 'invalid' };
+  return { kind: 'lines', fileUri: trimmed.slice(0, question), lines };
+}
+
+export function buildSymbolResourceUri(fileUri: string, symbolId: string): string {
+  return `${SYMBOL_URI_PREFIX}${encodeURIComponent(fileUri)}#${symbolId}`;
+}
+
+export function buildLinesResourceUri(fileUri: string, lines: LineRange): string {
+  return `${fileUri}?lines=${lines.start}-${lines.end}`;
+}
+
+function parseSymbolUri(uri: string): ParsedResourceUri {
+  const rest = uri.slice(SYMBOL_URI_PREFIX.length);
+  const hash = rest.indexOf('#');
+  if (hash <= 0) return { kind: 'invalid' };
+
+  const fileUri = safeDecode(rest.slice(0, hash));
+  const symbolId = safeDecode(rest.slice(hash + 1));
+  if (!fileUri || !symbolId) return { kind: 'invalid' };
+  if (!/^sha256:[0-9a-f]{64}$/.test(symbolId)) return { kind: 'invalid' };
+  return { kind: 'symbol', fileUri, symbolId };
+}
+
+function parseLinesQuery(query: string): LineRange | undefined {
+  const match = /^lines=(\d{1,8})-(\d{1,8})$/.exec(query);
+  if (!match) return undefined;
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  if (start < 1 || end < start || end > MAX_LINE_NUMBER) return undefined;
+  return { start, end };
+}
+
+function safeDecode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
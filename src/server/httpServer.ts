@@ -2,13 +2,26 @@ import * as http from 'node:http';
 import type * as vscode from 'vscode';
 import { createLogger } from '../logging/redact.js';
 import { AuthVerifier } from './auth.js';
-import { createRouter, MAX_REQUEST_BYTES, type McpPostHandler } from './router.js';
+import {
+  createRouter,
+  MAX_REQUEST_BYTES,
+  type McpDeleteHandler,
+  type McpGetHandler,
+  type McpPostHandler,
+} from './router.js';
+import { listenOnSocket, removeSocketFile } from './socketListener.js';
+
+/** Where the server accepts connections: the loopback TCP port, a local socket, or both. */
+export type ListenMode = 'tcp' | 'socket' | 'tcpAndSocket';
 
 export type GatewaySettings = Readonly<{
   enabled: boolean;
   bindAddress: '127.0.0.1';
   port: number;
   endpointPath: '/mcp';
+  listenMode: ListenMode;
+  /** Resolved Unix socket path or Windows named pipe; used unless listenMode is 'tcp'. */
+  socketPath: string;
 
   // boundary controls
   secretStorageKey: string;
@@ -25,7 +38,7 @@ export type GatewaySettings = Readonly<{
 }>;
 
 export class HttpServer {
-  private server: http.Server | undefined;
+  private servers: http.Server[] | undefined;
 
   public constructor(
     private readonly deps: {
@@ -38,11 +51,20 @@ export class HttpServer {
        * but will return 500 (unimplemented handler).
        */
       onMcpPost?: McpPostHandler;
+      /** Optional GET handler for the standalone SSE stream; GET returns 405 when omitted. */
+      onMcpGet?: McpGetHandler;
+      /** Optional DELETE handler for session termination; DELETE returns 405 when omitted. */
+      onMcpDelete?: McpDeleteHandler;
+      /**
+       * Called at the start of stop() so long-lived SSE responses end before close() waits on
+       * open connections.
+       */
+      onBeforeStop?: () => void;
     },
   ) {}
 
   public async start(): Promise<void> {
-    if (this.server) return;
+    if (this.servers) return;
 
     const { settings } = this.deps;
 
@@ -67,49 +89,85 @@ export class HttpServer {
       auth,
       logger,
       ...(this.deps.onMcpPost ? { onMcpPost: this.deps.onMcpPost } : {}),
+      ...(this.deps.onMcpGet ? { onMcpGet: this.deps.onMcpGet } : {}),
+      ...(this.deps.onMcpDelete ? { onMcpDelete: this.deps.onMcpDelete } : {}),
     });
 
-    this.server = http.createServer(requestListener);
-
-    // Keep timeouts conservative; Step 2 focuses on request-size + header enforcement.
-    // (You can tighten timeouts further when limits.ts is implemented.)
-    this.server.requestTimeout = Math.max(250, Math.min(settings.requestTimeoutMs, 120_000));
-
-    await new Promise<void>((resolve, reject) => {
-      const srv = this.server!;
-      const onError = (err: Error) => {
-        srv.off('listening', onListening);
-        reject(err);
-      };
-      const onListening = () => {
-        srv.off('error', onError);
-        resolve();
-      };
-      srv.once('error', onError);
-      srv.once('listening', onListening);
-      srv.listen(settings.port, settings.bindAddress);
-    });
-
-    if (settings.debugLogging) {
-      this.deps.output.appendLine(
-        `[debug] HTTP server started on http://${settings.bindAddress}:${settings.port}${settings.endpointPath}`,
-      );
+    const createServer = () => {
+      const srv = http.createServer(requestListener);
+      // Keep timeouts conservative; Step 2 focuses on request-size + header enforcement.
+      // (You can tighten timeouts further when limits.ts is implemented.)
+      srv.requestTimeout = Math.max(250, Math.min(settings.requestTimeoutMs, 120_000));
+      return srv;
+    };
+
+    // Both listeners share one router (and therefore one auth verifier and MCP handler).
+    const servers: http.Server[] = [];
+    this.servers = servers;
+    try {
+      if (settings.listenMode !== 'socket') {
+        const srv = createServer();
+        servers.push(srv);
+        await listenOnTcp(srv, settings.port, settings.bindAddress);
+        this.debug(
+          `HTTP server started on http://${settings.bindAddress}:${settings.port}${settings.endpointPath}`,
+        );
+      }
+      if (settings.listenMode !== 'tcp') {
+        const srv = createServer();
+        await listenOnSocket(srv, settings.socketPath);
+        servers.push(srv);
+        this.debug('HTTP server started on local socket.');
+      }
+    } catch (err) {
+      // Fail closed: never keep a partial set of listeners.
+      this.servers = undefined;
+      await closeAll(servers);
+      throw err;
     }
   }
 
   public async stop(): Promise<void> {
-    const srv = this.server;
-    if (!srv) return;
+    const servers = this.servers;
+    if (!servers) return;
 
-    this.server = undefined;
+    this.servers = undefined;
+    this.deps.onBeforeStop?.();
 
-    await new Promise<void>((resolve) => {
-      // close() stops accepting new connections; existing keep-alives may remain briefly.
-      srv.close(() => resolve());
-    });
-
-    if (this.deps.settings.debugLogging) {
-      this.deps.output.appendLine('[debug] HTTP server stopped.');
+    // close() stops accepting new connections; existing keep-alives may remain briefly.
+    await closeAll(servers);
+    if (this.deps.settings.listenMode !== 'tcp') {
+      await removeSocketFile(this.deps.settings.socketPath);
     }
+
+    this.debug('HTTP server stopped.');
   }
+
+  private debug(message: string): void {
+    if (this.deps.settings.debugLogging) this.deps.output.appendLine(`[debug] ${message}`);
+  }
+}
+
+async function listenOnTcp(srv: http.Server, port: number, host: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const onError = (err: Error) => {
+      srv.off('listening', onListening);
+      reject(err);
+    };
+    const onListening = () => {
+      srv.off('error', onError);
+      resolve();
+    };
+    srv.once('error', onError);
+    srv.once('listening', onListening);
+    srv.listen(port, host);
+  });
+}
+
+async function closeAll(servers: readonly http.Server[]): Promise<void> {
+  await Promise.all(
+    servers
+      .filter((srv) => srv.listening)
+      .map((srv) => new Promise<void>((resolve) => srv.close(() => resolve()))),
+  );
 }
@@ -0,0 +1,195 @@
+// src/server/replay.ts
+//
+// Resumable SSE streams (Streamable HTTP resumability, MCP 2025-11-25).
+// - A logical stream outlives its HTTP connection; every event gets an id `<streamId>-<seq>`
+// - Events are recorded in a bounded per-session replay buffer (LruCache byte caps + TTL)
+// - GET with Last-Event-ID attaches a new connection, replays the missed events of that stream
+//   only, then continues live; completed streams close after the replay
+// - Oldest events are evicted first, so a resume after eviction may start mid-stream
+// - Past the stream cap, completed streams go first, then the oldest open ones; the session's
+//   standalone (GET) stream is never evicted while it is the registered one
+// - Opening a new standalone stream completes the previous one, so resuming the old one replays
+//   what it missed and then closes instead of waiting on a stream nothing routes to
+
+import { LruCache } from '../tools/runtime/lruCache.js';
+import { utf8ByteLength } from '../util/responseSize.js';
+import type { SseConnection, SseStream } from './sse.js';
+
+// A single event carries at most one capped JSON-RPC response (maxResponseBytes <= 1 MiB).
+export const REPLAY_PER_EVENT_CAP_BYTES = 1024 * 1024;
+export const REPLAY_TOTAL_CAP_BYTES = 2 * 1024 * 1024;
+export const REPLAY_TTL_MS = 60_000;
+export const REPLAY_MAX_STREAMS = 32;
+
+export type ResumableStream = SseStream &
+  Readonly<{
+    id: string;
+    /**
+     * Deliver this stream over `connection` (replacing any previous one). Events after `afterSeq`
+     * still held by the replay buffer are written first; a primer event is sent when none are.
+     */
+    attach: (connection: SseConnection, afterSeq?: number) => void;
+  }>;
+
+export type ResumePoint = Readonly<{ stream: ResumableStream; afterSeq: number }>;
+
+export type OpenStreamOptions = Readonly<{
+  /** The session's standalone GET stream; replaces (and completes) the previous one. */
+  standalone?: boolean;
+}>;
+
+export type ReplayBuffer = Readonly<{
+  /** Open a new logical stream whose events are recorded for replay. */
+  open: (opts?: OpenStreamOptions) => ResumableStream;
+  /** Resolve a Last-Event-ID to its stream; undefined for malformed, unknown, or future ids. */
+  resume: (lastEventId: string) => ResumePoint | undefined;
+  /** Complete every stream and drop all recorded events. */
+  clear: () => void;
+  sizeBytes: () => number;
+}>;
+
+export type ReplayBufferOptions = Readonly<{
+  perEventCapBytes?: number;
+  totalCapBytes?: number;
+  ttlMs?: number;
+  maxStreams?: number;
+  now?: () => number;
+}>;
+
+export function createReplayBuffer(opts: ReplayBufferOptions = {}): ReplayBuffer {
+  const events = new LruCache<string, string>({
+    perEntryCapBytes: opts.perEventCapBytes ?? REPLAY_PER_EVENT_CAP_BYTES,
+    totalCapBytes: opts.totalCapBytes ?? REPLAY_TOTAL_CAP_BYTES,
+    ttlMs: opts.ttlMs ?? REPLAY_TTL_MS,
+    sizeOf: utf8ByteLength,
+    ...(opts.now ? { now: opts.now } : undefined),
+  });
+  const maxStreams = Math.max(1, Math.floor(opts.maxStreams ?? REPLAY_MAX_STREAMS));
+  // Insertion order doubles as eviction order within completed and open streams.
+  const streams = new Map<string, ResumableStream & Readonly<{ lastSeq: () => number }>>();
+  let standaloneId: string | undefined;
+  let nextStreamId = 1;
+
+  const evictionCandidate = (): string | undefined => {
+    let oldestOpen: string | undefined;
+    for (const [id, stream] of streams) {
+      if (id === standaloneId) continue;
+      if (stream.isClosed()) return id;
+      oldestOpen ??= id;
+    }
+    return oldestOpen;
+  };
+
+  const open = (openOpts?: OpenStreamOptions): ResumableStream => {
+    const id = String(nextStreamId++);
+    const stream = createResumableStream(id, events);
+    streams.set(id, stream);
+    if (openOpts?.standalone) {
+      if (standaloneId !== undefined) streams.get(standaloneId)?.close();
+      standaloneId = id;
+    }
+    while (streams.size > maxStreams) {
+      const victim = evictionCandidate();
+      if (victim === undefined) break;
+      streams.delete(victim);
+    }
+    return stream;
+  };
+
+  return {
+    open,
+    resume: (lastEventId) => {
+      const parsed = parseEventId(lastEventId);
+      if (!parsed) return undefined;
+      const stream = streams.get(parsed.streamId);
+      if (!stream || parsed.seq > stream.lastSeq()) return undefined;
+      return { stream, afterSeq: parsed.seq };
+    },
+    clear: () => {
+      for (const stream of [...streams.values()]) stream.close();
+      streams.clear();
+      standaloneId = undefined;
+      events.clear();
+    },
+    sizeBytes: () => events.sizeBytes,
+  };
+}
+
+export function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}-${seq}`;
+}
+
+export function parseEventId(eventId: string): { streamId: string; seq: number } | undefined {
+  const m = /^([1-9][0-9]*)-(0|[1-9][0-9]*)$/.exec(eventId);
+  if (!m) return undefined;
+  const seq = Number(m[2]);
+  if (!Number.isSafeInteger(seq)) return undefined;
+  return { streamId: m[1]!, seq };
+}
+
+function createResumableStream(
+  id: string,
+  events: LruCache<string, string>,
+): ResumableStream & Readonly<{ lastSeq: () => number }> {
+  let lastSeq = 0;
+  let completed = false;
+  let connection: SseConnection | undefined;
+  const listeners: Array<() => void> = [];
+
+  const record = (data: string): boolean => {
+    if (completed) return false;
+    lastSeq += 1;
+    const eventId = formatEventId(id, lastSeq);
+    events.set(eventId, data);
+    // A dropped connection is not a failure: the event waits in the buffer for a resume.
+    connection?.writeEvent(data, eventId);
+    return true;
+  };
+
+  return {
+    id,
+    lastSeq: () => lastSeq,
+    send: (message) => record(JSON.stringify(message)),
+    sendSerialized: (jsonText) => record(jsonText),
+    attach: (next, afterSeq) => {
+      if (connection && connection !== next) connection.close();
+      connection = next;
+      next.onClose(() => {
+        if (connection === next) connection = undefined;
+      });
+
+      let replayed = 0;
+      for (let seq = (afterSeq ?? 0) + 1; seq <= lastSeq; seq++) {
+        const eventId = formatEventId(id, seq);
+        const data = events.get(eventId);
+        if (data === undefined) continue;
+        next.writeEvent(data, eventId);
+        replayed += 1;
+      }
+      // Give the client a resume point before the first real event.
+      if (replayed === 0 && lastSeq === 0) next.writeEvent('', formatEventId(id, 0));
+      if (completed) next.close();
+    },
+    close: () => {
+      if (completed) return;
+      completed = true;
+      connection?.close();
+      connection = undefined;
+      for (const listener of listeners.splice(0)) {
+        try {
+          listener();
+        } catch {
+          // Listener failures must not affect other listeners or the transport.
+        }
+      }
+    },
+    onClose: (listener) => {
+      if (completed) {
+        listener();
+        return;
+      }
+      listeners.push(listener);
+    },
+    isClosed: () => completed,
+  };
+}
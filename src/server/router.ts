@@ -2,6 +2,7 @@ import * as http from 'node:http';
 import type { Logger } from '../logging/redact.js';
 import { checkOrigin } from './origin.js';
 import type { AuthVerifier } from './auth.js';
+import { createSseStream, type SseConnection } from './sse.js';
 
 export const MAX_REQUEST_BYTES = 1024 * 1024; // 1 MiB (hard cap)
 
@@ -17,10 +18,42 @@ export type McpPostResult = Readonly<{
   status: number;
   headers?: Readonly<Record<string, string>>;
   bodyText?: string;
+  /**
+   * Answer the POST as an SSE stream instead of a JSON body (only when `status` is 200).
+   * The router closes the stream once the returned promise settles.
+   */
+  onStream?: (stream: SseConnection) => Promise<void> | void;
 }>;
 
 export type McpPostHandler = (ctx: McpPostContext) => Promise<McpPostResult> | McpPostResult;
 
+export type McpGetContext = Readonly<{
+  pathname: string;
+  headers: Readonly<Record<string, string>>;
+  requestId?: number;
+}>;
+
+export type McpGetResult = Readonly<{
+  status: number;
+  headers?: Readonly<Record<string, string>>;
+  /**
+   * Called once the SSE response headers are flushed (only when `status` is 200).
+   * Results without `onStream` are written as empty-body HTTP responses.
+   */
+  onStream?: (stream: SseConnection) => void;
+}>;
+
+export type McpGetHandler = (ctx: McpGetContext) => McpGetResult;
+
+export type McpDeleteContext = McpGetContext;
+
+export type McpDeleteResult = Readonly<{
+  status: number;
+  headers?: Readonly<Record<string, string>>;
+}>;
+
+export type McpDeleteHandler = (ctx: McpDeleteContext) => McpDeleteResult;
+
 type RouterDeps = Readonly<{
   endpointPath: '/mcp';
   maxRequestBytes: number;
@@ -28,6 +61,10 @@ type RouterDeps = Readonly<{
   auth: AuthVerifier;
   logger: Logger;
   onMcpPost?: McpPostHandler;
+  /** When set, GET opens a standalone SSE stream; otherwise GET is rejected with 405. */
+  onMcpGet?: McpGetHandler;
+  /** When set, DELETE terminates a session; otherwise DELETE is rejected with 405. */
+  onMcpDelete?: McpDeleteHandler;
 }>;
 
 function headerValue(h: string | string[] | undefined): string | undefined {
@@ -35,7 +72,11 @@ function headerValue(h: string | string[] | undefined): string | undefined {
   return Array.isArray(h) ? h.join(',') : h;
 }
 
-const CONTEXT_HEADER_ALLOWLIST = new Set(['mcp-protocol-version', 'mcp-session-id']);
+const CONTEXT_HEADER_ALLOWLIST = new Set([
+  'mcp-protocol-version',
+  'mcp-session-id',
+  'last-event-id',
+]);
 
 function sanitizeHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
   const out: Record<string, string> = {};
@@ -62,6 +103,14 @@ function acceptsRequired(acceptHeader: string | undefined): boolean {
   return tokens.includes('application/json') && tokens.includes('text/event-stream');
 }
 
+function acceptsEventStream(acceptHeader: string | undefined): boolean {
+  if (!acceptHeader) return false;
+  return acceptHeader
+    .split(',')
+    .map((s) => normalizeMediaType(s))
+    .includes('text/event-stream');
+}
+
 function isApplicationJson(contentTypeHeader: string | undefined): boolean {
   if (!contentTypeHeader) return false;
   return normalizeMediaType(contentTypeHeader) === 'application/json';
@@ -130,9 +179,16 @@ export function createRouter(deps: RouterDeps): http.RequestListener {
         writeEmpty(res, 404);
         return;
       }
-      if (method !== 'POST') {
+      const allowGet = Boolean(deps.onMcpGet);
+      const allowDelete = Boolean(deps.onMcpDelete);
+      if (
+        method !== 'POST' &&
+        !(method === 'GET' && allowGet) &&
+        !(method === 'DELETE' && allowDelete)
+      ) {
+        const allow = [allowGet ? 'GET' : '', 'POST', allowDelete ? 'DELETE' : ''];
         logResponse({ rid: requestId, status: 405, durationMs: durationMs() });
-        writeEmpty(res, 405, { Allow: 'POST' });
+        writeEmpty(res, 405, { Allow: allow.filter((m) => m.length > 0).join(', ') });
         return;
       }
 
@@ -152,6 +208,47 @@ export function createRouter(deps: RouterDeps): http.RequestListener {
         return;
       }
 
+      // Session termination. No request body is read; the handler's status is returned as-is.
+      if (method === 'DELETE' && deps.onMcpDelete) {
+        const result = deps.onMcpDelete({
+          pathname,
+          headers: sanitizeHeaders(req.headers),
+          requestId,
+        });
+        logResponse({ rid: requestId, status: result.status, durationMs: durationMs() });
+        writeEmpty(res, result.status, result.headers ? { ...result.headers } : undefined);
+        return;
+      }
+
+      // Standalone SSE stream (server-initiated messages). No request body is read.
+      if (method === 'GET' && deps.onMcpGet) {
+        if (!acceptsEventStream(accept)) {
+          logResponse({ rid: requestId, status: 406, durationMs: durationMs() });
+          writeEmpty(res, 406);
+          return;
+        }
+
+        const result = deps.onMcpGet({
+          pathname,
+          headers: sanitizeHeaders(req.headers),
+          requestId,
+        });
+        const onStream = result.onStream;
+        if (result.status !== 200 || !onStream) {
+          logResponse({ rid: requestId, status: result.status, durationMs: durationMs() });
+          writeEmpty(res, result.status, result.headers ? { ...result.headers } : undefined);
+          return;
+        }
+
+        if (result.headers) {
+          for (const [k, v] of Object.entries(result.headers)) res.setHeader(k, v);
+        }
+        openEventStream(res);
+        logResponse({ rid: requestId, status: 200, durationMs: durationMs(), stream: true });
+        onStream(createSseStream(res));
+        return;
+      }
+
       // Content-Type and Accept requirements.
       if (!isApplicationJson(contentType)) {
         logResponse({ rid: requestId, status: 415, durationMs: durationMs() });
@@ -238,6 +335,30 @@ export function createRouter(deps: RouterDeps): http.RequestListener {
             for (const [k, v] of Object.entries(result.headers)) res.setHeader(k, v);
           }
 
+          // Streamable HTTP: a request response may instead be delivered as an SSE stream.
+          const onStream = result.onStream;
+          if (result.status === 200 && onStream) {
+            openEventStream(res);
+            logResponse({
+              rid: requestId,
+              status: 200,
+              durationMs: durationMs(),
+              requestBytes: bodyBytes,
+              stream: true,
+            });
+            const stream = createSseStream(res);
+            try {
+              await onStream(stream);
+            } catch (err) {
+              deps.logger.debug('MCP stream handler threw; closing stream.', {
+                error: err instanceof Error ? err.message : String(err),
+              });
+            } finally {
+              stream.close();
+            }
+            return;
+          }
+
           // Streamable HTTP: only JSON-RPC request responses carry bodies (200 + application/json).
           const shouldWriteBody = result.status === 200 && typeof result.bodyText === 'string';
           if (shouldWriteBody && !hasHeader(result.headers, 'content-type')) {
@@ -272,6 +393,13 @@ export function createRouter(deps: RouterDeps): http.RequestListener {
   };
 }
 
+function openEventStream(res: http.ServerResponse): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.statusCode = 200;
+  res.flushHeaders();
+}
+
 function hasHeader(
   headers: Readonly<Record<string, string>> | undefined,
   lowerName: string,
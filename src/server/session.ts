@@ -5,6 +5,8 @@ export type SessionState = {
   initializedNotificationSeen: boolean;
 };
 
+export type SessionEvictionReason = 'capacity' | 'idle';
+
 export type SessionRequireResult =
   | { ok: true; sessionId: string; session: SessionState }
   | { ok: false; status: 400 | 404 };
@@ -12,14 +14,16 @@ export type SessionRequireResult =
 export type SessionStore = Readonly<{
   /** Mint a new session id and store its initial state. Returns the new id. */
   create: (protocolVersion: '2025-11-25') => string;
-  /** Get a session state; undefined if unknown/evicted. */
+  /** Get a session state; undefined if unknown/evicted. Does not count as activity. */
   get: (sessionId: string) => SessionState | undefined;
   /**
-   * Enforce the Streamable HTTP rules:
+   * Enforce the Streamable HTTP rules (a successful check counts as session activity):
    * - missing session id => 400
    * - unknown/expired (evicted) => 404
    */
   require: (sessionId: string | undefined) => SessionRequireResult;
+  /** Terminate a session (client DELETE). Returns false if it was unknown/evicted. */
+  delete: (sessionId: string) => boolean;
   /** Current number of active sessions. */
   size: () => number;
 }>;
@@ -27,13 +31,28 @@ export type SessionStore = Readonly<{
 export type CreateSessionStoreOptions = Readonly<{
   /**
    * Hard cap on concurrently tracked sessions.
-   * When exceeded, evict the oldest (in insertion order).
+   * When exceeded, evict the least recently active session.
    *
-   * Deterministic with respect to request sequence (no TTL in v1).
+   * Deterministic with respect to request sequence.
    */
   maxSessions?: number;
+  /** Evict sessions with no activity for this long. 0 or omitted disables idle expiry. */
+  idleTtlMs?: number;
+  now?: () => number;
+  /**
+   * Sessions for which this returns true are never expired as idle; each idle sweep counts them
+   * as active instead (e.g. a client holding an open standalone GET stream without sending POSTs).
+   */
+  isActive?: (sessionId: string) => boolean;
+  /** Called once per evicted session (not for explicit deletes) with the remaining count. */
+  onEvict?: (sessionId: string, reason: SessionEvictionReason, remaining: number) => void;
 }>;
 
+type SessionEntry = {
+  state: SessionState;
+  lastActiveAt: number;
+};
+
 export function mint(): string {
   // 16 bytes is sufficient; base64url is header-safe ASCII.
   return randomBytes(16).toString('base64url');
@@ -41,36 +60,88 @@ export function mint(): string {
 
 export function createSessionStore(opts: CreateSessionStoreOptions = {}): SessionStore {
   const maxSessions = clampInt(opts.maxSessions ?? 64, 1, 1024);
+  const idleTtlMs = Math.max(0, Math.floor(opts.idleTtlMs ?? 0));
+  const now = opts.now ?? Date.now;
+
+  // Map iteration order is activity order (touched entries move to the end); the first entry is
+  // always the least recently active, so both idle expiry and capacity eviction start there.
+  const sessions = new Map<string, SessionEntry>();
+
+  const evict = (sessionId: string, reason: SessionEvictionReason) => {
+    sessions.delete(sessionId);
+    try {
+      opts.onEvict?.(sessionId, reason, sessions.size);
+    } catch {
+      // Eviction listeners must not affect request handling.
+    }
+  };
+
+  const touch = (sessionId: string, entry: SessionEntry, at: number) => {
+    sessions.delete(sessionId);
+    sessions.set(sessionId, entry);
+    entry.lastActiveAt = Math.max(entry.lastActiveAt, at);
+  };
 
-  // Map iteration order is insertion order; used for deterministic eviction.
-  const sessions = new Map<string, SessionState>();
+  const isActive = (sessionId: string): boolean => {
+    try {
+      return opts.isActive?.(sessionId) === true;
+    } catch {
+      return false;
+    }
+  };
+
+  const evictIdle = (at: number) => {
+    if (idleTtlMs <= 0) return;
+    // Collect first: touching an active session moves it to the end of the map.
+    const expired: Array<[string, SessionEntry]> = [];
+    for (const [id, entry] of sessions) {
+      if (at - entry.lastActiveAt < idleTtlMs) break;
+      expired.push([id, entry]);
+    }
+    for (const [id, entry] of expired) {
+      if (isActive(id)) touch(id, entry, at);
+      else evict(id, 'idle');
+    }
+  };
 
   const evictIfNeeded = () => {
     while (sessions.size > maxSessions) {
       const oldest = sessions.keys().next().value;
       if (typeof oldest !== 'string') break;
-      sessions.delete(oldest);
+      evict(oldest, 'capacity');
     }
   };
 
+  const lookup = (sessionId: string): SessionEntry | undefined => {
+    evictIdle(now());
+    return sessions.get(sessionId);
+  };
+
   return {
     create: (protocolVersion) => {
+      const at = now();
+      evictIdle(at);
       const id = mint();
       sessions.set(id, {
-        protocolVersion,
-        initializedNotificationSeen: false,
+        state: { protocolVersion, initializedNotificationSeen: false },
+        lastActiveAt: at,
       });
       evictIfNeeded();
       return id;
     },
-    get: (sessionId) => sessions.get(sessionId),
+    get: (sessionId) => lookup(sessionId)?.state,
     require: (sessionId) => {
       if (!sessionId) return { ok: false, status: 400 };
-      const session = sessions.get(sessionId);
-      if (!session) return { ok: false, status: 404 };
-      return { ok: true, sessionId, session };
+      const entry = lookup(sessionId);
+      if (!entry) return { ok: false, status: 404 };
+      touch(sessionId, entry, now());
+      return { ok: true, sessionId, session: entry.state };
+    },
+    delete: (sessionId) => sessions.delete(sessionId),
+    size: () => {
+      evictIdle(now());
+      return sessions.size;
     },
-    size: () => sessions.size,
   };
 }
 
@@ -0,0 +1,107 @@
+// src/server/socketListener.ts
+//
+// Local socket listener for the HTTP server (Unix domain socket or Windows named pipe).
+// - Unix: bound under a temporary name, chmod 0600, then renamed into place, so the final path
+//   is never reachable with looser permissions
+// - Refuses to replace a live socket (another window) or a non-socket file; stale sockets are removed
+// - Windows named pipes keep the default pipe ACL; bearer auth still applies to every request
+
+import { randomBytes } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import type * as http from 'node:http';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { HANDSHAKE_DIR_NAME } from '../bridge/handshake.js';
+import { isWindowsPipePath } from '../util/endpoint.js';
+
+const SOCKET_FILE_NAME = 'gateway.sock';
+const PROBE_TIMEOUT_MS = 500;
+
+/** Per-user default: the 0700 directory that also holds the stdio bridge handshake file. */
+export function defaultSocketPath(): string {
+  if (process.platform === 'win32') {
+    const user = os.userInfo().username.replace(/[^A-Za-z0-9_.-]/g, '_');
+    return `\\\\.\\pipe\\mcp-lsp-gateway-${user}`;
+  }
+  return path.join(os.homedir(), HANDSHAKE_DIR_NAME, SOCKET_FILE_NAME);
+}
+
+export async function listenOnSocket(server: http.Server, socketPath: string): Promise<void> {
+  if (isWindowsPipePath(socketPath)) {
+    await listen(server, socketPath);
+    return;
+  }
+
+  const dir = path.dirname(socketPath);
+  // Only a directory we create is tightened; never chmod a user-chosen existing directory.
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  await removeStaleSocket(socketPath);
+
+  const tmpPath = path.join(dir, `.${randomBytes(6).toString('hex')}.sock.tmp`);
+  await listen(server, tmpPath);
+  try {
+    await fs.chmod(tmpPath, 0o600);
+    await fs.rename(tmpPath, socketPath);
+  } catch (err) {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+/** Remove the socket file after the server closed (named pipes need no cleanup). */
+export async function removeSocketFile(socketPath: string): Promise<void> {
+  if (isWindowsPipePath(socketPath)) return;
+  try {
+    const stat = await fs.lstat(socketPath);
+    if (stat.isSocket()) await fs.rm(socketPath, { force: true });
+  } catch {
+    // Already gone.
+  }
+}
+
+async function removeStaleSocket(socketPath: string): Promise<void> {
+  let stat: Awaited<ReturnType<typeof fs.lstat>>;
+  try {
+    stat = await fs.lstat(socketPath);
+  } catch {
+    return;
+  }
+  if (!stat.isSocket()) {
+    throw new Error('Socket path exists and is not a socket; refusing to replace it.');
+  }
+  if (await isSocketLive(socketPath)) {
+    throw new Error('Socket path is in use by another server.');
+  }
+  await fs.rm(socketPath, { force: true });
+}
+
+async function isSocketLive(socketPath: string): Promise<boolean> {
+  return await new Promise<boolean>((resolve) => {
+    const socket = net.connect(socketPath);
+    const done = (live: boolean) => {
+      socket.destroy();
+      resolve(live);
+    };
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+async function listen(server: http.Server, socketPath: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const onError = (err: Error) => {
+      server.off('listening', onListening);
+      reject(err);
+    };
+    const onListening = () => {
+      server.off('error', onError);
+      resolve();
+    };
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(socketPath);
+  });
+}
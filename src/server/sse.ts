@@ -0,0 +1,160 @@
+// src/server/sse.ts
+//
+// Server-Sent Events framing for Streamable HTTP (MCP 2025-11-25): the standalone GET channel and
+// event-stream answers to POSTed requests.
+// - One JSON-RPC message per `message` event; payloads are single-line JSON
+// - Periodic comment heartbeats keep idle loopback connections from being reaped
+// - Per-session stream registry: at most one standalone stream per session (latest wins)
+
+export const SSE_HEARTBEAT_MS = 15_000;
+
+/** Session key used when sessions are disabled (single global channel). */
+export const SSE_GLOBAL_STREAM_KEY = '' as const;
+
+/** Minimal writable surface used by the SSE stream (satisfied by http.ServerResponse). */
+export type SseResponse = {
+  write: (chunk: string) => boolean;
+  end: () => void;
+  on: (event: 'close', listener: () => void) => unknown;
+};
+
+export type SseStream = Readonly<{
+  /** Send one JSON-RPC message as a `message` event. Returns false if the stream is closed. */
+  send: (message: unknown) => boolean;
+  /** Send an already-serialized JSON-RPC message (single-line JSON text) as a `message` event. */
+  sendSerialized: (jsonText: string) => boolean;
+  /** End the response and release timers; idempotent. */
+  close: () => void;
+  /** Register a listener invoked once when the stream closes (either side). */
+  onClose: (listener: () => void) => void;
+  isClosed: () => boolean;
+}>;
+
+/** One HTTP event-stream response. Adds raw event writes (with optional SSE `id:`) to SseStream. */
+export type SseConnection = SseStream &
+  Readonly<{
+    /** Write one `message` event whose data is already-serialized JSON (or empty for a primer). */
+    writeEvent: (data: string, eventId?: string) => boolean;
+  }>;
+
+export type CreateSseStreamOptions = Readonly<{
+  /** Heartbeat interval in ms; 0 disables heartbeats. */
+  heartbeatMs?: number;
+}>;
+
+export function createSseStream(
+  res: SseResponse,
+  opts: CreateSseStreamOptions = {},
+): SseConnection {
+  let closed = false;
+  const listeners: Array<() => void> = [];
+  const heartbeatMs = opts.heartbeatMs ?? SSE_HEARTBEAT_MS;
+
+  const heartbeat =
+    heartbeatMs > 0
+      ? setInterval(() => {
+          if (!closed) res.write(': keepalive\n\n');
+        }, heartbeatMs)
+      : undefined;
+  heartbeat?.unref?.();
+
+  const markClosed = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    for (const listener of listeners.splice(0)) {
+      try {
+        listener();
+      } catch {
+        // Listener failures must not affect other listeners or the transport.
+      }
+    }
+  };
+
+  res.on('close', markClosed);
+
+  const writeEvent = (data: string, eventId?: string) => {
+    if (closed) return false;
+    res.write(formatSseEvent('message', data, eventId));
+    return true;
+  };
+
+  return {
+    send: (message) => writeEvent(JSON.stringify(message)),
+    sendSerialized: (jsonText) => writeEvent(jsonText),
+    writeEvent,
+    close: () => {
+      if (closed) return;
+      markClosed();
+      res.end();
+    },
+    onClose: (listener) => {
+      if (closed) {
+        listener();
+        return;
+      }
+      listeners.push(listener);
+    },
+    isClosed: () => closed,
+  };
+}
+
+/**
+ * Frame one SSE event. `data` is split on line breaks so each line gets its own `data:` field
+ * (JSON.stringify output never contains raw newlines, but callers may pass arbitrary text).
+ * Empty `data` produces a bare `data:` field (used for resumability primer events).
+ */
+export function formatSseEvent(event: string, data: string, eventId?: string): string {
+  const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+  if (data.length === 0) return `${idLine}event: ${event}\ndata:\n\n`;
+  const lines = data.split(/\r\n|\r|\n/);
+  return `${idLine}event: ${event}\n${lines.map((line) => `data: ${line}`).join('\n')}\n\n`;
+}
+
+export type SseStreamRegistry = Readonly<{
+  /** Attach a stream for a session; an existing stream for the same session is closed first. */
+  attach: (sessionKey: string, stream: SseStream) => void;
+  /** Send a message to one session's stream. Returns false when no open stream exists. */
+  send: (sessionKey: string, message: unknown) => boolean;
+  /** Send a message to every open stream. Returns the number of streams written. */
+  broadcast: (message: unknown) => number;
+  /** Close one session's stream (e.g., on session termination). */
+  close: (sessionKey: string) => void;
+  /** Close every stream (server shutdown). */
+  closeAll: () => void;
+  size: () => number;
+}>;
+
+export function createSseStreamRegistry(): SseStreamRegistry {
+  const streams = new Map<string, SseStream>();
+
+  const close = (sessionKey: string) => {
+    const stream = streams.get(sessionKey);
+    if (!stream) return;
+    streams.delete(sessionKey);
+    stream.close();
+  };
+
+  return {
+    attach: (sessionKey, stream) => {
+      close(sessionKey);
+      streams.set(sessionKey, stream);
+      stream.onClose(() => {
+        if (streams.get(sessionKey) === stream) streams.delete(sessionKey);
+      });
+    },
+    send: (sessionKey, message) => streams.get(sessionKey)?.send(message) ?? false,
+    broadcast: (message) => {
+      let sent = 0;
+      for (const stream of [...streams.values()]) {
+        if (stream.send(message)) sent += 1;
+      }
+      return sent;
+    },
+    close,
+    closeAll: () => {
+      for (const key of [...streams.keys()]) close(key);
+    },
+    size: () => streams.size,
+  };
+}
@@ -8,9 +8,22 @@
 
 export const V1_TOOL_NAMES = [
   'vscode_lsp_definition',
+  'vscode_lsp_typeDefinition',
+  'vscode_lsp_implementation',
   'vscode_lsp_references',
+  'vscode_lsp_callHierarchy',
+  'vscode_lsp_typeHierarchy',
   'vscode_lsp_hover',
+  'vscode_lsp_signatureHelp',
+  'vscode_lsp_inlayHints',
+  'vscode_lsp_completions',
+  'vscode_lsp_renamePreview',
+  'vscode_lsp_codeActions',
+  'vscode_lsp_semanticTokens',
   'vscode_lsp_documentSymbols',
+  'vscode_lsp_documentHighlights',
+  'vscode_lsp_foldingRanges',
+  'vscode_lsp_selectionRanges',
   'vscode_lsp_workspaceSymbols',
   'vscode_lsp_diagnostics_document',
   'vscode_lsp_diagnostics_workspace',
@@ -30,9 +43,31 @@ export type ToolCatalogEntry = Readonly<{
 
 const DESCRIPTIONS: Readonly<Record<V1ToolName, string>> = {
   vscode_lsp_definition: 'Find definition location(s) for a symbol at a position.',
+  vscode_lsp_typeDefinition: 'Find type definition location(s) for a symbol at a position.',
+  vscode_lsp_implementation: 'Find implementation locations for a symbol at a position (paged).',
   vscode_lsp_references: 'Find reference locations for a symbol at a position (paged).',
+  vscode_lsp_callHierarchy:
+    'Return a depth-limited incoming or outgoing call graph for a symbol at a position (paged).',
+  vscode_lsp_typeHierarchy:
+    'Return a depth-limited supertype or subtype graph for a type at a position (paged).',
   vscode_lsp_hover: 'Return hover information at a position.',
+  vscode_lsp_signatureHelp:
+    'Return signatures, parameters, and the active signature/parameter at a call site.',
+  vscode_lsp_inlayHints: 'Return inlay hints (inferred types, parameter names) for a range.',
+  vscode_lsp_completions:
+    'Return completion suggestions (labels, kinds, details, insertText) at a position (paged).',
+  vscode_lsp_renamePreview:
+    'Preview the text edits a rename at a position would make, without applying them (paged).',
+  vscode_lsp_codeActions:
+    'List code actions and quick fixes for a range or diagnostic with edit previews (never applied).',
+  vscode_lsp_semanticTokens:
+    'Return decoded semantic tokens (range, token type, modifiers) for a document or range (paged).',
   vscode_lsp_documentSymbols: 'Return flattened document symbols for a file.',
+  vscode_lsp_documentHighlights:
+    'Return same-file highlights (text, read, write) for the symbol at a position.',
+  vscode_lsp_foldingRanges: 'Return folding ranges (comment, imports, region) for a file.',
+  vscode_lsp_selectionRanges:
+    'Return nested selection ranges (innermost to outermost) for one or more positions.',
   vscode_lsp_workspaceSymbols: 'Search workspace symbols by query string (paged).',
   vscode_lsp_diagnostics_document: 'Return diagnostics for a single document.',
   vscode_lsp_diagnostics_workspace: 'Return diagnostics across the workspace (paged by file).',
@@ -12,6 +12,7 @@
 // - Ajv input validation runs here (single validation path).
 // - Handlers assume validated inputs and perform tool-specific gating/normalization.
 
+import type { CancellationToken } from 'vscode';
 import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
 import type { Logger } from '../logging/redact.js';
 import {
@@ -21,18 +22,36 @@ import {
   type V1ToolName,
 } from './catalog.js';
 import type { SchemaRegistry } from './schemaRegistry.js';
+import { createCancellationSource, type Cancellable } from './runtime/cancellation.js';
 import {
   createCacheWriteGuard,
   type CacheWriteGuard,
   type ToolRuntime,
 } from './runtime/toolRuntime.js';
+import type { ProgressReporter } from './runtime/progress.js';
 import { stableJsonStringify } from '../util/stableStringify.js';
 
 // Handlers
 import { handleDefinition, type DefinitionInput } from './handlers/definition.js';
+import { handleTypeDefinition, type TypeDefinitionInput } from './handlers/typeDefinition.js';
+import { handleImplementation, type ImplementationInput } from './handlers/implementation.js';
 import { handleReferences, type ReferencesInput } from './handlers/references.js';
+import { handleCallHierarchy, type CallHierarchyInput } from './handlers/callHierarchy.js';
+import { handleTypeHierarchy, type TypeHierarchyInput } from './handlers/typeHierarchy.js';
 import { handleHover, type HoverInput } from './handlers/hover.js';
+import { handleSignatureHelp, type SignatureHelpInput } from './handlers/signatureHelp.js';
+import { handleInlayHints, type InlayHintsInput } from './handlers/inlayHints.js';
+import { handleCompletions, type CompletionsInput } from './handlers/completions.js';
+import { handleRenamePreview, type RenamePreviewInput } from './handlers/renamePreview.js';
+import { handleCodeActions, type CodeActionsInput } from './handlers/codeActions.js';
+import { handleSemanticTokens, type SemanticTokensInput } from './handlers/semanticTokens.js';
 import { handleDocumentSymbols, type DocumentSymbolsInput } from './handlers/documentSymbols.js';
+import {
+  handleDocumentHighlights,
+  type DocumentHighlightsInput,
+} from './handlers/documentHighlights.js';
+import { handleFoldingRanges, type FoldingRangesInput } from './handlers/foldingRanges.js';
+import { handleSelectionRanges, type SelectionRangesInput } from './handlers/selectionRanges.js';
 import { handleWorkspaceSymbols, type WorkspaceSymbolsInput } from './handlers/workspaceSymbols.js';
 import {
   handleDiagnosticsDocument,
@@ -45,6 +64,7 @@ import {
 
 const ERROR_CODE_INVALID_PARAMS = 'MCP_LSP_GATEWAY/INVALID_PARAMS' as const;
 const ERROR_CODE_CAP_EXCEEDED = 'MCP_LSP_GATEWAY/CAP_EXCEEDED' as const;
+const ERROR_CODE_CANCELLED = 'MCP_LSP_GATEWAY/CANCELLED' as const;
 const MAX_PAGE_SIZE = 200;
 const MAX_CONTENT_SUMMARY_CHARS = 200;
 
@@ -74,9 +94,19 @@ export type ToolsDispatcherDeps = Readonly<{
   /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
   allowedRootsRealpaths: readonly string[];
   maxItemsPerPage: number;
+  /** How long this caller waits for the result before CAP_EXCEEDED ("Request timed out."). */
   requestTimeoutMs: number;
+  /**
+   * Bound on the handler run that identical concurrent calls share (default: requestTimeoutMs).
+   * Independent of which caller starts the run, so a short per-caller budget cannot shorten it.
+   */
+  sharedRunTimeoutMs?: number;
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  /** Cancelled when the client sends notifications/cancelled for this request. */
+  cancellationToken?: CancellationToken;
+  /** Stage progress sink; only tools that build full snapshots report through it. */
+  reportProgress?: ProgressReporter;
   traceLogger?: Logger;
 }>;
 
@@ -91,6 +121,24 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
     return await handleDefinition(args as DefinitionInput, {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_typeDefinition: async (args, deps) => {
+    return await handleTypeDefinition(args as TypeDefinitionInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_implementation: async (args, deps) => {
+    return await handleImplementation(args as ImplementationInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
     });
   },
 
@@ -99,6 +147,26 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       maxItemsPerPage: deps.maxItemsPerPage,
       toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+      ...(deps.reportProgress ? { reportProgress: deps.reportProgress } : {}),
+    });
+  },
+
+  vscode_lsp_callHierarchy: async (args, deps) => {
+    return await handleCallHierarchy(args as CallHierarchyInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_typeHierarchy: async (args, deps) => {
+    return await handleTypeHierarchy(args as TypeHierarchyInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
     });
   },
 
@@ -106,6 +174,58 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
     return await handleHover(args as HoverInput, {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_signatureHelp: async (args, deps) => {
+    return await handleSignatureHelp(args as SignatureHelpInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_inlayHints: async (args, deps) => {
+    return await handleInlayHints(args as InlayHintsInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_completions: async (args, deps) => {
+    return await handleCompletions(args as CompletionsInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_renamePreview: async (args, deps) => {
+    return await handleRenamePreview(args as RenamePreviewInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_codeActions: async (args, deps) => {
+    return await handleCodeActions(args as CodeActionsInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_semanticTokens: async (args, deps) => {
+    return await handleSemanticTokens(args as SemanticTokensInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      maxItemsPerPage: deps.maxItemsPerPage,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
     });
   },
 
@@ -113,6 +233,31 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
     return await handleDocumentSymbols(args as DocumentSymbolsInput, {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_documentHighlights: async (args, deps) => {
+    return await handleDocumentHighlights(args as DocumentHighlightsInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_foldingRanges: async (args, deps) => {
+    return await handleFoldingRanges(args as FoldingRangesInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
+    });
+  },
+
+  vscode_lsp_selectionRanges: async (args, deps) => {
+    return await handleSelectionRanges(args as SelectionRangesInput, {
+      allowedRootsRealpaths: deps.allowedRootsRealpaths,
+      toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
     });
   },
 
@@ -121,7 +266,9 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       maxItemsPerPage: deps.maxItemsPerPage,
       toolRuntime: deps.toolRuntime,
+      ...(deps.cancellationToken ? { cancellationToken: deps.cancellationToken } : {}),
       ...(deps.traceLogger ? { traceLogger: deps.traceLogger } : {}),
+      ...(deps.reportProgress ? { reportProgress: deps.reportProgress } : {}),
     });
   },
 
@@ -137,6 +284,7 @@ const ROUTES: Readonly<Record<V1ToolName, RoutedHandler>> = {
       allowedRootsRealpaths: deps.allowedRootsRealpaths,
       maxItemsPerPage: deps.maxItemsPerPage,
       toolRuntime: deps.toolRuntime,
+      ...(deps.reportProgress ? { reportProgress: deps.reportProgress } : {}),
     });
   },
 } as const;
@@ -173,13 +321,47 @@ export async function dispatchToolCall(
   const normalizedArgs = normalizeValidatedArgs(validated.value, deps.maxItemsPerPage);
   const callKey = `${toolName}:${stableJsonStringify(normalizedArgs)}`;
   const { guard, expire } = createCacheWriteGuard();
-  const raced = await deps.toolRuntime.singleflight(callKey, () =>
-    withTimeout(
-      handler(normalizedArgs, { ...deps, cacheWriteGuard: guard }),
+  // Identical concurrent calls share one handler run, bounded by sharedRunTimeoutMs; it only stops
+  // (and can no longer write to the caches) once every caller waiting on it has cancelled or
+  // timed out. Each caller waits at most its own requestTimeoutMs, so a caller with a short budget
+  // never cuts off the others. Stage progress reaches every caller still waiting that asked for it.
+  const caller = createCancellationSource();
+  const linked = deps.cancellationToken?.onCancellationRequested(caller.cancel);
+  let waited: TimeoutResult<Cancellable<TimeoutResult<HandlerResult>>>;
+  try {
+    waited = await withTimeout(
+      deps.toolRuntime.singleflightCancellable(
+        callKey,
+        (token, reportProgress) => {
+          token.onCancellationRequested(expire);
+          return withTimeout(
+            handler(normalizedArgs, {
+              ...deps,
+              cacheWriteGuard: guard,
+              cancellationToken: token,
+              reportProgress,
+            }),
+            deps.sharedRunTimeoutMs ?? deps.requestTimeoutMs,
+            expire,
+          );
+        },
+        caller.token,
+        deps.reportProgress,
+      ),
       deps.requestTimeoutMs,
-      expire,
-    ),
-  );
+      caller.cancel,
+    );
+  } finally {
+    linked?.dispose();
+  }
+  if (waited.timedOut) {
+    return { ok: false, error: capExceededError('Request timed out.') };
+  }
+  const shared = waited.value;
+  if (shared.cancelled) {
+    return { ok: false, error: cancelledError() };
+  }
+  const raced = shared.value;
   if (raced.timedOut) {
     return { ok: false, error: capExceededError('Request timed out.') };
   }
@@ -216,9 +398,11 @@ function extractSummary(v: unknown): string | undefined {
     : normalized;
 }
 
-type TimeoutResult<T> = Readonly<{ timedOut: true }> | Readonly<{ timedOut: false; value: T }>;
+export type TimeoutResult<T> =
+  | Readonly<{ timedOut: true }>
+  | Readonly<{ timedOut: false; value: T }>;
 
-async function withTimeout<T>(
+export async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
   onTimeout?: () => void,
@@ -283,6 +467,14 @@ function capExceededError(message: string): JsonRpcErrorObject {
   };
 }
 
+function cancelledError(): JsonRpcErrorObject {
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data: { code: ERROR_CODE_CANCELLED },
+  };
+}
+
 function invalidParamsUnknownTool(tool: string): JsonRpcErrorObject {
   const safeTool = normalizeToolName(tool);
   return {
@@ -0,0 +1,563 @@
+// src/tools/handlers/callHierarchy.ts
+//
+// vscode_lsp_callHierarchy (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Prepares call hierarchy items at a position, then walks incoming or outgoing calls
+//   breadth-first up to `maxDepth` (deterministic frontier order, cycle-safe)
+// - Nodes outside allowed roots are dropped and never expanded
+// - Nodes carry stable sha256 ids; edges reference node ids and carry `fromRanges`
+// - Stable sort + deterministic edge merge + total-set caps (no partial graphs)
+// - Cursor-based paging over edges; each page carries the nodes it references
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import {
+  canonicalizeAndGateFileUri,
+  canonicalizeFileUri,
+  isRealPathAllowed,
+  type WorkspaceGateErrorCode,
+} from '../../workspace/uri.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { stableIdFromCanonicalString } from '../ids.js';
+import { compareLocations } from '../sorting.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../paging/cursor.js';
+
+const TOOL_NAME = 'vscode_lsp_callHierarchy' as const;
+const MAX_CALL_HIERARCHY_DEPTH = 5;
+const DEFAULT_CALL_HIERARCHY_DEPTH = 1;
+const MAX_CALL_HIERARCHY_NODES_TOTAL = 2000;
+const MAX_CALL_HIERARCHY_EDGES_TOTAL = 20000;
+const MAX_FROM_RANGES_PER_EDGE = 200;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 100;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+
+export type CallHierarchyDirection = 'incoming' | 'outgoing';
+
+export type CallHierarchyNode = Readonly<{
+  id: string;
+  name: string;
+  kind: number;
+  uri: string;
+  range: ContractRange;
+  selectionRange: ContractRange;
+  detail?: string;
+}>;
+
+export type CallHierarchyEdge = Readonly<{
+  from: string;
+  to: string;
+  depth: number;
+  fromRanges: readonly ContractRange[];
+}>;
+
+type CallHierarchyGraph = Readonly<{
+  roots: readonly string[];
+  nodes: readonly CallHierarchyNode[];
+  edges: readonly CallHierarchyEdge[];
+}>;
+
+export type CallHierarchyInput = Readonly<{
+  uri: string;
+  position: Readonly<{ line: number; character: number }>;
+  direction: CallHierarchyDirection;
+  maxDepth?: number;
+  cursor?: string | null;
+  pageSize?: number;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: unknown }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type CallHierarchyDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+/** Raw provider item paired with its normalized node (the raw item is needed to expand calls). */
+type ResolvedItem = Readonly<{ node: CallHierarchyNode; item: vscode.CallHierarchyItem }>;
+
+/** Provider call results reduced to the peer item and its call-site ranges. */
+type RawCall = Readonly<{ peer: unknown; fromRanges: unknown }>;
+
+export async function handleCallHierarchy(
+  args: CallHierarchyInput,
+  deps: CallHierarchyDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const direction = args.direction;
+  const maxDepth = clampDepth(args.maxDepth);
+  const requestKey = computeRequestKey(TOOL_NAME, [
+    gated.value.uri,
+    args.position.line,
+    args.position.character,
+    direction,
+    maxDepth,
+  ]);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    TOOL_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(args.cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+  const hasCursor = typeof args.cursor === 'string';
+
+  const pageSize = clampPageSize(args.pageSize, deps.maxItemsPerPage);
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as
+    | CallHierarchyGraph
+    | undefined;
+
+  let graph: CallHierarchyGraph;
+  if (hasCursor) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    graph = cached;
+  } else if (cached) {
+    graph = cached;
+  } else {
+    const docUri = vscode.Uri.parse(gated.value.uri, true);
+    const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+    if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        let rawRoots: unknown;
+        try {
+          const executed = await raceCancellation(
+            vscode.commands.executeCommand(
+              'vscode.prepareCallHierarchy',
+              doc.uri,
+              new vscode.Position(args.position.line, args.position.character),
+            ),
+            token,
+          );
+          if (executed.cancelled) {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          }
+          rawRoots = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const built = await buildCallGraph(
+          rawRoots,
+          direction,
+          maxDepth,
+          deps.allowedRootsRealpaths,
+          (item) => provideCalls(item, direction, token),
+        );
+        if (token.isCancellationRequested)
+          return { ok: false as const, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+        if (!built.ok) return built;
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, built.value);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+
+        return { ok: true as const, value: built.value };
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    graph = computed.value;
+  }
+
+  const paged = paginate(graph.edges, pageSize, args.cursor ?? null, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  const summary =
+    graph.roots.length === 0
+      ? 'No call hierarchy item at position.'
+      : paged.items.length === 1
+        ? `Returned 1 ${direction} call edge.`
+        : `Returned ${paged.items.length} ${direction} call edges${
+            paged.nextCursor ? ' (next page available).' : '.'
+          }`;
+
+  return {
+    ok: true,
+    result: {
+      roots: graph.roots,
+      nodes: selectPageNodes(graph, paged.items),
+      items: paged.items,
+      nextCursor: paged.nextCursor,
+      summary,
+    },
+  };
+}
+
+/**
+ * Build the canonical call graph by breadth-first expansion.
+ *
+ * Each level's frontier is expanded in canonical node order, so the set of discovered nodes and
+ * the `depth` recorded on each edge are independent of provider response ordering.
+ */
+export async function buildCallGraph(
+  rawRoots: unknown,
+  direction: CallHierarchyDirection,
+  maxDepth: number,
+  allowedRootsRealpaths: readonly string[],
+  expand: (item: vscode.CallHierarchyItem) => Promise<readonly RawCall[]>,
+): Promise<
+  | Readonly<{ ok: true; value: CallHierarchyGraph }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>
+> {
+  const nodesById = new Map<string, CallHierarchyNode>();
+  const edgesByKey = new Map<string, MutableEdge>();
+
+  const rootItems = await normalizeItems(normalizeToArray(rawRoots), allowedRootsRealpaths);
+  const rootIds: string[] = [];
+  let frontier: ResolvedItem[] = [];
+  for (const resolved of rootItems) {
+    if (nodesById.has(resolved.node.id)) continue;
+    nodesById.set(resolved.node.id, resolved.node);
+    rootIds.push(resolved.node.id);
+    frontier.push(resolved);
+  }
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth += 1) {
+    frontier.sort((a, b) => compareNodes(a.node, b.node));
+    const next: ResolvedItem[] = [];
+
+    for (const current of frontier) {
+      let calls: readonly RawCall[];
+      try {
+        calls = await expand(current.item);
+      } catch {
+        return {
+          ok: false,
+          error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+        };
+      }
+
+      for (const call of calls) {
+        const peer = await normalizeItem(call.peer, allowedRootsRealpaths);
+        if (!peer) continue;
+
+        if (!nodesById.has(peer.node.id)) {
+          nodesById.set(peer.node.id, peer.node);
+          if (nodesById.size > MAX_CALL_HIERARCHY_NODES_TOTAL) {
+            return { ok: false, error: capExceededError('Call hierarchy exceeded max nodes.') };
+          }
+          next.push(peer);
+        }
+
+        const from = direction === 'incoming' ? peer.node.id : current.node.id;
+        const to = direction === 'incoming' ? current.node.id : peer.node.id;
+        const key = `${from}|${to}`;
+        const existing = edgesByKey.get(key);
+        if (existing) {
+          existing.fromRanges.push(...normalizeRanges(call.fromRanges));
+          continue;
+        }
+        edgesByKey.set(key, { from, to, depth, fromRanges: normalizeRanges(call.fromRanges) });
+        if (edgesByKey.size > MAX_CALL_HIERARCHY_EDGES_TOTAL) {
+          return { ok: false, error: capExceededError('Call hierarchy exceeded max edges.') };
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  const nodes = [...nodesById.values()].sort(compareNodes);
+  const rank = new Map<string, number>();
+  nodes.forEach((node, index) => rank.set(node.id, index));
+
+  const edges: CallHierarchyEdge[] = [...edgesByKey.values()].map((edge) => ({
+    from: edge.from,
+    to: edge.to,
+    depth: edge.depth,
+    fromRanges: finalizeRanges(edge.fromRanges),
+  }));
+  edges.sort((a, b) => compareEdges(a, b, rank));
+
+  const roots = [...rootIds].sort((a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0));
+
+  return { ok: true, value: { roots, nodes, edges } };
+}
+
+type MutableEdge = { from: string; to: string; depth: number; fromRanges: ContractRange[] };
+
+async function provideCalls(
+  item: vscode.CallHierarchyItem,
+  direction: CallHierarchyDirection,
+  token: vscode.CancellationToken,
+): Promise<readonly RawCall[]> {
+  // A cancelled build stops expanding; the caller discards the partial graph.
+  if (direction === 'incoming') {
+    const raw = await raceCancellation(
+      vscode.commands.executeCommand('vscode.provideIncomingCalls', item),
+      token,
+    );
+    if (raw.cancelled) return [];
+    return normalizeToArray(raw.value).map((call) => {
+      const rec = (call && typeof call === 'object' ? call : {}) as Record<string, unknown>;
+      return { peer: rec.from, fromRanges: rec.fromRanges };
+    });
+  }
+
+  const raw = await raceCancellation(
+    vscode.commands.executeCommand('vscode.provideOutgoingCalls', item),
+    token,
+  );
+  if (raw.cancelled) return [];
+  return normalizeToArray(raw.value).map((call) => {
+    const rec = (call && typeof call === 'object' ? call : {}) as Record<string, unknown>;
+    return { peer: rec.to, fromRanges: rec.fromRanges };
+  });
+}
+
+function selectPageNodes(
+  graph: CallHierarchyGraph,
+  edges: readonly CallHierarchyEdge[],
+): CallHierarchyNode[] {
+  const wanted = new Set<string>(graph.roots);
+  for (const edge of edges) {
+    wanted.add(edge.from);
+    wanted.add(edge.to);
+  }
+  return graph.nodes.filter((node) => wanted.has(node.id));
+}
+
+async function normalizeItems(
+  items: readonly unknown[],
+  allowedRootsRealpaths: readonly string[],
+): Promise<ResolvedItem[]> {
+  const out: ResolvedItem[] = [];
+  for (const item of items) {
+    const resolved = await normalizeItem(item, allowedRootsRealpaths);
+    if (resolved) out.push(resolved);
+  }
+  return out;
+}
+
+export async function normalizeItem(
+  item: unknown,
+  allowedRootsRealpaths: readonly string[],
+): Promise<ResolvedItem | undefined> {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+
+  const name = rec.name;
+  const kind = rec.kind;
+  if (typeof name !== 'string' || name.length === 0) return undefined;
+  if (typeof kind !== 'number' || !Number.isInteger(kind) || kind < 0) return undefined;
+  if (!(rec.uri instanceof vscode.Uri)) return undefined;
+  if (!(rec.range instanceof vscode.Range)) return undefined;
+  if (!(rec.selectionRange instanceof vscode.Range)) return undefined;
+
+  let canon: Awaited<ReturnType<typeof canonicalizeFileUri>>;
+  try {
+    canon = await canonicalizeFileUri(rec.uri.toString());
+  } catch {
+    return undefined;
+  }
+  if (!canon.ok) return undefined;
+  if (!isRealPathAllowed(canon.value.realPath, allowedRootsRealpaths)) return undefined;
+
+  const range = toContractRange(rec.range);
+  const selectionRange = toContractRange(rec.selectionRange);
+  const detail = typeof rec.detail === 'string' && rec.detail.length > 0 ? rec.detail : undefined;
+
+  const canonicalString = [
+    canon.value.uri,
+    name,
+    kind,
+    rangeKey(range.start),
+    rangeKey(range.end),
+    rangeKey(selectionRange.start),
+    rangeKey(selectionRange.end),
+  ].join('|');
+
+  return {
+    node: {
+      id: stableIdFromCanonicalString(canonicalString),
+      name,
+      kind,
+      uri: canon.value.uri,
+      range,
+      selectionRange,
+      ...(detail ? { detail } : undefined),
+    },
+    item: item as vscode.CallHierarchyItem,
+  };
+}
+
+function normalizeRanges(raw: unknown): ContractRange[] {
+  const out: ContractRange[] = [];
+  for (const r of normalizeToArray(raw)) {
+    if (r instanceof vscode.Range) out.push(toContractRange(r));
+  }
+  return out;
+}
+
+function finalizeRanges(ranges: readonly ContractRange[]): ContractRange[] {
+  const sorted = [...ranges].sort(compareRanges);
+  const out: ContractRange[] = [];
+  let lastKey: string | undefined;
+  for (const r of sorted) {
+    const key = `${rangeKey(r.start)}-${rangeKey(r.end)}`;
+    if (key === lastKey) continue;
+    out.push(r);
+    lastKey = key;
+    if (out.length >= MAX_FROM_RANGES_PER_EDGE) break;
+  }
+  return out;
+}
+
+export function compareNodes(a: CallHierarchyNode, b: CallHierarchyNode): number {
+  const loc = compareLocations(
+    { uri: a.uri, range: a.selectionRange },
+    { uri: b.uri, range: b.selectionRange },
+  );
+  if (loc !== 0) return loc;
+  if (a.name !== b.name) return a.name < b.name ? -1 : 1;
+  if (a.kind !== b.kind) return a.kind - b.kind;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+function compareEdges(
+  a: CallHierarchyEdge,
+  b: CallHierarchyEdge,
+  rank: ReadonlyMap<string, number>,
+): number {
+  if (a.depth !== b.depth) return a.depth - b.depth;
+  const from = (rank.get(a.from) ?? 0) - (rank.get(b.from) ?? 0);
+  if (from !== 0) return from;
+  return (rank.get(a.to) ?? 0) - (rank.get(b.to) ?? 0);
+}
+
+function compareRanges(a: ContractRange, b: ContractRange): number {
+  if (a.start.line !== b.start.line) return a.start.line - b.start.line;
+  if (a.start.character !== b.start.character) return a.start.character - b.start.character;
+  if (a.end.line !== b.end.line) return a.end.line - b.end.line;
+  return a.end.character - b.end.character;
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+function rangeKey(pos: ContractPosition): string {
+  return `${pos.line}:${pos.character}`;
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
+
+function capExceededError(message: string): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code: 'MCP_LSP_GATEWAY/CAP_EXCEEDED' };
+  const trimmed = message.trim();
+  if (trimmed.length > 0) data.message = trimmed;
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data,
+  };
+}
+
+function clampDepth(value: number | undefined): number {
+  const raw =
+    typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_CALL_HIERARCHY_DEPTH;
+  return clampInt(raw, 1, MAX_CALL_HIERARCHY_DEPTH);
+}
+
+function clampPageSize(value: number | undefined, maxItemsPerPage: number): number {
+  const maxPageSize = clampMaxItemsPerPage(maxItemsPerPage);
+  const raw = typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_PAGE_SIZE;
+  return clampInt(raw, 1, maxPageSize);
+}
+
+function clampMaxItemsPerPage(value: number): number {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return MAX_PAGE_SIZE;
+  if (value < 1) return 1;
+  if (value > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+  return value;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
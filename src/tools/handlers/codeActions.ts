@@ -0,0 +1,340 @@
+// src/tools/handlers/codeActions.ts
+//
+// vscode_lsp_codeActions (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Target is a range or a diagnostic id (ids match vscode_lsp_diagnostics_document)
+// - Executes VS Code's code action provider (with bounded item resolution)
+// - Returns titles, kinds, isPreferred, addressed diagnostic ids, and any WorkspaceEdit as
+//   a preview; edits and commands are NEVER applied or executed
+// - Stable sort + deterministic dedupe; MAX_ITEMS_NONPAGED via deterministic truncation
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, dedupeSortedByKey } from '../sorting.js';
+import { isPositionInDocument } from './definition.js';
+import { diagnosticIdFor } from './diagnosticsDocument.js';
+import { normalizeWorkspaceEdit, type RenameTextEdit } from './renamePreview.js';
+
+const TOOL_NAME = 'vscode_lsp_codeActions' as const;
+const MAX_ITEMS_NONPAGED = 200;
+const MAX_EDITS_PER_ACTION = 200;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+
+export type CodeActionEditPreview = Readonly<{
+  items: readonly RenameTextEdit[];
+  excludedEditCount: number;
+  truncated: boolean;
+}>;
+
+export type CodeActionEntry = Readonly<{
+  title: string;
+  kind?: string;
+  isPreferred: boolean;
+  disabledReason?: string;
+  diagnostics: readonly string[];
+  edit?: CodeActionEditPreview;
+  hasCommand: boolean;
+}>;
+
+export type CodeActionsInput = Readonly<{
+  uri: string;
+  range?: ContractRange;
+  diagnosticId?: string;
+  kind?: string;
+}>;
+
+export type CodeActionsOutput = Readonly<{
+  actions: readonly CodeActionEntry[];
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: CodeActionsOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type CodeActionsDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleCodeActions(
+  args: CodeActionsInput,
+  deps: CodeActionsDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: gateError(gated.code) };
+
+  if (args.range === undefined && args.diagnosticId === undefined) {
+    return {
+      ok: false,
+      error: toolError(
+        E_INVALID_PARAMS,
+        'MCP_LSP_GATEWAY/INVALID_PARAMS',
+        'Either range or diagnosticId is required.',
+      ),
+    };
+  }
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  // Diagnostics can change without a document version bump, so the epoch tuple is part of the key.
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    epochs: deps.toolRuntime.getEpochSnapshotForTool(TOOL_NAME),
+    range: args.range ?? null,
+    diagnosticId: args.diagnosticId ?? null,
+    kind: args.kind ?? null,
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as CodeActionsOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  const diagnosticId = args.diagnosticId;
+  let range: ContractRange | undefined = args.range;
+  if (diagnosticId !== undefined) {
+    const target = findDiagnosticRange(docUri, gated.value.uri, diagnosticId);
+    if (!target) {
+      return {
+        ok: false,
+        error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND', 'Diagnostic id not found.'),
+      };
+    }
+    range ??= target;
+  }
+  if (!range || !isRangeInDocument(doc, range)) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeCodeActionProvider',
+        doc.uri,
+        toVscodeRange(range),
+        args.kind,
+        MAX_ITEMS_NONPAGED,
+      ),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = await normalizeCodeActions(raw, gated.value.uri, deps.allowedRootsRealpaths);
+  const filtered =
+    diagnosticId !== undefined
+      ? normalized.filter((action) => action.diagnostics.includes(diagnosticId))
+      : normalized;
+  const capped = filtered.length > MAX_ITEMS_NONPAGED;
+  const actions = capped ? filtered.slice(0, MAX_ITEMS_NONPAGED) : filtered;
+
+  const summary =
+    actions.length === 1
+      ? 'Returned 1 code action (not applied).'
+      : `Returned ${actions.length} code actions (not applied).${capped ? ' (Capped.)' : ''}`;
+
+  const result: CodeActionsOutput = { actions, summary };
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+/**
+ * Normalize provider results (CodeAction | Command) to contract entries.
+ *
+ * Diagnostics are reported as stable ids for `canonicalUri`; edits go through the same
+ * WorkspaceEdit flattening as vscode_lsp_renamePreview (outside-root edits counted, not shown).
+ */
+export async function normalizeCodeActions(
+  raw: unknown,
+  canonicalUri: string,
+  allowedRootsRealpaths: readonly string[],
+): Promise<CodeActionEntry[]> {
+  const out: CodeActionEntry[] = [];
+  for (const item of normalizeToArray(raw)) {
+    const action = await normalizeCodeAction(item, canonicalUri, allowedRootsRealpaths);
+    if (action) out.push(action);
+  }
+  out.sort(compareCodeActions);
+  return dedupeSortedByKey(out, canonicalDedupeKey);
+}
+
+async function normalizeCodeAction(
+  item: unknown,
+  canonicalUri: string,
+  allowedRootsRealpaths: readonly string[],
+): Promise<CodeActionEntry | undefined> {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+  if (typeof rec.title !== 'string' || rec.title.length === 0) return undefined;
+
+  // A bare Command has a string `command` id; a CodeAction may carry a Command object.
+  if (typeof rec.command === 'string') {
+    return { title: rec.title, isPreferred: false, diagnostics: [], hasCommand: true };
+  }
+
+  const kind = rec.kind instanceof vscode.CodeActionKind ? rec.kind.value : undefined;
+  const disabled = rec.disabled as Record<string, unknown> | undefined;
+  const disabledReason =
+    disabled && typeof disabled.reason === 'string' && disabled.reason.length > 0
+      ? disabled.reason
+      : undefined;
+
+  const diagnostics = [
+    ...new Set(
+      normalizeToArray(rec.diagnostics)
+        .map((diag) => diagnosticIdFor(diag, canonicalUri))
+        .filter((id): id is string => id !== undefined),
+    ),
+  ].sort();
+
+  const edit =
+    rec.edit instanceof vscode.WorkspaceEdit
+      ? await previewEdit(rec.edit, allowedRootsRealpaths)
+      : undefined;
+
+  return {
+    title: rec.title,
+    ...(kind ? { kind } : undefined),
+    isPreferred: rec.isPreferred === true,
+    ...(disabledReason ? { disabledReason } : undefined),
+    diagnostics,
+    ...(edit ? { edit } : undefined),
+    hasCommand: !!rec.command && typeof rec.command === 'object',
+  };
+}
+
+async function previewEdit(
+  edit: vscode.WorkspaceEdit,
+  allowedRootsRealpaths: readonly string[],
+): Promise<CodeActionEditPreview> {
+  const normalized = await normalizeWorkspaceEdit(edit, allowedRootsRealpaths);
+  const truncated = normalized.edits.length > MAX_EDITS_PER_ACTION;
+  return {
+    items: truncated ? normalized.edits.slice(0, MAX_EDITS_PER_ACTION) : normalized.edits,
+    excludedEditCount: normalized.excludedEditCount,
+    truncated,
+  };
+}
+
+/** Preferred actions first, then by kind, then title; ties fall back to the canonical key. */
+export function compareCodeActions(a: CodeActionEntry, b: CodeActionEntry): number {
+  if (a.isPreferred !== b.isPreferred) return a.isPreferred ? -1 : 1;
+  const kind = compareStrings(a.kind ?? '', b.kind ?? '');
+  if (kind !== 0) return kind;
+  const title = compareStrings(a.title, b.title);
+  if (title !== 0) return title;
+  return compareStrings(canonicalDedupeKey(a), canonicalDedupeKey(b));
+}
+
+function findDiagnosticRange(
+  docUri: vscode.Uri,
+  canonicalUri: string,
+  diagnosticId: string,
+): ContractRange | undefined {
+  let diagnostics: readonly vscode.Diagnostic[];
+  try {
+    diagnostics = vscode.languages.getDiagnostics(docUri);
+  } catch {
+    return undefined;
+  }
+  const match = diagnostics.find((diag) => diagnosticIdFor(diag, canonicalUri) === diagnosticId);
+  return match ? toContractRange(match.range) : undefined;
+}
+
+function isRangeInDocument(doc: vscode.TextDocument, range: ContractRange): boolean {
+  if (!isPositionInDocument(doc, range.start) || !isPositionInDocument(doc, range.end)) {
+    return false;
+  }
+  if (range.start.line !== range.end.line) return range.start.line < range.end.line;
+  return range.start.character <= range.end.character;
+}
+
+function compareStrings(a: string, b: string): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+function toVscodeRange(r: ContractRange): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(r.start.line, r.start.character),
+    new vscode.Position(r.end.line, r.end.character),
+  );
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function gateError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
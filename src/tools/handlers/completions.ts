@@ -0,0 +1,359 @@
+// src/tools/handlers/completions.ts
+//
+// vscode_lsp_completions (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's completion item provider at a position
+// - Normalizes items to {label, kind, detail, insertText}; optional case-insensitive prefix filter
+// - Stable sort + deterministic dedupe + deterministic truncation to a total-set cap
+// - Cursor-based paging with deterministic rejection on mismatch (text-sensitive snapshot)
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, dedupeSortedByKey } from '../sorting.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../paging/cursor.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_completions' as const;
+const MAX_COMPLETION_ITEMS_TOTAL = 5000;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 100;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+export type CompletionEntry = Readonly<{
+  label: string;
+  kind?: number;
+  detail?: string;
+  insertText?: string;
+  insertTextFormat?: 'plaintext' | 'snippet';
+  /** Provider sort key; used for ordering only and not returned. */
+  sortText: string;
+  /** Provider filter key; used for prefix filtering only and not returned. */
+  filterText: string;
+}>;
+
+type CompletionSnapshot = Readonly<{
+  items: readonly CompletionEntry[];
+  isIncomplete: boolean;
+  capped: boolean;
+}>;
+
+export type CompletionsInput = Readonly<{
+  uri: string;
+  position: Readonly<{ line: number; character: number }>;
+  prefix?: string;
+  cursor?: string | null;
+  pageSize?: number;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: unknown }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type CompletionsDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleCompletions(
+  args: CompletionsInput,
+  deps: CompletionsDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const prefix = args.prefix ?? '';
+  const requestKey = computeRequestKey(TOOL_NAME, [
+    gated.value.uri,
+    args.position.line,
+    args.position.character,
+    prefix,
+  ]);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    TOOL_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(args.cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+  const hasCursor = typeof args.cursor === 'string';
+
+  const pageSize = clampPageSize(args.pageSize, deps.maxItemsPerPage);
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as
+    | CompletionSnapshot
+    | undefined;
+
+  let snapshot: CompletionSnapshot;
+  if (hasCursor) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    snapshot = cached;
+  } else if (cached) {
+    snapshot = cached;
+  } else {
+    const docUri = vscode.Uri.parse(gated.value.uri, true);
+    const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+    if (!doc || !isPositionInDocument(doc, args.position)) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+    }
+
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        let raw: unknown;
+        try {
+          const executed = await raceCancellation(
+            vscode.commands.executeCommand(
+              'vscode.executeCompletionItemProvider',
+              doc.uri,
+              new vscode.Position(args.position.line, args.position.character),
+            ),
+            token,
+          );
+          if (executed.cancelled) {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          }
+          raw = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const normalized = normalizeCompletionList(raw);
+        const filtered = filterByPrefix(normalized.items, prefix);
+        filtered.sort(compareCompletions);
+        const deduped = dedupeSortedByKey(filtered, (item) =>
+          canonicalDedupeKey(toOutputItem(item)),
+        );
+        const capped = deduped.length > MAX_COMPLETION_ITEMS_TOTAL;
+        const next: CompletionSnapshot = {
+          items: capped ? deduped.slice(0, MAX_COMPLETION_ITEMS_TOTAL) : deduped,
+          isIncomplete: normalized.isIncomplete,
+          capped,
+        };
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, next);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+
+        return { ok: true as const, value: next };
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    snapshot = computed.value;
+  }
+
+  const paged = paginate(snapshot.items, pageSize, args.cursor ?? null, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  const summary =
+    paged.items.length === 1
+      ? 'Returned 1 completion.'
+      : `Returned ${paged.items.length} completions${paged.nextCursor ? ' (next page available).' : '.'}${
+          snapshot.capped ? ' (Capped.)' : ''
+        }`;
+
+  return {
+    ok: true,
+    result: {
+      items: paged.items.map(toOutputItem),
+      isIncomplete: snapshot.isIncomplete,
+      capped: snapshot.capped,
+      nextCursor: paged.nextCursor,
+      summary,
+    },
+  };
+}
+
+export function normalizeCompletionList(raw: unknown): Readonly<{
+  items: CompletionEntry[];
+  isIncomplete: boolean;
+}> {
+  let rawItems: unknown[] = [];
+  let isIncomplete = false;
+  if (Array.isArray(raw)) {
+    rawItems = raw;
+  } else if (raw && typeof raw === 'object') {
+    const rec = raw as Record<string, unknown>;
+    if (Array.isArray(rec.items)) rawItems = rec.items;
+    isIncomplete = rec.isIncomplete === true;
+  }
+
+  const items: CompletionEntry[] = [];
+  for (const item of rawItems) {
+    const normalized = normalizeCompletionItem(item);
+    if (normalized) items.push(normalized);
+  }
+  return { items, isIncomplete };
+}
+
+function normalizeCompletionItem(item: unknown): CompletionEntry | undefined {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+
+  // CompletionItem.label is either a string or a CompletionItemLabel object.
+  let label: string | undefined;
+  let labelDescription: string | undefined;
+  if (typeof rec.label === 'string') {
+    label = rec.label;
+  } else if (rec.label && typeof rec.label === 'object') {
+    const labelRec = rec.label as Record<string, unknown>;
+    if (typeof labelRec.label === 'string') label = labelRec.label;
+    if (typeof labelRec.description === 'string') labelDescription = labelRec.description;
+  }
+  if (!label || label.length === 0) return undefined;
+
+  const kind =
+    typeof rec.kind === 'number' && Number.isInteger(rec.kind) && rec.kind >= 0
+      ? rec.kind
+      : undefined;
+  const detail = nonEmptyString(rec.detail) ?? nonEmptyString(labelDescription);
+
+  let insertText: string | undefined;
+  let insertTextFormat: 'plaintext' | 'snippet' | undefined;
+  if (rec.insertText instanceof vscode.SnippetString) {
+    insertText = rec.insertText.value;
+    insertTextFormat = 'snippet';
+  } else if (typeof rec.insertText === 'string') {
+    insertText = rec.insertText;
+    insertTextFormat = 'plaintext';
+  }
+
+  return {
+    label,
+    ...(kind !== undefined ? { kind } : undefined),
+    ...(detail ? { detail } : undefined),
+    ...(insertText !== undefined && insertTextFormat
+      ? { insertText, insertTextFormat }
+      : undefined),
+    sortText: nonEmptyString(rec.sortText) ?? label,
+    filterText: nonEmptyString(rec.filterText) ?? label,
+  };
+}
+
+/** Case-insensitive prefix match against the provider filter text (label by default). */
+export function filterByPrefix(
+  items: readonly CompletionEntry[],
+  prefix: string,
+): CompletionEntry[] {
+  if (prefix.length === 0) return items.slice(0);
+  const needle = prefix.toLowerCase();
+  return items.filter((item) => item.filterText.toLowerCase().startsWith(needle));
+}
+
+/** Provider sortText first (preserves relevance), then label, kind, detail, insertText. */
+export function compareCompletions(a: CompletionEntry, b: CompletionEntry): number {
+  return (
+    compareStrings(a.sortText, b.sortText) ||
+    compareStrings(a.label, b.label) ||
+    (a.kind ?? -1) - (b.kind ?? -1) ||
+    compareStrings(a.detail ?? '', b.detail ?? '') ||
+    compareStrings(a.insertText ?? '', b.insertText ?? '')
+  );
+}
+
+function toOutputItem(item: CompletionEntry): Record<string, unknown> {
+  return {
+    label: item.label,
+    ...(item.kind !== undefined ? { kind: item.kind } : undefined),
+    ...(item.detail ? { detail: item.detail } : undefined),
+    ...(item.insertText !== undefined
+      ? { insertText: item.insertText, insertTextFormat: item.insertTextFormat }
+      : undefined),
+  };
+}
+
+function compareStrings(a: string, b: string): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
+
+function clampPageSize(value: number | undefined, maxItemsPerPage: number): number {
+  const maxPageSize = clampMaxItemsPerPage(maxItemsPerPage);
+  const raw = typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_PAGE_SIZE;
+  return clampInt(raw, 1, maxPageSize);
+}
+
+function clampMaxItemsPerPage(value: number): number {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return MAX_PAGE_SIZE;
+  if (value < 1) return 1;
+  if (value > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+  return value;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
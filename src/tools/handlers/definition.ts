@@ -18,6 +18,7 @@ import {
 } from '../../workspace/uri.js';
 import { stableJsonStringify } from '../../util/stableStringify.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
 import { canonicalDedupeKey, compareLocations, dedupeSortedByKey } from '../sorting.js';
 
 const MAX_ITEMS_NONPAGED = 200;
@@ -48,6 +49,7 @@ export type DefinitionDeps = Readonly<{
   allowedRootsRealpaths: readonly string[];
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
 }>;
 
 export async function handleDefinition(
@@ -89,11 +91,18 @@ export async function handleDefinition(
   // Execute provider command.
   let raw: unknown;
   try {
-    raw = await vscode.commands.executeCommand(
-      'vscode.executeDefinitionProvider',
-      doc.uri,
-      new vscode.Position(input.position.line, input.position.character),
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeDefinitionProvider',
+        doc.uri,
+        new vscode.Position(input.position.line, input.position.character),
+      ),
+      deps.cancellationToken,
     );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
   } catch {
     // Avoid leaking provider / filesystem details.
     return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
@@ -158,6 +158,11 @@ export function normalizeDiagnostics(
   return dedupeSortedByKey(withoutUri, canonicalDedupeKey);
 }
 
+/** Stable diagnostic id (same value `normalizeDiagnostics` emits), or undefined if invalid. */
+export function diagnosticIdFor(diag: unknown, canonicalUri: string): string | undefined {
+  return normalizeDiagnostic(diag, canonicalUri)?.id;
+}
+
 function normalizeDiagnostic(diag: unknown, canonicalUri: string): SortableDiagnostic | undefined {
   if (!diag || typeof diag !== 'object') return undefined;
   const rec = diag as Record<string, unknown>;
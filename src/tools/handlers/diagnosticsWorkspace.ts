@@ -10,6 +10,7 @@ import * as vscode from 'vscode';
 import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
 import { canonicalizeFileUri, isRealPathAllowed } from '../../workspace/uri.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import type { ProgressReporter } from '../runtime/progress.js';
 import {
   computeRequestKey,
   computeSnapshotKey,
@@ -53,6 +54,8 @@ export type DiagnosticsWorkspaceDeps = Readonly<{
   maxItemsPerPage: number;
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  /** Stage updates while the full diagnostics set is built (only when the client asked). */
+  reportProgress?: ProgressReporter;
 }>;
 
 export async function handleDiagnosticsWorkspace(
@@ -82,27 +85,42 @@ export async function handleDiagnosticsWorkspace(
   } else if (cached) {
     groups = cached;
   } else {
-    const computed = await deps.toolRuntime.singleflight(snapshotKey, async () => {
-      let raw: unknown;
-      try {
-        raw = vscode.languages.getDiagnostics();
-      } catch {
-        return { ok: false as const, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/INTERNAL') };
-      }
-
-      const normalized = await normalizeWorkspaceDiagnosticsGroups(raw, deps.allowedRootsRealpaths);
-
-      const capError = checkWorkspaceDiagnosticsTotalCap(normalized.groups.length);
-      if (capError) return { ok: false as const, error: capError };
-
-      const nextGroups = normalized.groups;
-      if (allowCacheWrite(deps.cacheWriteGuard)) {
-        const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextGroups);
-        if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
-      }
-
-      return { ok: true as const, value: nextGroups };
-    });
+    const computed = await deps.toolRuntime.singleflight(
+      snapshotKey,
+      async (_token, report) => {
+        report('Collecting workspace diagnostics.');
+        let raw: unknown;
+        try {
+          raw = vscode.languages.getDiagnostics();
+        } catch {
+          return { ok: false as const, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/INTERNAL') };
+        }
+        const rawFileCount = Array.isArray(raw) ? raw.length : 0;
+        report(`Diagnostics reported for ${rawFileCount} files.`);
+
+        // Canonicalization, root filtering, and per-file sort/dedupe happen in one pass.
+        const normalized = await normalizeWorkspaceDiagnosticsGroups(
+          raw,
+          deps.allowedRootsRealpaths,
+        );
+        report(
+          `Canonicalized, sorted, and deduplicated to ${normalized.groups.length} files inside allowed roots.`,
+        );
+
+        const capError = checkWorkspaceDiagnosticsTotalCap(normalized.groups.length);
+        if (capError) return { ok: false as const, error: capError };
+
+        const nextGroups = normalized.groups;
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextGroups);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+          report(`Cached diagnostics for ${nextGroups.length} files for paging.`);
+        }
+
+        return { ok: true as const, value: nextGroups };
+      },
+      deps.reportProgress,
+    );
 
     if (!computed.ok) return { ok: false, error: computed.error };
     groups = computed.value;
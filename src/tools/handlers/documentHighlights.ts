@@ -0,0 +1,196 @@
+// src/tools/handlers/documentHighlights.ts
+//
+// vscode_lsp_documentHighlights (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's document highlight provider at a position
+// - Normalizes to {range, kind} with kind in {text, read, write} (missing kind => text)
+// - Stable sort + deterministic dedupe; MAX_ITEMS_NONPAGED via deterministic truncation
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import {
+  canonicalDedupeKey,
+  compareRanges,
+  dedupeSortedByKey,
+  type ContractPosition,
+  type ContractRange,
+} from '../sorting.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_documentHighlights' as const;
+const MAX_ITEMS_NONPAGED = 200;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+export type DocumentHighlightKindName = 'text' | 'read' | 'write';
+
+export type DocumentHighlightEntry = Readonly<{
+  range: ContractRange;
+  kind: DocumentHighlightKindName;
+}>;
+
+export type DocumentHighlightsInput = Readonly<{
+  uri: string;
+  position: ContractPosition;
+}>;
+
+export type DocumentHighlightsOutput = Readonly<{
+  highlights: readonly DocumentHighlightEntry[];
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: DocumentHighlightsOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type DocumentHighlightsDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleDocumentHighlights(
+  args: DocumentHighlightsInput,
+  deps: DocumentHighlightsDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc || !isPositionInDocument(doc, args.position)) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    epochs: deps.toolRuntime.getEpochSnapshotForTool(TOOL_NAME),
+    position: args.position,
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as DocumentHighlightsOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeDocumentHighlights',
+        doc.uri,
+        new vscode.Position(args.position.line, args.position.character),
+      ),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = normalizeDocumentHighlights(raw);
+  const capped = normalized.length > MAX_ITEMS_NONPAGED;
+  const highlights = capped ? normalized.slice(0, MAX_ITEMS_NONPAGED) : normalized;
+
+  const summary =
+    highlights.length === 1
+      ? 'Returned 1 document highlight.'
+      : `Returned ${highlights.length} document highlights.${capped ? ' (Capped.)' : ''}`;
+
+  const result: DocumentHighlightsOutput = { highlights, summary };
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+export function normalizeDocumentHighlights(raw: unknown): DocumentHighlightEntry[] {
+  const out: DocumentHighlightEntry[] = [];
+  for (const item of normalizeToArray(raw)) {
+    if (!item || typeof item !== 'object') continue;
+    const rec = item as Record<string, unknown>;
+    if (!(rec.range instanceof vscode.Range)) continue;
+    out.push({ range: toContractRange(rec.range), kind: toKindName(rec.kind) });
+  }
+  out.sort(compareDocumentHighlights);
+  return dedupeSortedByKey(out, canonicalDedupeKey);
+}
+
+export function compareDocumentHighlights(
+  a: DocumentHighlightEntry,
+  b: DocumentHighlightEntry,
+): number {
+  const r = compareRanges(a.range, b.range);
+  if (r !== 0) return r;
+  if (a.kind < b.kind) return -1;
+  if (a.kind > b.kind) return 1;
+  return 0;
+}
+
+function toKindName(kind: unknown): DocumentHighlightKindName {
+  if (kind === vscode.DocumentHighlightKind.Read) return 'read';
+  if (kind === vscode.DocumentHighlightKind.Write) return 'write';
+  return 'text';
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
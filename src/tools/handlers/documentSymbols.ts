@@ -17,6 +17,7 @@ import {
 } from '../../workspace/uri.js';
 import { stableJsonStringify } from '../../util/stableStringify.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
 import { stableIdFromCanonicalString } from '../ids.js';
 import { canonicalDedupeKey, compareDocumentSymbols, dedupeSortedByKey } from '../sorting.js';
 
@@ -48,6 +49,7 @@ export type DocumentSymbolsDeps = Readonly<{
   allowedRootsRealpaths: readonly string[];
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
 }>;
 
 export async function handleDocumentSymbols(
@@ -80,7 +82,14 @@ export async function handleDocumentSymbols(
 
   let raw: unknown;
   try {
-    raw = await vscode.commands.executeCommand('vscode.executeDocumentSymbolProvider', doc.uri);
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand('vscode.executeDocumentSymbolProvider', doc.uri),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
   } catch {
     return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
   }
@@ -0,0 +1,185 @@
+// src/tools/handlers/foldingRanges.ts
+//
+// vscode_lsp_foldingRanges (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's folding range provider for a document
+// - Normalizes to {startLine, endLine, kind?} with kind in {comment, imports, region}
+// - Stable sort + deterministic dedupe; MAX_ITEMS_NONPAGED via deterministic truncation
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, dedupeSortedByKey } from '../sorting.js';
+
+const TOOL_NAME = 'vscode_lsp_foldingRanges' as const;
+const MAX_ITEMS_NONPAGED = 200;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+export type FoldingRangeKindName = 'comment' | 'imports' | 'region';
+
+export type FoldingRangeEntry = Readonly<{
+  startLine: number;
+  endLine: number;
+  kind?: FoldingRangeKindName;
+}>;
+
+export type FoldingRangesInput = Readonly<{ uri: string }>;
+
+export type FoldingRangesOutput = Readonly<{
+  ranges: readonly FoldingRangeEntry[];
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: FoldingRangesOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type FoldingRangesDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleFoldingRanges(
+  args: FoldingRangesInput,
+  deps: FoldingRangesDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    epochs: deps.toolRuntime.getEpochSnapshotForTool(TOOL_NAME),
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as FoldingRangesOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand('vscode.executeFoldingRangeProvider', doc.uri),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = normalizeFoldingRanges(raw, doc.lineCount);
+  const capped = normalized.length > MAX_ITEMS_NONPAGED;
+  const ranges = capped ? normalized.slice(0, MAX_ITEMS_NONPAGED) : normalized;
+
+  const summary =
+    ranges.length === 1
+      ? 'Returned 1 folding range.'
+      : `Returned ${ranges.length} folding ranges.${capped ? ' (Capped.)' : ''}`;
+
+  const result: FoldingRangesOutput = { ranges, summary };
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+/**
+ * Drops ranges that are empty, inverted, or outside the document (when `lineCount` is known).
+ */
+export function normalizeFoldingRanges(raw: unknown, lineCount?: number): FoldingRangeEntry[] {
+  const out: FoldingRangeEntry[] = [];
+  for (const item of normalizeToArray(raw)) {
+    if (!item || typeof item !== 'object') continue;
+    const rec = item as Record<string, unknown>;
+    const startLine = rec.start;
+    const endLine = rec.end;
+    if (!isLine(startLine) || !isLine(endLine) || endLine <= startLine) continue;
+    if (lineCount !== undefined && endLine >= lineCount) continue;
+
+    const kind = toKindName(rec.kind);
+    out.push({ startLine, endLine, ...(kind ? { kind } : undefined) });
+  }
+  out.sort(compareFoldingRanges);
+  return dedupeSortedByKey(out, canonicalDedupeKey);
+}
+
+/** Outer ranges first (start asc, end desc), then kind with missing kind last. */
+export function compareFoldingRanges(a: FoldingRangeEntry, b: FoldingRangeEntry): number {
+  if (a.startLine !== b.startLine) return a.startLine - b.startLine;
+  if (a.endLine !== b.endLine) return b.endLine - a.endLine;
+  if (a.kind === b.kind) return 0;
+  if (a.kind === undefined) return 1;
+  if (b.kind === undefined) return -1;
+  return a.kind < b.kind ? -1 : 1;
+}
+
+function toKindName(kind: unknown): FoldingRangeKindName | undefined {
+  if (kind === vscode.FoldingRangeKind.Comment) return 'comment';
+  if (kind === vscode.FoldingRangeKind.Imports) return 'imports';
+  if (kind === vscode.FoldingRangeKind.Region) return 'region';
+  return undefined;
+}
+
+function isLine(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
@@ -11,6 +11,7 @@ import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
 import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
 import { stableJsonStringify } from '../../util/stableStringify.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
 
 const E_INVALID_PARAMS = -32602;
 const E_INTERNAL = -32603;
@@ -40,6 +41,7 @@ export type HoverDeps = Readonly<{
   allowedRootsRealpaths: readonly string[];
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
 }>;
 
 export async function handleHover(args: HoverInput, deps: HoverDeps): Promise<ToolResult> {
@@ -71,11 +73,18 @@ export async function handleHover(args: HoverInput, deps: HoverDeps): Promise<To
 
   let raw: unknown;
   try {
-    raw = await vscode.commands.executeCommand(
-      'vscode.executeHoverProvider',
-      doc.uri,
-      new vscode.Position(args.position.line, args.position.character),
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeHoverProvider',
+        doc.uri,
+        new vscode.Position(args.position.line, args.position.character),
+      ),
+      deps.cancellationToken,
     );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
   } catch {
     return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
   }
@@ -0,0 +1,338 @@
+// src/tools/handlers/implementation.ts
+//
+// vscode_lsp_implementation (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's implementation provider and normalizes to contract Location[]
+// - Stable sort + deterministic dedupe + total-set cap enforcement
+// - Cursor-based paging with deterministic rejection on mismatch
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import {
+  canonicalizeAndGateFileUri,
+  canonicalizeFileUri,
+  isRealPathAllowed,
+  type WorkspaceGateErrorCode,
+} from '../../workspace/uri.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, compareLocations, dedupeSortedByKey } from '../sorting.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../paging/cursor.js';
+
+const TOOL_NAME = 'vscode_lsp_implementation' as const;
+const MAX_IMPLEMENTATION_ITEMS_TOTAL = 20000;
+export const MAX_IMPLEMENTATION_ITEMS_RAW = MAX_IMPLEMENTATION_ITEMS_TOTAL * 4;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 100;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+type ContractLocation = Readonly<{ uri: string; range: ContractRange }>;
+
+export type ImplementationInput = Readonly<{
+  uri: string;
+  position: Readonly<{ line: number; character: number }>;
+  cursor?: string | null;
+  pageSize?: number;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: unknown }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type ImplementationDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleImplementation(
+  args: ImplementationInput,
+  deps: ImplementationDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const requestKey = computeRequestKey(TOOL_NAME, [
+    gated.value.uri,
+    args.position.line,
+    args.position.character,
+  ]);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    TOOL_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(args.cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+  const hasCursor = typeof args.cursor === 'string';
+
+  const pageSize = clampPageSize(args.pageSize, deps.maxItemsPerPage);
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as
+    | readonly ContractLocation[]
+    | undefined;
+
+  let deduped: readonly ContractLocation[];
+  if (hasCursor) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    deduped = cached;
+  } else if (cached) {
+    deduped = cached;
+  } else {
+    const docUri = vscode.Uri.parse(gated.value.uri, true);
+    const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+    if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        let raw: unknown;
+        try {
+          const executed = await raceCancellation(
+            vscode.commands.executeCommand(
+              'vscode.executeImplementationProvider',
+              doc.uri,
+              new vscode.Position(args.position.line, args.position.character),
+            ),
+            token,
+          );
+          if (executed.cancelled) {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          }
+          raw = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const rawCapError = checkImplementationRawCap(raw);
+        if (rawCapError) return { ok: false as const, error: rawCapError };
+
+        const normalized = await normalizeImplementationResult(raw, deps.allowedRootsRealpaths);
+        normalized.sort(compareLocations);
+        const nextDeduped = dedupeSortedByKey(normalized, canonicalDedupeKey);
+
+        const capError = checkImplementationTotalCap(nextDeduped.length);
+        if (capError) return { ok: false as const, error: capError };
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextDeduped);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+
+        return { ok: true as const, value: nextDeduped };
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    deduped = computed.value;
+  }
+
+  const paged = paginate(deduped, pageSize, args.cursor ?? null, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  const summary =
+    paged.items.length === 1
+      ? 'Returned 1 implementation.'
+      : `Returned ${paged.items.length} implementations${paged.nextCursor ? ' (next page available).' : '.'}`;
+
+  return {
+    ok: true,
+    result: {
+      items: paged.items,
+      nextCursor: paged.nextCursor,
+      summary,
+    },
+  };
+}
+
+export function checkImplementationTotalCap(count: number): JsonRpcErrorObject | undefined {
+  if (count > MAX_IMPLEMENTATION_ITEMS_TOTAL) {
+    return capExceededError('Implementations exceeded max total.');
+  }
+  return undefined;
+}
+
+export function checkImplementationRawCap(raw: unknown): JsonRpcErrorObject | undefined {
+  if (Array.isArray(raw) && raw.length > MAX_IMPLEMENTATION_ITEMS_RAW) {
+    return capExceededError('Implementations exceeded max total.');
+  }
+  return undefined;
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+export async function normalizeImplementationResult(
+  raw: unknown,
+  allowedRootsRealpaths: readonly string[],
+): Promise<ContractLocation[]> {
+  const out: ContractLocation[] = [];
+  const items = normalizeToArray(raw);
+  for (const item of items) {
+    try {
+      const loc = await normalizeOneLocationLike(item, allowedRootsRealpaths);
+      if (loc) out.push(loc);
+    } catch {
+      // Fail closed: drop invalid items deterministically.
+      continue;
+    }
+  }
+  return out;
+}
+
+async function normalizeOneLocationLike(
+  item: unknown,
+  allowedRootsRealpaths: readonly string[],
+): Promise<ContractLocation | undefined> {
+  if (!item || typeof item !== 'object') return undefined;
+
+  if (isLocationLink(item)) {
+    const targetUri = item.targetUri;
+    const range = pickLocationLinkRange(item);
+    if (!range) return undefined;
+    return await canonicalizeAndFilterLocation(targetUri, range, allowedRootsRealpaths);
+  }
+
+  if (isLocation(item)) {
+    return await canonicalizeAndFilterLocation(item.uri, item.range, allowedRootsRealpaths);
+  }
+
+  return undefined;
+}
+
+async function canonicalizeAndFilterLocation(
+  uri: vscode.Uri,
+  range: vscode.Range,
+  allowedRootsRealpaths: readonly string[],
+): Promise<ContractLocation | undefined> {
+  const canon = await canonicalizeFileUri(uri.toString());
+  if (!canon.ok) return undefined;
+  if (!isRealPathAllowed(canon.value.realPath, allowedRootsRealpaths)) return undefined;
+
+  return {
+    uri: canon.value.uri,
+    range: toContractRange(range),
+  };
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+function isLocation(v: unknown): v is vscode.Location {
+  if (!v || typeof v !== 'object') return false;
+  const o = v as Record<string, unknown>;
+  return o.uri instanceof vscode.Uri && o.range instanceof vscode.Range;
+}
+
+function isLocationLink(v: unknown): v is vscode.LocationLink {
+  if (!v || typeof v !== 'object') return false;
+  const o = v as Record<string, unknown>;
+  return o.targetUri instanceof vscode.Uri && o.targetRange instanceof vscode.Range;
+}
+
+function pickLocationLinkRange(link: vscode.LocationLink): vscode.Range | undefined {
+  if (link.targetSelectionRange instanceof vscode.Range) return link.targetSelectionRange;
+  if (link.targetRange instanceof vscode.Range) return link.targetRange;
+  return undefined;
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
+
+function capExceededError(message: string): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code: 'MCP_LSP_GATEWAY/CAP_EXCEEDED' };
+  const trimmed = message.trim();
+  if (trimmed.length > 0) data.message = trimmed;
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data,
+  };
+}
+
+function clampPageSize(value: number | undefined, maxItemsPerPage: number): number {
+  const maxPageSize = clampMaxItemsPerPage(maxItemsPerPage);
+  const raw = typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_PAGE_SIZE;
+  return clampInt(raw, 1, maxPageSize);
+}
+
+function clampMaxItemsPerPage(value: number): number {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return MAX_PAGE_SIZE;
+  if (value < 1) return 1;
+  if (value > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+  return value;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
@@ -0,0 +1,227 @@
+// src/tools/handlers/inlayHints.ts
+//
+// vscode_lsp_inlayHints (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's inlay hint provider for a range
+// - Normalizes label text (string or label parts), position, kind, and padding flags
+// - Stable sort + deterministic dedupe; MAX_ITEMS_NONPAGED via deterministic truncation
+// - Long-label truncation happens in tools/truncate.ts (same rules as hover)
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, dedupeSortedByKey } from '../sorting.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_inlayHints' as const;
+const MAX_ITEMS_NONPAGED = 200;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+
+export type InlayHintEntry = Readonly<{
+  position: ContractPosition;
+  label: string;
+  kind?: 'type' | 'parameter';
+  paddingLeft: boolean;
+  paddingRight: boolean;
+}>;
+
+export type InlayHintsInput = Readonly<{
+  uri: string;
+  range: ContractRange;
+}>;
+
+export type InlayHintsOutput = Readonly<{
+  hints: readonly InlayHintEntry[];
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: InlayHintsOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type InlayHintsDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleInlayHints(
+  args: InlayHintsInput,
+  deps: InlayHintsDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: gateError(gated.code) };
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc || !isRangeInDocument(doc, args.range)) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    range: args.range,
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as InlayHintsOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeInlayHintProvider',
+        doc.uri,
+        new vscode.Range(
+          new vscode.Position(args.range.start.line, args.range.start.character),
+          new vscode.Position(args.range.end.line, args.range.end.character),
+        ),
+      ),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = normalizeInlayHints(raw);
+  const capped = normalized.length > MAX_ITEMS_NONPAGED;
+  const hints = capped ? normalized.slice(0, MAX_ITEMS_NONPAGED) : normalized;
+
+  const summary =
+    hints.length === 1
+      ? 'Returned 1 inlay hint.'
+      : `Returned ${hints.length} inlay hints.${capped ? ' (Capped.)' : ''}`;
+
+  const result: InlayHintsOutput = { hints, summary };
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+export function normalizeInlayHints(raw: unknown): InlayHintEntry[] {
+  const out: InlayHintEntry[] = [];
+  for (const item of normalizeToArray(raw)) {
+    const hint = normalizeInlayHint(item);
+    if (hint) out.push(hint);
+  }
+  out.sort(compareInlayHints);
+  return dedupeSortedByKey(out, canonicalDedupeKey);
+}
+
+function normalizeInlayHint(item: unknown): InlayHintEntry | undefined {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+  if (!(rec.position instanceof vscode.Position)) return undefined;
+
+  const label = normalizeLabel(rec.label);
+  if (label === undefined || label.length === 0) return undefined;
+
+  const kind =
+    rec.kind === vscode.InlayHintKind.Type
+      ? 'type'
+      : rec.kind === vscode.InlayHintKind.Parameter
+        ? 'parameter'
+        : undefined;
+
+  return {
+    position: { line: rec.position.line, character: rec.position.character },
+    label,
+    ...(kind ? { kind } : undefined),
+    paddingLeft: rec.paddingLeft === true,
+    paddingRight: rec.paddingRight === true,
+  };
+}
+
+/** Label is a string or an array of label parts whose `value`s are concatenated. */
+function normalizeLabel(raw: unknown): string | undefined {
+  if (typeof raw === 'string') return raw;
+  if (!Array.isArray(raw)) return undefined;
+  let out = '';
+  for (const part of raw) {
+    if (!part || typeof part !== 'object') return undefined;
+    const value = (part as Record<string, unknown>).value;
+    if (typeof value !== 'string') return undefined;
+    out += value;
+  }
+  return out;
+}
+
+export function compareInlayHints(a: InlayHintEntry, b: InlayHintEntry): number {
+  if (a.position.line !== b.position.line) return a.position.line - b.position.line;
+  if (a.position.character !== b.position.character) {
+    return a.position.character - b.position.character;
+  }
+  if (a.label < b.label) return -1;
+  if (a.label > b.label) return 1;
+  return 0;
+}
+
+function isRangeInDocument(doc: vscode.TextDocument, range: ContractRange): boolean {
+  if (!isPositionInDocument(doc, range.start) || !isPositionInDocument(doc, range.end)) {
+    return false;
+  }
+  if (range.start.line !== range.end.line) return range.start.line < range.end.line;
+  return range.start.character <= range.end.character;
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function gateError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
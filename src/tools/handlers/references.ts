@@ -16,6 +16,8 @@ import {
   type WorkspaceGateErrorCode,
 } from '../../workspace/uri.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import type { ProgressReporter } from '../runtime/progress.js';
 import { canonicalDedupeKey, compareLocations, dedupeSortedByKey } from '../sorting.js';
 import {
   computeRequestKey,
@@ -57,6 +59,9 @@ export type ReferencesDeps = Readonly<{
   maxItemsPerPage: number;
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+  /** Stage updates while the full reference set is built (only when the client asked). */
+  reportProgress?: ProgressReporter;
 }>;
 
 export async function handleReferences(
@@ -105,40 +110,67 @@ export async function handleReferences(
     const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
     if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
 
-    const computed = await deps.toolRuntime.singleflight(snapshotKey, async () => {
-      let raw: unknown;
-      try {
-        raw = await vscode.commands.executeCommand(
-          'vscode.executeReferenceProvider',
-          doc.uri,
-          new vscode.Position(args.position.line, args.position.character),
-          includeDeclaration,
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token, report) => {
+        report('Running reference provider.');
+        let raw: unknown;
+        try {
+          const executed = await raceCancellation(
+            vscode.commands.executeCommand(
+              'vscode.executeReferenceProvider',
+              doc.uri,
+              new vscode.Position(args.position.line, args.position.character),
+              includeDeclaration,
+            ),
+            token,
+          );
+          if (executed.cancelled) {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          }
+          raw = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const rawCapError = checkReferencesRawCap(raw);
+        if (rawCapError) return { ok: false as const, error: rawCapError };
+        const rawCount = normalizeToArray(raw).length;
+        report(`Provider returned ${rawCount} locations.`);
+
+        const normalized = await normalizeReferenceResult(raw, deps.allowedRootsRealpaths);
+        report(
+          `Canonicalized locations: kept ${normalized.length}, dropped ${rawCount - normalized.length}.`,
         );
-      } catch {
-        return {
-          ok: false as const,
-          error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
-        };
-      }
-
-      const rawCapError = checkReferencesRawCap(raw);
-      if (rawCapError) return { ok: false as const, error: rawCapError };
-
-      const normalized = await normalizeReferenceResult(raw, deps.allowedRootsRealpaths);
-      normalized.sort(compareLocations);
-      const nextDeduped = dedupeSortedByKey(normalized, canonicalDedupeKey);
-
-      const capError = checkReferencesTotalCap(nextDeduped.length);
-      if (capError) return { ok: false as const, error: capError };
-
-      if (allowCacheWrite(deps.cacheWriteGuard)) {
-        const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextDeduped);
-        if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
-      }
-
-      return { ok: true as const, value: nextDeduped };
-    });
-
+        normalized.sort(compareLocations);
+        const nextDeduped = dedupeSortedByKey(normalized, canonicalDedupeKey);
+        report(`Sorted and deduplicated to ${nextDeduped.length} references.`);
+
+        const capError = checkReferencesTotalCap(nextDeduped.length);
+        if (capError) return { ok: false as const, error: capError };
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextDeduped);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+          report(`Cached ${nextDeduped.length} references for paging.`);
+        }
+
+        return { ok: true as const, value: nextDeduped };
+      },
+      deps.cancellationToken,
+      deps.reportProgress,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
     if (!computed.ok) return { ok: false, error: computed.error };
     deduped = computed.value;
   }
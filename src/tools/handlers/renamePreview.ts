@@ -0,0 +1,363 @@
+// src/tools/handlers/renamePreview.ts
+//
+// vscode_lsp_renamePreview (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's prepareRename + rename providers and returns the WorkspaceEdit as
+//   per-file text edits; the edit is NEVER applied (read-only preview)
+// - Edits outside allowed roots are counted (`excludedEditCount`) and never returned
+// - Stable sort + deterministic dedupe + total-set cap enforcement
+// - Cursor-based paging with deterministic rejection on mismatch
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import {
+  canonicalizeAndGateFileUri,
+  canonicalizeFileUri,
+  isRealPathAllowed,
+  type WorkspaceGateErrorCode,
+} from '../../workspace/uri.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { canonicalDedupeKey, compareLocations, dedupeSortedByKey } from '../sorting.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../paging/cursor.js';
+
+const TOOL_NAME = 'vscode_lsp_renamePreview' as const;
+const MAX_RENAME_EDITS_TOTAL = 20000;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 100;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+
+export type RenameTextEdit = Readonly<{ uri: string; range: ContractRange; newText: string }>;
+
+type RenamePreview = Readonly<{
+  available: boolean;
+  range?: ContractRange;
+  placeholder?: string;
+  edits: readonly RenameTextEdit[];
+  excludedEditCount: number;
+}>;
+
+export type RenamePreviewInput = Readonly<{
+  uri: string;
+  position: Readonly<{ line: number; character: number }>;
+  newName: string;
+  cursor?: string | null;
+  pageSize?: number;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: unknown }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type RenamePreviewDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleRenamePreview(
+  args: RenamePreviewInput,
+  deps: RenamePreviewDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const requestKey = computeRequestKey(TOOL_NAME, [
+    gated.value.uri,
+    args.position.line,
+    args.position.character,
+    args.newName,
+  ]);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    TOOL_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(args.cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+  const hasCursor = typeof args.cursor === 'string';
+
+  const pageSize = clampPageSize(args.pageSize, deps.maxItemsPerPage);
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as RenamePreview | undefined;
+
+  let preview: RenamePreview;
+  if (hasCursor) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    preview = cached;
+  } else if (cached) {
+    preview = cached;
+  } else {
+    const docUri = vscode.Uri.parse(gated.value.uri, true);
+    const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+    if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        const position = new vscode.Position(args.position.line, args.position.character);
+
+        let next: RenamePreview;
+        const preparing = await raceCancellation(prepareRename(doc.uri, position), token);
+        if (preparing.cancelled)
+          return { ok: false as const, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+        const prepared = preparing.value;
+        if (!prepared.ok) {
+          next = { available: false, edits: [], excludedEditCount: 0 };
+        } else {
+          let raw: unknown;
+          try {
+            const executed = await raceCancellation(
+              vscode.commands.executeCommand(
+                'vscode.executeDocumentRenameProvider',
+                doc.uri,
+                position,
+                args.newName,
+              ),
+              token,
+            );
+            if (executed.cancelled) {
+              return {
+                ok: false as const,
+                error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+              };
+            }
+            raw = executed.value;
+          } catch {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+            };
+          }
+
+          const normalized = await normalizeWorkspaceEdit(raw, deps.allowedRootsRealpaths);
+          const capError = checkRenameEditsTotalCap(normalized.edits.length);
+          if (capError) return { ok: false as const, error: capError };
+
+          next = {
+            available: true,
+            ...(prepared.range ? { range: prepared.range } : undefined),
+            ...(prepared.placeholder !== undefined
+              ? { placeholder: prepared.placeholder }
+              : undefined),
+            edits: normalized.edits,
+            excludedEditCount: normalized.excludedEditCount,
+          };
+        }
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, next);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+
+        return { ok: true as const, value: next };
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    preview = computed.value;
+  }
+
+  const paged = paginate(preview.edits, pageSize, args.cursor ?? null, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  const excludedNote =
+    preview.excludedEditCount > 0
+      ? ` ${preview.excludedEditCount} edit(s) outside allowed roots omitted.`
+      : '';
+  const summary = !preview.available
+    ? 'Rename not available at position.'
+    : paged.items.length === 1
+      ? `Returned 1 rename edit (not applied).${excludedNote}`
+      : `Returned ${paged.items.length} rename edits (not applied)${
+          paged.nextCursor ? '; next page available.' : '.'
+        }${excludedNote}`;
+
+  return {
+    ok: true,
+    result: {
+      available: preview.available,
+      ...(preview.range ? { range: preview.range } : undefined),
+      ...(preview.placeholder !== undefined ? { placeholder: preview.placeholder } : undefined),
+      items: paged.items,
+      excludedEditCount: preview.excludedEditCount,
+      nextCursor: paged.nextCursor,
+      summary,
+    },
+  };
+}
+
+/**
+ * Flatten a WorkspaceEdit into canonical per-file text edits.
+ *
+ * Edits targeting files outside the allowed roots (or non-file URIs) are counted, never returned.
+ * Only text edits are reported; resource operations (file create/rename/delete) are not exposed.
+ */
+export async function normalizeWorkspaceEdit(
+  raw: unknown,
+  allowedRootsRealpaths: readonly string[],
+): Promise<Readonly<{ edits: RenameTextEdit[]; excludedEditCount: number }>> {
+  if (!(raw instanceof vscode.WorkspaceEdit)) return { edits: [], excludedEditCount: 0 };
+
+  const out: RenameTextEdit[] = [];
+  let excludedEditCount = 0;
+  for (const [uri, textEdits] of raw.entries()) {
+    const edits = textEdits.filter(isTextEdit);
+    if (edits.length === 0) continue;
+
+    const canon = await canonicalizeFileUri(uri.toString()).catch(() => undefined);
+    if (!canon?.ok || !isRealPathAllowed(canon.value.realPath, allowedRootsRealpaths)) {
+      excludedEditCount += edits.length;
+      continue;
+    }
+
+    for (const edit of edits) {
+      out.push({ uri: canon.value.uri, range: toContractRange(edit.range), newText: edit.newText });
+    }
+  }
+
+  out.sort(compareRenameEdits);
+  return { edits: dedupeSortedByKey(out, canonicalDedupeKey), excludedEditCount };
+}
+
+export function compareRenameEdits(a: RenameTextEdit, b: RenameTextEdit): number {
+  const loc = compareLocations(a, b);
+  if (loc !== 0) return loc;
+  if (a.newText < b.newText) return -1;
+  if (a.newText > b.newText) return 1;
+  return 0;
+}
+
+export function checkRenameEditsTotalCap(count: number): JsonRpcErrorObject | undefined {
+  if (count > MAX_RENAME_EDITS_TOTAL) {
+    return capExceededError('Rename edits exceeded max total.');
+  }
+  return undefined;
+}
+
+/**
+ * Run prepareRename. The command rejects when the provider refuses a rename at the position;
+ * that is reported as "not available" rather than as a provider failure.
+ */
+async function prepareRename(
+  uri: vscode.Uri,
+  position: vscode.Position,
+): Promise<Readonly<{ ok: true; range?: ContractRange; placeholder?: string }> | { ok: false }> {
+  let raw: unknown;
+  try {
+    raw = await vscode.commands.executeCommand('vscode.prepareRename', uri, position);
+  } catch {
+    return { ok: false };
+  }
+
+  if (raw instanceof vscode.Range) return { ok: true, range: toContractRange(raw) };
+  if (!raw || typeof raw !== 'object') return { ok: true };
+  const rec = raw as Record<string, unknown>;
+  return {
+    ok: true,
+    ...(rec.range instanceof vscode.Range ? { range: toContractRange(rec.range) } : undefined),
+    ...(typeof rec.placeholder === 'string' ? { placeholder: rec.placeholder } : undefined),
+  };
+}
+
+function isTextEdit(v: unknown): v is vscode.TextEdit {
+  if (!v || typeof v !== 'object') return false;
+  const o = v as Record<string, unknown>;
+  return o.range instanceof vscode.Range && typeof o.newText === 'string';
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
+
+function capExceededError(message: string): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code: 'MCP_LSP_GATEWAY/CAP_EXCEEDED' };
+  const trimmed = message.trim();
+  if (trimmed.length > 0) data.message = trimmed;
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data,
+  };
+}
+
+function clampPageSize(value: number | undefined, maxItemsPerPage: number): number {
+  const maxPageSize = clampMaxItemsPerPage(maxItemsPerPage);
+  const raw = typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_PAGE_SIZE;
+  return clampInt(raw, 1, maxPageSize);
+}
+
+function clampMaxItemsPerPage(value: number): number {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return MAX_PAGE_SIZE;
+  if (value < 1) return 1;
+  if (value > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+  return value;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
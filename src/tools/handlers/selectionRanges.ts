@@ -0,0 +1,203 @@
+// src/tools/handlers/selectionRanges.ts
+//
+// vscode_lsp_selectionRanges (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's selection range provider for one or more positions
+// - Flattens each parent chain to a range array ordered innermost -> outermost
+// - Results keep input position order; chains are depth-capped deterministically
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import {
+  canonicalDedupeKey,
+  comparePositions,
+  dedupeSortedByKey,
+  type ContractPosition,
+  type ContractRange,
+} from '../sorting.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_selectionRanges' as const;
+const MAX_SELECTION_DEPTH = 64;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+export type SelectionRangeEntry = Readonly<{
+  position: ContractPosition;
+  ranges: readonly ContractRange[];
+  capped: boolean;
+}>;
+
+export type SelectionRangesInput = Readonly<{
+  uri: string;
+  positions: readonly ContractPosition[];
+}>;
+
+export type SelectionRangesOutput = Readonly<{
+  selections: readonly SelectionRangeEntry[];
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: SelectionRangesOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type SelectionRangesDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleSelectionRanges(
+  args: SelectionRangesInput,
+  deps: SelectionRangesDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc || !args.positions.every((p) => isPositionInDocument(doc, p))) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    epochs: deps.toolRuntime.getEpochSnapshotForTool(TOOL_NAME),
+    positions: args.positions,
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as SelectionRangesOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeSelectionRangeProvider',
+        doc.uri,
+        args.positions.map((p) => new vscode.Position(p.line, p.character)),
+      ),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const selections = normalizeSelectionRanges(raw, args.positions);
+  const summary =
+    selections.length === 1
+      ? 'Returned selection ranges for 1 position.'
+      : `Returned selection ranges for ${selections.length} positions.`;
+
+  const result: SelectionRangesOutput = { selections, summary };
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+/**
+ * The provider returns one SelectionRange per requested position (same order). Positions
+ * without a usable result get an empty `ranges` array rather than shifting later entries.
+ */
+export function normalizeSelectionRanges(
+  raw: unknown,
+  positions: readonly ContractPosition[],
+  maxDepth: number = MAX_SELECTION_DEPTH,
+): SelectionRangeEntry[] {
+  const items = Array.isArray(raw) ? (raw as unknown[]) : [];
+  return positions.map((position, index) => {
+    const chain = flattenSelectionChain(items[index], maxDepth);
+    return { position: { line: position.line, character: position.character }, ...chain };
+  });
+}
+
+function flattenSelectionChain(
+  item: unknown,
+  maxDepth: number,
+): Readonly<{ ranges: ContractRange[]; capped: boolean }> {
+  const ranges: ContractRange[] = [];
+  let current = item;
+  while (current && typeof current === 'object') {
+    const rec = current as Record<string, unknown>;
+    if (!(rec.range instanceof vscode.Range)) break;
+    const range = toContractRange(rec.range);
+    const previous = ranges[ranges.length - 1];
+    // Each parent must enclose its child; stop at the first malformed link.
+    if (previous && !containsRange(range, previous)) break;
+    if (ranges.length >= maxDepth) return { ranges: dedupeChain(ranges), capped: true };
+    ranges.push(range);
+    current = rec.parent;
+  }
+  return { ranges: dedupeChain(ranges), capped: false };
+}
+
+function dedupeChain(ranges: readonly ContractRange[]): ContractRange[] {
+  return dedupeSortedByKey(ranges, canonicalDedupeKey);
+}
+
+function containsRange(outer: ContractRange, inner: ContractRange): boolean {
+  return (
+    comparePositions(outer.start, inner.start) <= 0 && comparePositions(outer.end, inner.end) >= 0
+  );
+}
+
+function toContractRange(r: vscode.Range): ContractRange {
+  return {
+    start: { line: r.start.line, character: r.start.character },
+    end: { line: r.end.line, character: r.end.character },
+  };
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
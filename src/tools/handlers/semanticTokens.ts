@@ -0,0 +1,386 @@
+// src/tools/handlers/semanticTokens.ts
+//
+// vscode_lsp_semanticTokens (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's document (or range) semantic tokens provider plus its legend
+// - Decodes the delta-encoded integer array into {range, tokenType, modifiers[]} records
+// - Optional range bound (tokens outside the requested range are dropped)
+// - Stable sort + total-set cap enforcement (no partial results)
+// - Cursor-based paging with deterministic rejection on mismatch
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import {
+  computeRequestKey,
+  computeSnapshotKey,
+  cursorExpiredError,
+  paginate,
+  snapshotTooLargeError,
+  validateCursor,
+} from '../paging/cursor.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_semanticTokens' as const;
+const MAX_SEMANTIC_TOKENS_TOTAL = 10000;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_PAGE_SIZE = 100;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type ContractPosition = Readonly<{ line: number; character: number }>;
+type ContractRange = Readonly<{ start: ContractPosition; end: ContractPosition }>;
+
+export type SemanticTokensLegendLike = Readonly<{
+  tokenTypes: readonly string[];
+  tokenModifiers: readonly string[];
+}>;
+
+export type SemanticToken = Readonly<{
+  range: ContractRange;
+  tokenType: string;
+  modifiers: readonly string[];
+}>;
+
+export type SemanticTokensInput = Readonly<{
+  uri: string;
+  range?: ContractRange;
+  cursor?: string | null;
+  pageSize?: number;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: unknown }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type SemanticTokensDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  maxItemsPerPage: number;
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleSemanticTokens(
+  args: SemanticTokensInput,
+  deps: SemanticTokensDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: invalidParamsError(gated.code) };
+
+  const requestKey = computeRequestKey(TOOL_NAME, [
+    gated.value.uri,
+    ...(args.range
+      ? [
+          args.range.start.line,
+          args.range.start.character,
+          args.range.end.line,
+          args.range.end.character,
+        ]
+      : []),
+  ]);
+  const epochTupleString = deps.toolRuntime.getSnapshotFingerprint(
+    TOOL_NAME,
+    deps.allowedRootsRealpaths,
+  );
+  const snapshotKey = computeSnapshotKey(requestKey, epochTupleString);
+  const cursorChecked = validateCursor(args.cursor, requestKey, snapshotKey);
+  if (!cursorChecked.ok) return { ok: false, error: cursorChecked.error };
+  const hasCursor = typeof args.cursor === 'string';
+
+  const pageSize = clampPageSize(args.pageSize, deps.maxItemsPerPage);
+
+  const cached = deps.toolRuntime.pagedFullSetCache.get(snapshotKey) as
+    | readonly SemanticToken[]
+    | undefined;
+
+  let tokens: readonly SemanticToken[];
+  if (hasCursor) {
+    if (!cached) return { ok: false, error: cursorExpiredError() };
+    tokens = cached;
+  } else if (cached) {
+    tokens = cached;
+  } else {
+    const docUri = vscode.Uri.parse(gated.value.uri, true);
+    const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+    if (!doc) return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+    const bound = args.range;
+    if (bound && !isRangeInDocument(doc, bound)) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+    }
+
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token) => {
+        let fetched: Readonly<{ legend: unknown; tokens: unknown }>;
+        try {
+          const executed = await raceCancellation(fetchSemanticTokens(doc.uri, bound), token);
+          if (executed.cancelled)
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          fetched = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const legend = normalizeLegend(fetched.legend);
+        const data = extractTokenData(fetched.tokens);
+        const decoded = legend && data ? decodeSemanticTokens(data, legend, bound) : [];
+        decoded.sort(compareTokens);
+
+        const capError = checkSemanticTokensTotalCap(decoded.length);
+        if (capError) return { ok: false as const, error: capError };
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, decoded);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+        }
+
+        return { ok: true as const, value: decoded };
+      },
+      deps.cancellationToken,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
+    if (!computed.ok) return { ok: false, error: computed.error };
+    tokens = computed.value;
+  }
+
+  const paged = paginate(tokens, pageSize, args.cursor ?? null, requestKey, snapshotKey);
+  if (!paged.ok) return { ok: false, error: paged.error };
+
+  const summary =
+    paged.items.length === 1
+      ? 'Returned 1 semantic token.'
+      : `Returned ${paged.items.length} semantic tokens${paged.nextCursor ? ' (next page available).' : '.'}`;
+
+  return {
+    ok: true,
+    result: {
+      items: paged.items,
+      nextCursor: paged.nextCursor,
+      summary,
+    },
+  };
+}
+
+/**
+ * Decode the LSP/VS Code delta encoding: each token is five integers
+ * `[deltaLine, deltaStartChar, length, tokenType, tokenModifiersBitset]`, where `deltaStartChar`
+ * is relative to the previous token only when both are on the same line.
+ *
+ * Tokens with an unknown type index are dropped; unknown modifier bits are ignored. When `bound`
+ * is given, only tokens intersecting it are kept.
+ */
+export function decodeSemanticTokens(
+  data: ArrayLike<number>,
+  legend: SemanticTokensLegendLike,
+  bound?: ContractRange,
+): SemanticToken[] {
+  const out: SemanticToken[] = [];
+  let line = 0;
+  let character = 0;
+  for (let i = 0; i + 4 < data.length; i += 5) {
+    const deltaLine = data[i]!;
+    const deltaStart = data[i + 1]!;
+    const length = data[i + 2]!;
+    const typeIndex = data[i + 3]!;
+    const modifierBits = data[i + 4]!;
+
+    line += deltaLine;
+    character = deltaLine === 0 ? character + deltaStart : deltaStart;
+
+    const tokenType = legend.tokenTypes[typeIndex];
+    if (tokenType === undefined) continue;
+
+    const range: ContractRange = {
+      start: { line, character },
+      end: { line, character: character + length },
+    };
+    if (bound && !rangesIntersect(range, bound)) continue;
+
+    out.push({ range, tokenType, modifiers: decodeModifiers(modifierBits, legend) });
+  }
+  return out;
+}
+
+export function checkSemanticTokensTotalCap(count: number): JsonRpcErrorObject | undefined {
+  if (count > MAX_SEMANTIC_TOKENS_TOTAL) {
+    return capExceededError('Semantic tokens exceeded max total; request a smaller range.');
+  }
+  return undefined;
+}
+
+/**
+ * Prefer the range provider when a range is requested; fall back to whole-document tokens
+ * (bounded during decoding) when no range provider answers.
+ */
+async function fetchSemanticTokens(
+  uri: vscode.Uri,
+  bound: ContractRange | undefined,
+): Promise<Readonly<{ legend: unknown; tokens: unknown }>> {
+  if (bound) {
+    const legend = await vscode.commands.executeCommand(
+      'vscode.provideDocumentRangeSemanticTokensLegend',
+      uri,
+    );
+    if (legend) {
+      const tokens = await vscode.commands.executeCommand(
+        'vscode.provideDocumentRangeSemanticTokens',
+        uri,
+        toVscodeRange(bound),
+      );
+      if (tokens) return { legend, tokens };
+    }
+  }
+
+  const legend = await vscode.commands.executeCommand(
+    'vscode.provideDocumentSemanticTokensLegend',
+    uri,
+  );
+  if (!legend) return { legend: undefined, tokens: undefined };
+  const tokens = await vscode.commands.executeCommand('vscode.provideDocumentSemanticTokens', uri);
+  return { legend, tokens };
+}
+
+function normalizeLegend(raw: unknown): SemanticTokensLegendLike | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const rec = raw as Record<string, unknown>;
+  if (!isStringArray(rec.tokenTypes)) return undefined;
+  return {
+    tokenTypes: rec.tokenTypes,
+    tokenModifiers: isStringArray(rec.tokenModifiers) ? rec.tokenModifiers : [],
+  };
+}
+
+function extractTokenData(raw: unknown): ArrayLike<number> | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = (raw as Record<string, unknown>).data;
+  if (data instanceof Uint32Array) return data;
+  if (Array.isArray(data) && data.every((n) => typeof n === 'number')) return data;
+  return undefined;
+}
+
+function decodeModifiers(bits: number, legend: SemanticTokensLegendLike): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < legend.tokenModifiers.length && i < 32; i += 1) {
+    if ((bits >>> i) & 1) out.push(legend.tokenModifiers[i]!);
+  }
+  return out;
+}
+
+function compareTokens(a: SemanticToken, b: SemanticToken): number {
+  return (
+    a.range.start.line - b.range.start.line ||
+    a.range.start.character - b.range.start.character ||
+    a.range.end.line - b.range.end.line ||
+    a.range.end.character - b.range.end.character
+  );
+}
+
+function rangesIntersect(a: ContractRange, b: ContractRange): boolean {
+  return comparePositions(a.start, b.end) < 0 && comparePositions(b.start, a.end) < 0;
+}
+
+function comparePositions(a: ContractPosition, b: ContractPosition): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+function isRangeInDocument(doc: vscode.TextDocument, range: ContractRange): boolean {
+  if (!isPositionInDocument(doc, range.start) || !isPositionInDocument(doc, range.end)) {
+    return false;
+  }
+  return comparePositions(range.start, range.end) <= 0;
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === 'string');
+}
+
+function toVscodeRange(r: ContractRange): vscode.Range {
+  return new vscode.Range(
+    new vscode.Position(r.start.line, r.start.character),
+    new vscode.Position(r.end.line, r.end.character),
+  );
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function invalidParamsError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
+
+function capExceededError(message: string): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code: 'MCP_LSP_GATEWAY/CAP_EXCEEDED' };
+  const trimmed = message.trim();
+  if (trimmed.length > 0) data.message = trimmed;
+  return {
+    code: -32603,
+    message: 'Internal error',
+    data,
+  };
+}
+
+function clampPageSize(value: number | undefined, maxItemsPerPage: number): number {
+  const maxPageSize = clampMaxItemsPerPage(maxItemsPerPage);
+  const raw = typeof value === 'number' && Number.isInteger(value) ? value : DEFAULT_PAGE_SIZE;
+  return clampInt(raw, 1, maxPageSize);
+}
+
+function clampMaxItemsPerPage(value: number): number {
+  if (!Number.isFinite(value) || !Number.isInteger(value)) return MAX_PAGE_SIZE;
+  if (value < 1) return 1;
+  if (value > MAX_PAGE_SIZE) return MAX_PAGE_SIZE;
+  return value;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
@@ -0,0 +1,294 @@
+// src/tools/handlers/signatureHelp.ts
+//
+// vscode_lsp_signatureHelp (v1)
+// - Input is already Ajv-validated by the dispatcher (deterministic -32602 on failure)
+// - URI gating (schema includes `uri`)
+// - Executes VS Code's signature help provider at a position
+// - Normalizes signatures, parameters, documentation, and active indices
+// - Preserves provider signature order (active indices refer to it)
+// - Enforces MAX_ITEMS_NONPAGED via deterministic truncation
+// - Documentation byte/codepoint truncation happens in tools/truncate.ts
+
+import * as vscode from 'vscode';
+import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
+import { canonicalizeAndGateFileUri, type WorkspaceGateErrorCode } from '../../workspace/uri.js';
+import { stableJsonStringify } from '../../util/stableStringify.js';
+import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import { isPositionInDocument } from './definition.js';
+
+const TOOL_NAME = 'vscode_lsp_signatureHelp' as const;
+const MAX_ITEMS_NONPAGED = 200;
+
+const E_INVALID_PARAMS = -32602;
+const E_INTERNAL = -32603;
+
+type Documentation = Readonly<{ kind: 'markdown' | 'plaintext'; value: string }>;
+
+export type SignatureParameter = Readonly<{
+  label: string;
+  labelOffsets?: readonly [number, number];
+  documentation?: Documentation;
+}>;
+
+export type SignatureEntry = Readonly<{
+  label: string;
+  documentation?: Documentation;
+  parameters: readonly SignatureParameter[];
+  activeParameter?: number;
+}>;
+
+export type SignatureHelpInput = Readonly<{
+  uri: string;
+  position: Readonly<{ line: number; character: number }>;
+  triggerCharacter?: string;
+}>;
+
+export type SignatureHelpOutput = Readonly<{
+  signatures: readonly SignatureEntry[];
+  activeSignature?: number;
+  activeParameter?: number;
+  summary?: string;
+}>;
+
+export type ToolResult =
+  | Readonly<{ ok: true; result: SignatureHelpOutput }>
+  | Readonly<{ ok: false; error: JsonRpcErrorObject }>;
+
+export type SignatureHelpDeps = Readonly<{
+  /** Canonical realpaths of allowlisted roots (workspace folders + additional roots). */
+  allowedRootsRealpaths: readonly string[];
+  toolRuntime: ToolRuntime;
+  cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+}>;
+
+export async function handleSignatureHelp(
+  args: SignatureHelpInput,
+  deps: SignatureHelpDeps,
+): Promise<ToolResult> {
+  const gated = await canonicalizeAndGateFileUri(args.uri, deps.allowedRootsRealpaths).catch(
+    () => ({
+      ok: false as const,
+      code: 'MCP_LSP_GATEWAY/URI_INVALID' as const,
+    }),
+  );
+
+  if (!gated.ok) return { ok: false, error: gateError(gated.code) };
+
+  const docUri = vscode.Uri.parse(gated.value.uri, true);
+  const doc = await openOrReuseTextDocument(docUri).catch(() => undefined);
+  if (!doc) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+  if (!isPositionInDocument(doc, args.position)) {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/NOT_FOUND') };
+  }
+
+  const triggerCharacter =
+    typeof args.triggerCharacter === 'string' && args.triggerCharacter.length > 0
+      ? args.triggerCharacter
+      : undefined;
+
+  const cacheKey = stableJsonStringify({
+    tool: TOOL_NAME,
+    uri: gated.value.uri,
+    v: doc.version,
+    line: args.position.line,
+    character: args.position.character,
+    trigger: triggerCharacter ?? null,
+  });
+  const cache = deps.toolRuntime.getUnpagedCache(TOOL_NAME);
+  const cached = cache.get(cacheKey) as SignatureHelpOutput | undefined;
+  if (cached) return { ok: true, result: cached };
+
+  let raw: unknown;
+  try {
+    const executed = await raceCancellation(
+      vscode.commands.executeCommand(
+        'vscode.executeSignatureHelpProvider',
+        doc.uri,
+        new vscode.Position(args.position.line, args.position.character),
+        ...(triggerCharacter ? [triggerCharacter] : []),
+      ),
+      deps.cancellationToken,
+    );
+    if (executed.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    raw = executed.value;
+  } catch {
+    return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE') };
+  }
+
+  const normalized = normalizeSignatureHelp(raw);
+  const total = normalized.signatures.length;
+  const signatures =
+    total > MAX_ITEMS_NONPAGED
+      ? normalized.signatures.slice(0, MAX_ITEMS_NONPAGED)
+      : normalized.signatures;
+  const activeSignature =
+    normalized.activeSignature !== undefined && normalized.activeSignature < signatures.length
+      ? normalized.activeSignature
+      : undefined;
+
+  const summary =
+    signatures.length === 0
+      ? 'No signature help available.'
+      : signatures.length === 1
+        ? 'Returned 1 signature.'
+        : `Returned ${signatures.length} signatures.${total > MAX_ITEMS_NONPAGED ? ' (Capped.)' : ''}`;
+
+  const result: SignatureHelpOutput = {
+    signatures,
+    ...(activeSignature !== undefined ? { activeSignature } : undefined),
+    ...(activeSignature !== undefined && normalized.activeParameter !== undefined
+      ? { activeParameter: normalized.activeParameter }
+      : undefined),
+    summary,
+  };
+
+  if (allowCacheWrite(deps.cacheWriteGuard)) {
+    cache.set(cacheKey, result);
+  }
+  return { ok: true, result };
+}
+
+export function normalizeSignatureHelp(raw: unknown): Readonly<{
+  signatures: SignatureEntry[];
+  activeSignature?: number;
+  activeParameter?: number;
+}> {
+  if (!raw || typeof raw !== 'object') return { signatures: [] };
+  const rec = raw as Record<string, unknown>;
+
+  const signatures: SignatureEntry[] = [];
+  for (const item of normalizeToArray(rec.signatures)) {
+    const sig = normalizeSignature(item);
+    if (sig) signatures.push(sig);
+  }
+  if (signatures.length === 0) return { signatures };
+
+  // An active signature index is only kept when it points into the normalized list.
+  const activeSignature = normalizeIndex(rec.activeSignature);
+  const activeParameter = normalizeIndex(rec.activeParameter);
+  return {
+    signatures,
+    ...(activeSignature !== undefined && activeSignature < signatures.length
+      ? { activeSignature }
+      : undefined),
+    ...(activeParameter !== undefined ? { activeParameter } : undefined),
+  };
+}
+
+function normalizeSignature(item: unknown): SignatureEntry | undefined {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+  if (typeof rec.label !== 'string' || rec.label.length === 0) return undefined;
+  const label = rec.label;
+
+  const parameters: SignatureParameter[] = [];
+  for (const p of normalizeToArray(rec.parameters).slice(0, MAX_ITEMS_NONPAGED)) {
+    const param = normalizeParameter(p, label);
+    if (param) parameters.push(param);
+  }
+
+  const documentation = normalizeDocumentation(rec.documentation);
+  const activeParameter = normalizeIndex(rec.activeParameter);
+  return {
+    label,
+    ...(documentation ? { documentation } : undefined),
+    parameters,
+    ...(activeParameter !== undefined ? { activeParameter } : undefined),
+  };
+}
+
+function normalizeParameter(item: unknown, signatureLabel: string): SignatureParameter | undefined {
+  if (!item || typeof item !== 'object') return undefined;
+  const rec = item as Record<string, unknown>;
+  const documentation = normalizeDocumentation(rec.documentation);
+
+  if (typeof rec.label === 'string') {
+    return {
+      label: rec.label,
+      ...(documentation ? { documentation } : undefined),
+    };
+  }
+
+  // Offset labels are [start, end) UTF-16 offsets into the signature label.
+  if (Array.isArray(rec.label) && rec.label.length === 2) {
+    const [start, end] = rec.label as unknown[];
+    if (!isNonNegativeInteger(start) || !isNonNegativeInteger(end)) return undefined;
+    if (start > end || end > signatureLabel.length) return undefined;
+    return {
+      label: signatureLabel.slice(start, end),
+      labelOffsets: [start, end],
+      ...(documentation ? { documentation } : undefined),
+    };
+  }
+
+  return undefined;
+}
+
+function normalizeDocumentation(raw: unknown): Documentation | undefined {
+  if (raw instanceof vscode.MarkdownString) {
+    const value = String(raw.value ?? '');
+    return value.length > 0 ? { kind: 'markdown', value } : undefined;
+  }
+  if (typeof raw === 'string') {
+    return raw.length > 0 ? { kind: 'plaintext', value: raw } : undefined;
+  }
+  if (raw && typeof raw === 'object') {
+    const rec = raw as Record<string, unknown>;
+    if ((rec.kind === 'markdown' || rec.kind === 'plaintext') && typeof rec.value === 'string') {
+      return rec.value.length > 0 ? { kind: rec.kind, value: rec.value } : undefined;
+    }
+  }
+  return undefined;
+}
+
+function normalizeIndex(raw: unknown): number | undefined {
+  return isNonNegativeInteger(raw) ? raw : undefined;
+}
+
+function isNonNegativeInteger(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0;
+}
+
+function normalizeToArray(raw: unknown): unknown[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  return [raw];
+}
+
+async function openOrReuseTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+  const asString = uri.toString();
+  const existing = vscode.workspace.textDocuments.find((d) => d.uri.toString() === asString);
+  if (existing) return existing;
+  return await vscode.workspace.openTextDocument(uri);
+}
+
+function gateError(code: WorkspaceGateErrorCode): JsonRpcErrorObject {
+  return {
+    code: -32602,
+    message: 'Invalid params',
+    data: { code },
+  };
+}
+
+function toolError(
+  jsonRpcCode: number,
+  code: string,
+  message?: string,
+  details?: Record<string, unknown>,
+): JsonRpcErrorObject {
+  const data: Record<string, unknown> = { code };
+  if (typeof message === 'string' && message.trim().length > 0) data.message = message.trim();
+  if (details && Object.keys(details).length > 0) data.details = details;
+
+  return {
+    code: jsonRpcCode,
+    message: jsonRpcCode === E_INVALID_PARAMS ? 'Invalid params' : 'Internal error',
+    data,
+  };
+}
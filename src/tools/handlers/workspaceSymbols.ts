@@ -12,6 +12,8 @@ import type { JsonRpcErrorObject } from '../../mcp/jsonrpc.js';
 import type { Logger } from '../../logging/redact.js';
 import { canonicalizeFileUri, isRealPathAllowed } from '../../workspace/uri.js';
 import { allowCacheWrite, type CacheWriteGuard, type ToolRuntime } from '../runtime/toolRuntime.js';
+import { raceCancellation } from '../runtime/cancellation.js';
+import type { ProgressReporter } from '../runtime/progress.js';
 import { stableIdFromCanonicalString } from '../ids.js';
 import { canonicalDedupeKey, compareWorkspaceSymbols, dedupeSortedByKey } from '../sorting.js';
 import {
@@ -58,6 +60,9 @@ export type WorkspaceSymbolsDeps = Readonly<{
   maxItemsPerPage: number;
   toolRuntime: ToolRuntime;
   cacheWriteGuard?: CacheWriteGuard;
+  cancellationToken?: vscode.CancellationToken;
+  /** Stage updates while the full symbol set is built (only when the client asked). */
+  reportProgress?: ProgressReporter;
   traceLogger?: Logger;
 }>;
 
@@ -112,53 +117,79 @@ export async function handleWorkspaceSymbols(
   } else if (cached) {
     deduped = cached;
   } else {
-    const computed = await deps.toolRuntime.singleflight(snapshotKey, async () => {
-      const stats = createWorkspaceSymbolsStats();
-      let raw: unknown;
-      try {
-        raw = await vscode.commands.executeCommand(
-          'vscode.executeWorkspaceSymbolProvider',
-          normalizedQuery,
+    const shared = await deps.toolRuntime.singleflightCancellable(
+      snapshotKey,
+      async (token, report) => {
+        const stats = createWorkspaceSymbolsStats();
+        report('Running workspace symbol provider.');
+        let raw: unknown;
+        try {
+          const executed = await raceCancellation(
+            vscode.commands.executeCommand(
+              'vscode.executeWorkspaceSymbolProvider',
+              normalizedQuery,
+            ),
+            token,
+          );
+          if (executed.cancelled) {
+            return {
+              ok: false as const,
+              error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED'),
+            };
+          }
+          raw = executed.value;
+        } catch {
+          return {
+            ok: false as const,
+            error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
+          };
+        }
+
+        const normalized = await normalizeWorkspaceSymbols(
+          raw,
+          deps.allowedRootsRealpaths,
+          undefined,
+          stats,
         );
-      } catch {
-        return {
-          ok: false as const,
-          error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE'),
-        };
-      }
-
-      const normalized = await normalizeWorkspaceSymbols(
-        raw,
-        deps.allowedRootsRealpaths,
-        undefined,
-        stats,
-      );
-      normalized.sort(compareWorkspaceSymbols);
-      const nextDeduped = dedupeSortedByKey(normalized, canonicalDedupeKey);
-
-      const capError = checkWorkspaceSymbolsTotalCap(nextDeduped.length);
-      if (capError) return { ok: false as const, error: capError };
-
-      if (allowCacheWrite(deps.cacheWriteGuard)) {
-        const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextDeduped);
-        if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
-      }
-
-      if (deps.traceLogger) {
-        deps.traceLogger.info('workspaceSymbols.stats', {
-          queryLength: normalizedQuery.length,
-          cursorPresent: false,
-          pageSize,
-          providerCount: stats.providerCount,
-          inRootCount: stats.inRootCount,
-          droppedOutOfRootCount: stats.droppedOutOfRootCount,
-          droppedInvalidCount: stats.droppedInvalidCount,
-        });
-      }
-
-      return { ok: true as const, value: nextDeduped, stats };
-    });
-
+        report(
+          `Canonicalized ${stats.providerCount} provider symbols: kept ${stats.inRootCount}, ` +
+            `dropped ${stats.droppedOutOfRootCount} out of root and ${stats.droppedInvalidCount} invalid.`,
+        );
+        normalized.sort(compareWorkspaceSymbols);
+        const nextDeduped = dedupeSortedByKey(normalized, canonicalDedupeKey);
+        report(`Sorted and deduplicated to ${nextDeduped.length} workspace symbols.`);
+
+        const capError = checkWorkspaceSymbolsTotalCap(nextDeduped.length);
+        if (capError) return { ok: false as const, error: capError };
+
+        if (allowCacheWrite(deps.cacheWriteGuard)) {
+          const stored = deps.toolRuntime.pagedFullSetCache.set(snapshotKey, nextDeduped);
+          if (!stored.stored) return { ok: false as const, error: snapshotTooLargeError() };
+          report(`Cached ${nextDeduped.length} workspace symbols for paging.`);
+        }
+
+        if (deps.traceLogger) {
+          deps.traceLogger.info('workspaceSymbols.stats', {
+            queryLength: normalizedQuery.length,
+            cursorPresent: false,
+            pageSize,
+            providerCount: stats.providerCount,
+            inRootCount: stats.inRootCount,
+            droppedOutOfRootCount: stats.droppedOutOfRootCount,
+            droppedInvalidCount: stats.droppedInvalidCount,
+          });
+        }
+
+        return { ok: true as const, value: nextDeduped, stats };
+      },
+      deps.cancellationToken,
+      deps.reportProgress,
+    );
+
+    if (shared.cancelled) {
+      return { ok: false, error: toolError(E_INTERNAL, 'MCP_LSP_GATEWAY/CANCELLED') };
+    }
+    const computed = shared.value;
     if (!computed.ok) return { ok: false, error: computed.error };
     deduped = computed.value;
   }
@@ -252,19 +283,10 @@ async function normalizeOneSymbol(
       : undefined;
 
   const canonLocation = loc.value;
-  const canonicalString = [
-    canonLocation.uri,
-    name,
-    kind,
-    rangeKey(canonLocation.range.start),
-    rangeKey(canonLocation.range.end),
-    containerName ?? '',
-  ].join('|');
-
   return {
     kind: 'ok',
     symbol: {
-      id: stableIdFromCanonicalString(canonicalString),
+      id: workspaceSymbolId(canonLocation, name, kind, containerName),
       name,
       kind,
       location: canonLocation,
@@ -273,6 +295,24 @@ async function normalizeOneSymbol(
   };
 }
 
+/** Stable id of a workspace symbol (also used to resolve `lsp-symbol:` resource URIs). */
+export function workspaceSymbolId(
+  location: ContractLocation,
+  name: string,
+  kind: number,
+  containerName: string | undefined,
+): string {
+  const canonicalString = [
+    location.uri,
+    name,
+    kind,
+    rangeKey(location.range.start),
+    rangeKey(location.range.end),
+    containerName ?? '',
+  ].join('|');
+  return stableIdFromCanonicalString(canonicalString);
+}
+
 type CanonicalizeLocationResult =
   | Readonly<{ ok: true; value: ContractLocation }>
   | Readonly<{ ok: false; reason: 'out-of-root' | 'invalid' }>;
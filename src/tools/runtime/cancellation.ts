@@ -0,0 +1,87 @@
+// src/tools/runtime/cancellation.ts
+//
+// Request cancellation plumbing (notifications/cancelled).
+// - Tokens are structurally vscode.CancellationToken, but this module has no runtime vscode
+//   dependency so ToolRuntime stays loadable outside the extension host
+// - VS Code's built-in provider commands take no token: raceCancellation stops *waiting* on them,
+//   the provider itself may still finish in the background (its result is then discarded)
+
+import type { CancellationToken, Disposable } from 'vscode';
+
+export type Cancellable<T> =
+  | Readonly<{ cancelled: true }>
+  | Readonly<{ cancelled: false; value: T }>;
+
+export type CancellationSource = Readonly<{
+  token: CancellationToken;
+  /** Request cancellation; idempotent. Listeners run once, synchronously. */
+  cancel: () => void;
+}>;
+
+export function createCancellationSource(): CancellationSource {
+  let cancelled = false;
+  const listeners = new Set<(e: unknown) => void>();
+
+  const token: CancellationToken = {
+    get isCancellationRequested() {
+      return cancelled;
+    },
+    onCancellationRequested: (listener, thisArgs?: unknown, disposables?: Disposable[]) => {
+      const bound = (e: unknown): void => {
+        listener.call(thisArgs, e);
+      };
+      if (cancelled) {
+        bound(undefined);
+        return { dispose: () => undefined };
+      }
+      listeners.add(bound);
+      const disposable = { dispose: () => void listeners.delete(bound) };
+      disposables?.push(disposable);
+      return disposable;
+    },
+  };
+
+  return {
+    token,
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      for (const listener of [...listeners]) {
+        listeners.delete(listener);
+        try {
+          listener(undefined);
+        } catch {
+          // Listener failures must not affect other listeners.
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Settle with the promise's value, or `{cancelled: true}` as soon as `token` is cancelled.
+ * Rejections of `promise` propagate unchanged (callers keep their provider error handling).
+ */
+export async function raceCancellation<T>(
+  promise: PromiseLike<T>,
+  token: CancellationToken | undefined,
+): Promise<Cancellable<T>> {
+  if (!token) return { cancelled: false, value: await promise };
+  if (token.isCancellationRequested) {
+    // Still observe the promise so a late rejection is not reported as unhandled.
+    Promise.resolve(promise).catch(() => undefined);
+    return { cancelled: true };
+  }
+
+  let subscription: Disposable | undefined;
+  const cancelled = new Promise<Cancellable<T>>((resolve) => {
+    subscription = token.onCancellationRequested(() => resolve({ cancelled: true }));
+  });
+  const settled = Promise.resolve(promise).then((value) => ({ cancelled: false as const, value }));
+  settled.catch(() => undefined);
+  try {
+    return await Promise.race([settled, cancelled]);
+  } finally {
+    subscription?.dispose();
+  }
+}
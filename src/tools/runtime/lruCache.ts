@@ -7,12 +7,19 @@ type CacheEntry<T> = Readonly<{
   expiresAt?: number;
 }>;
 
+export type CacheEvictionReason = 'capacity' | 'expired';
+
 export type LruCacheOptions<T> = Readonly<{
   perEntryCapBytes: number;
   totalCapBytes: number;
   ttlMs: number;
   now?: () => number;
   sizeOf?: (value: T) => number;
+  /**
+   * Called once per eviction pass that dropped entries (TTL expiry or the byte cap), with the
+   * number dropped. Not called for overwrites, rejected sets, or clear().
+   */
+  onEvict?: (evicted: number, reason: CacheEvictionReason) => void;
 }>;
 
 export type LruCacheSetResult = Readonly<{ stored: boolean; sizeBytes: number }>;
@@ -25,6 +32,7 @@ export class LruCache<K, V> {
   private readonly ttlMs: number;
   private readonly now: () => number;
   private readonly sizeOf: (value: V) => number;
+  private readonly onEvict: ((evicted: number, reason: CacheEvictionReason) => void) | undefined;
 
   public constructor(opts: LruCacheOptions<V>) {
     this.perEntryCapBytes = Math.max(0, Math.floor(opts.perEntryCapBytes));
@@ -32,6 +40,7 @@ export class LruCache<K, V> {
     this.ttlMs = Math.max(0, Math.floor(opts.ttlMs));
     this.now = opts.now ?? Date.now;
     this.sizeOf = opts.sizeOf ?? defaultSizeOf;
+    this.onEvict = opts.onEvict;
   }
 
   public get size(): number {
@@ -48,6 +57,7 @@ export class LruCache<K, V> {
     if (!entry) return undefined;
     if (isExpired(entry, now)) {
       this.deleteEntry(key, entry);
+      this.notifyEvicted(1, 'expired');
       return undefined;
     }
     this.touch(key, entry);
@@ -101,17 +111,33 @@ export class LruCache<K, V> {
   }
 
   private evictExpired(now: number): void {
+    let evicted = 0;
     for (const [key, entry] of this.entries.entries()) {
-      if (isExpired(entry, now)) this.deleteEntry(key, entry);
+      if (!isExpired(entry, now)) continue;
+      this.deleteEntry(key, entry);
+      evicted += 1;
     }
+    this.notifyEvicted(evicted, 'expired');
   }
 
   private evictToCapacity(): void {
+    let evicted = 0;
     while (this.totalBytes > this.totalCapBytes && this.entries.size > 0) {
       const first = this.entries.entries().next();
       if (first.done) break;
       const [key, entry] = first.value;
       this.deleteEntry(key, entry);
+      evicted += 1;
+    }
+    this.notifyEvicted(evicted, 'capacity');
+  }
+
+  private notifyEvicted(evicted: number, reason: CacheEvictionReason): void {
+    if (evicted === 0 || !this.onEvict) return;
+    try {
+      this.onEvict(evicted, reason);
+    } catch {
+      // Eviction listeners must not affect cache operations.
     }
   }
 }
@@ -0,0 +1,38 @@
+// src/tools/runtime/progress.ts
+//
+// Stage progress for slow snapshot builds (notifications/progress).
+// - Handlers report short, count-bearing stage messages; they never see the progress token
+// - The transport decides whether (and when) those messages reach the client
+// - Messages reported before the response is upgraded to an event stream are buffered (bounded)
+
+/** Report one build stage (single line, no paths or symbol names). */
+export type ProgressReporter = (message: string) => void;
+
+export type ProgressRelay = Readonly<{
+  report: ProgressReporter;
+  /** Deliver buffered messages to `sink`, then forward later ones as they are reported. */
+  attach: (sink: ProgressReporter) => void;
+}>;
+
+// A snapshot build reports a handful of stages; older ones are dropped beyond this.
+const MAX_BUFFERED_MESSAGES = 16;
+
+export function createProgressRelay(): ProgressRelay {
+  const buffered: string[] = [];
+  let sink: ProgressReporter | undefined;
+
+  return {
+    report: (message) => {
+      if (sink) {
+        sink(message);
+        return;
+      }
+      buffered.push(message);
+      if (buffered.length > MAX_BUFFERED_MESSAGES) buffered.shift();
+    },
+    attach: (next) => {
+      sink = next;
+      for (const message of buffered.splice(0)) next(message);
+    },
+  };
+}
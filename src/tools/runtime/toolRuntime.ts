@@ -1,5 +1,13 @@
 import { createHash } from 'node:crypto';
-import { LruCache } from './lruCache.js';
+import type { CancellationToken } from 'vscode';
+import {
+  createCancellationSource,
+  raceCancellation,
+  type Cancellable,
+  type CancellationSource,
+} from './cancellation.js';
+import { LruCache, type CacheEvictionReason } from './lruCache.js';
+import type { ProgressReporter } from './progress.js';
 import { formatEpochTupleString } from '../paging/cursor.js';
 import { stableJsonStringify } from '../../util/stableStringify.js';
 
@@ -25,9 +33,29 @@ export function allowCacheWrite(guard: CacheWriteGuard | undefined): boolean {
   return guard ? guard.isActive() : true;
 }
 
+type InFlightEntry = {
+  promise: Promise<unknown>;
+  source: CancellationSource;
+  /** Callers still waiting; the shared work is cancelled when this drops to 0. */
+  waiters: number;
+  /** Progress sinks of the callers still waiting; every stage message goes to each of them. */
+  reporters: Set<ProgressReporter>;
+};
+
+/** Entries dropped from one cache (`pagedFullSet`, or the tool name of an unpaged cache). */
+export type CacheEvictionEvent = Readonly<{
+  cache: string;
+  evicted: number;
+  reason: CacheEvictionReason;
+}>;
+
+/** Shared work; `report` forwards stage messages to every caller currently waiting on it. */
+export type SharedWork<T> = (token: CancellationToken, report: ProgressReporter) => Promise<T>;
+
 export class ToolRuntime {
-  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private readonly inFlight = new Map<string, InFlightEntry>();
   private readonly unpagedCaches = new Map<string, LruCache<string, unknown>>();
+  private readonly cacheEvictionListeners = new Set<(event: CacheEvictionEvent) => void>();
   private textEpoch = 0;
   private fsEpoch = 0;
   private diagnosticsEpoch = 0;
@@ -39,21 +67,90 @@ export class ToolRuntime {
     perEntryCapBytes: PAGED_FULL_SET_PER_ENTRY_CAP_BYTES,
     totalCapBytes: PAGED_FULL_SET_TOTAL_CAP_BYTES,
     ttlMs: PAGED_FULL_SET_TTL_MS,
+    onEvict: (evicted, reason) =>
+      this.notifyCacheEvicted({ cache: 'pagedFullSet', evicted, reason }),
   });
 
-  public async singleflight<T>(key: string, fn: () => Promise<T>): Promise<T> {
-    const existing = this.inFlight.get(key) as Promise<T> | undefined;
-    if (existing) return existing;
+  /** Listen for cache evictions (TTL expiry or byte caps); listeners are dropped on dispose. */
+  public onCacheEvicted(listener: (event: CacheEvictionEvent) => void): { dispose: () => void } {
+    this.cacheEvictionListeners.add(listener);
+    return { dispose: () => this.cacheEvictionListeners.delete(listener) };
+  }
+
+  private notifyCacheEvicted(event: CacheEvictionEvent): void {
+    for (const listener of [...this.cacheEvictionListeners]) listener(event);
+  }
+
+  public async singleflight<T>(
+    key: string,
+    fn: SharedWork<T>,
+    reportProgress?: ProgressReporter,
+  ): Promise<T> {
+    const entry = this.joinInFlight(key, fn, reportProgress);
+    try {
+      return (await entry.promise) as T;
+    } finally {
+      if (reportProgress) entry.reporters.delete(reportProgress);
+    }
+  }
+
+  /**
+   * Like singleflight, but the caller stops waiting once `token` is cancelled. The shared work is
+   * only cancelled (and dropped from the in-flight map, so later callers start fresh) after every
+   * waiter has cancelled; one caller's cancellation never changes another caller's result.
+   */
+  public async singleflightCancellable<T>(
+    key: string,
+    fn: SharedWork<T>,
+    token: CancellationToken | undefined,
+    reportProgress?: ProgressReporter,
+  ): Promise<Cancellable<T>> {
+    const entry = this.joinInFlight(key, fn, reportProgress);
+    try {
+      const raced = await raceCancellation(entry.promise as Promise<T>, token);
+      if (raced.cancelled) this.leaveInFlight(key, entry);
+      return raced;
+    } finally {
+      if (reportProgress) entry.reporters.delete(reportProgress);
+    }
+  }
+
+  private joinInFlight<T>(
+    key: string,
+    fn: SharedWork<T>,
+    reportProgress: ProgressReporter | undefined,
+  ): InFlightEntry {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      existing.waiters += 1;
+      if (reportProgress) existing.reporters.add(reportProgress);
+      return existing;
+    }
 
-    const pending = Promise.resolve()
-      .then(fn)
+    const source = createCancellationSource();
+    const entry: InFlightEntry = {
+      promise: Promise.resolve(),
+      source,
+      waiters: 1,
+      reporters: new Set(reportProgress ? [reportProgress] : []),
+    };
+    const report: ProgressReporter = (message) => {
+      for (const reporter of [...entry.reporters]) reporter(message);
+    };
+    entry.promise = Promise.resolve()
+      .then(() => fn(source.token, report))
       .finally(() => {
-        const current = this.inFlight.get(key);
-        if (current === pending) this.inFlight.delete(key);
+        if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
       });
+    this.inFlight.set(key, entry);
+    return entry;
+  }
 
-    this.inFlight.set(key, pending);
-    return pending;
+  private leaveInFlight(key: string, entry: InFlightEntry): void {
+    entry.waiters -= 1;
+    if (entry.waiters > 0) return;
+    if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+    entry.source.cancel();
   }
 
   public getUnpagedCache(toolName: string): LruCache<string, unknown> {
@@ -63,6 +160,7 @@ export class ToolRuntime {
       perEntryCapBytes: UNPAGED_PER_ENTRY_CAP_BYTES,
       totalCapBytes: UNPAGED_TOTAL_CAP_BYTES,
       ttlMs: 0,
+      onEvict: (evicted, reason) => this.notifyCacheEvicted({ cache: toolName, evicted, reason }),
     });
     this.unpagedCaches.set(toolName, cache);
     return cache;
@@ -72,12 +170,14 @@ export class ToolRuntime {
     this.disposed = true;
     this.textEpochPending = false;
     this.diagnosticsEpochPending = false;
+    for (const entry of this.inFlight.values()) entry.source.cancel();
     this.inFlight.clear();
     this.pagedFullSetCache.clear();
     for (const cache of this.unpagedCaches.values()) {
       cache.clear();
     }
     this.unpagedCaches.clear();
+    this.cacheEvictionListeners.clear();
   }
 
   public bumpTextEpoch(): void {
@@ -132,10 +232,23 @@ type EpochMask = Readonly<{ text: boolean; fs: boolean; diagnostics: boolean }>;
 function epochsForTool(toolName: string): EpochMask {
   switch (toolName) {
     case 'vscode_lsp_references':
+    case 'vscode_lsp_implementation':
+    case 'vscode_lsp_callHierarchy':
+    case 'vscode_lsp_typeHierarchy':
+    case 'vscode_lsp_renamePreview':
+    case 'vscode_lsp_semanticTokens':
     case 'vscode_lsp_workspaceSymbols':
       return { text: true, fs: true, diagnostics: false };
     case 'vscode_lsp_diagnostics_workspace':
       return { text: false, fs: true, diagnostics: true };
+    // The file set only changes with creates, deletes, and renames.
+    case 'resources/list':
+      return { text: false, fs: true, diagnostics: false };
+    case 'vscode_lsp_completions':
+    case 'vscode_lsp_documentHighlights':
+    case 'vscode_lsp_foldingRanges':
+    case 'vscode_lsp_selectionRanges':
+      return { text: true, fs: false, diagnostics: false };
     default:
       return { text: true, fs: true, diagnostics: true };
   }
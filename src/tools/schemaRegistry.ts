@@ -2,12 +2,15 @@
 //
 // Loads tool input JSON Schemas from `schemas/tools/**`, compiles them with Ajv exactly once,
 // loads tool output JSON Schemas for tools/list, and provides deterministic validation results
-// for MCP tools/call.
+// for MCP tools/call. Prompt argument schemas (`schemas/prompts/**`) are loaded the same way for
+// prompts/list and prompts/get.
 //
 // Conventions (v1):
 // - One input schema file per tool, named: `schemas/tools/<toolName>.json`
 //   Example: `schemas/tools/vscode_lsp_definition.json`
 // - One output schema file per tool, named: `schemas/tools/<toolName>.output.json`
+// - One arguments schema per prompt, named: `schemas/prompts/<promptName>.json`
+//   (prompt arguments are strings per MCP, so every property MUST be `type: "string"`)
 // - Root schema MUST be an object schema and MUST set `additionalProperties: false`.
 //
 // Validation behavior (v1):
@@ -29,8 +32,10 @@ const Ajv2020 = Ajv2020Import as unknown as new (opts?: Options) => {
 
 import type { JsonRpcErrorObject } from '../mcp/jsonrpc.js';
 import { V1_TOOL_NAMES, type V1ToolName, type JsonSchemaObject, isV1ToolName } from './catalog.js';
+import { V1_PROMPT_NAMES, type V1PromptName, isV1PromptName } from '../prompts/catalog.js';
 
 export const TOOL_SCHEMA_DIR = path.join('schemas', 'tools');
+export const PROMPT_SCHEMA_DIR = path.join('schemas', 'prompts');
 
 export const ERROR_CODE_INVALID_PARAMS = 'MCP_LSP_GATEWAY/INVALID_PARAMS' as const;
 export const ERROR_CODE_PROVIDER_UNAVAILABLE = 'MCP_LSP_GATEWAY/PROVIDER_UNAVAILABLE' as const;
@@ -106,15 +111,48 @@ export class SchemaRegistry {
       validateByTool.set(toolName, validate);
     }
 
-    return Promise.resolve(new SchemaRegistry(schemaByTool, outputSchemaByTool, validateByTool));
+    const schemaByPrompt = new Map<V1PromptName, JsonSchemaObject>();
+    const validateByPrompt = new Map<V1PromptName, ValidateFunction>();
+
+    for (const promptName of V1_PROMPT_NAMES) {
+      const absPath = context.asAbsolutePath(path.join(PROMPT_SCHEMA_DIR, `${promptName}.json`));
+
+      // Fail closed: every v1 prompt must have an arguments schema file.
+      if (!fs.existsSync(absPath) || !fs.statSync(absPath).isFile()) {
+        throw new Error(`Missing prompt arguments schema file for "${promptName}": ${absPath}`);
+      }
+
+      const schema = safeParseJson(fs.readFileSync(absPath, 'utf8'), absPath);
+      assertPromptSchemaInvariants(promptName, schema);
+      schemaByPrompt.set(promptName, schema);
+      validateByPrompt.set(promptName, ajv.compile(schema));
+    }
+
+    return Promise.resolve(
+      new SchemaRegistry(
+        schemaByTool,
+        outputSchemaByTool,
+        validateByTool,
+        schemaByPrompt,
+        validateByPrompt,
+      ),
+    );
   }
 
   private constructor(
     private readonly schemaByTool: Map<V1ToolName, JsonSchemaObject>,
     private readonly outputSchemaByTool: Map<V1ToolName, JsonSchemaObject>,
     private readonly validateByTool: Map<V1ToolName, ValidateFunction>,
+    private readonly schemaByPrompt: Map<V1PromptName, JsonSchemaObject>,
+    private readonly validateByPrompt: Map<V1PromptName, ValidateFunction>,
   ) {}
 
+  public getPromptArgumentsSchema(promptName: V1PromptName): JsonSchemaObject {
+    const schema = this.schemaByPrompt.get(promptName);
+    if (!schema) throw new Error(`Arguments schema not loaded for prompt: ${promptName}`);
+    return schema;
+  }
+
   public getInputSchema(toolName: V1ToolName): JsonSchemaObject {
     const schema = this.schemaByTool.get(toolName);
     if (!schema) throw new Error(`Schema not loaded for tool: ${toolName}`);
@@ -188,6 +226,46 @@ export class SchemaRegistry {
       },
     };
   }
+
+  /**
+   * Validate prompts/get arguments deterministically (same rules as `validateInput`).
+   *
+   * Error data carries `prompt` instead of `tool`.
+   */
+  public validatePromptArguments(promptName: string, args: unknown): ValidateInputResult {
+    const safePrompt = normalizeToolName(promptName);
+    const validate = isV1PromptName(promptName) ? this.validateByPrompt.get(promptName) : undefined;
+    if (!validate) {
+      return {
+        ok: false,
+        error: {
+          code: -32602,
+          message: 'Invalid params',
+          data: {
+            code: ERROR_CODE_INVALID_PARAMS,
+            ...(safePrompt ? { prompt: safePrompt } : {}),
+          },
+        },
+      };
+    }
+
+    if (validate(args)) {
+      return { ok: true, value: args };
+    }
+
+    return {
+      ok: false,
+      error: {
+        code: -32602,
+        message: 'Invalid params',
+        data: {
+          code: ERROR_CODE_INVALID_PARAMS,
+          ...(safePrompt ? { prompt: safePrompt } : {}),
+          issues: formatAjvErrors(validate.errors),
+        },
+      },
+    };
+  }
 }
 
 function safeParseJson(raw: string, absPath: string): JsonSchemaObject {
@@ -222,6 +300,28 @@ function assertRootSchemaInvariants(
   }
 }
 
+function assertPromptSchemaInvariants(promptName: V1PromptName, schema: JsonSchemaObject): void {
+  if (schema['type'] !== 'object') {
+    throw new Error(`Prompt arguments schema root must have type "object" (${promptName}).`);
+  }
+  if (schema['additionalProperties'] !== false) {
+    throw new Error(
+      `Prompt arguments schema root must set additionalProperties: false (${promptName}).`,
+    );
+  }
+
+  // MCP prompt arguments are string-valued.
+  const properties = schema['properties'];
+  if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+    throw new Error(`Prompt arguments schema must declare properties (${promptName}).`);
+  }
+  for (const [name, property] of Object.entries(properties as Record<string, unknown>)) {
+    if ((property as JsonSchemaObject | null)?.['type'] !== 'string') {
+      throw new Error(`Prompt argument "${name}" must have type "string" (${promptName}).`);
+    }
+  }
+}
+
 type AjvIssue = Readonly<{
   path: string;
   keyword: string;
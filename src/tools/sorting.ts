@@ -98,13 +98,13 @@ export function canonicalDedupeKey(value: unknown): string {
   return stableJsonStringify(value);
 }
 
-function compareRanges(a: ContractRange, b: ContractRange): number {
+export function compareRanges(a: ContractRange, b: ContractRange): number {
   const s = comparePositions(a.start, b.start);
   if (s !== 0) return s;
   return comparePositions(a.end, b.end);
 }
 
-function comparePositions(a: ContractPosition, b: ContractPosition): number {
+export function comparePositions(a: ContractPosition, b: ContractPosition): number {
   if (a.line !== b.line) return a.line - b.line;
   if (a.character !== b.character) return a.character - b.character;
   return 0;
@@ -8,6 +8,18 @@ const DEFAULT_MAX_FRAGMENTS = 8;
 const DEFAULT_MAX_FRAGMENT_CODEPOINTS = 8192;
 
 type HoverContent = Readonly<{ kind: 'markdown' | 'plaintext'; value: string }>;
+type Documentation = HoverContent;
+type SignatureParameter = Readonly<{ documentation?: Documentation } & Record<string, unknown>>;
+type Signature = Readonly<
+  { documentation?: Documentation; parameters: readonly SignatureParameter[] } & Record<
+    string,
+    unknown
+  >
+>;
+type InlayHint = Readonly<{ label: string } & Record<string, unknown>>;
+/** Location of one documentation string: signature index plus parameter index (-1 = signature). */
+type DocSlot = Readonly<{ sig: number; param: number }>;
+
 export function truncateHoverToolCallResult(
   result: ToolCallResult,
   maxResponseBytes: number,
@@ -88,6 +100,275 @@ export function truncateHoverToolCallResult(
   return { result: candidate, truncated };
 }
 
+/**
+ * Signature help counterpart of `truncateHoverToolCallResult`.
+ *
+ * Documentation strings are visited in output order (each signature's own documentation, then its
+ * parameters'). Each is first clamped to `maxFragmentCodepoints`; if the response still exceeds
+ * `maxResponseBytes`, documentation is trimmed from the last string backwards, binary-searching the
+ * longest prefix that fits and emptying earlier strings only when a prefix cannot fit.
+ */
+export function truncateSignatureHelpToolCallResult(
+  result: ToolCallResult,
+  maxResponseBytes: number,
+  measureJsonRpcBytes: (candidate: ToolCallResult) => number,
+  opts: Readonly<{ maxFragmentCodepoints?: number }> = {},
+): Readonly<{ result: ToolCallResult; truncated: boolean }> {
+  if (result.isError) return { result, truncated: false };
+
+  const structured = result.structuredContent;
+  if (!structured || typeof structured !== 'object' || Array.isArray(structured)) {
+    return { result, truncated: false };
+  }
+
+  const rec = structured as Record<string, unknown>;
+  const signatures = normalizeSignatures(rec.signatures);
+  if (!signatures) return { result, truncated: false };
+
+  const maxFragmentCodepoints = opts.maxFragmentCodepoints ?? DEFAULT_MAX_FRAGMENT_CODEPOINTS;
+
+  const slots: DocSlot[] = [];
+  const values: string[] = [];
+  signatures.forEach((sig, sigIndex) => {
+    if (sig.documentation) {
+      slots.push({ sig: sigIndex, param: -1 });
+      values.push(sig.documentation.value);
+    }
+    sig.parameters.forEach((param, paramIndex) => {
+      if (param.documentation) {
+        slots.push({ sig: sigIndex, param: paramIndex });
+        values.push(param.documentation.value);
+      }
+    });
+  });
+
+  let truncated = false;
+  const nextValues = values.map((value) => {
+    const clamped = clampCodepoints(value, maxFragmentCodepoints);
+    if (clamped !== value) truncated = true;
+    return clamped;
+  });
+
+  const build = (docValues: readonly string[], isTruncated: boolean): ToolCallResult =>
+    buildSignatureHelpResult(
+      result,
+      rec,
+      applyDocValues(signatures, slots, docValues),
+      isTruncated,
+    );
+
+  let candidate = build(nextValues, truncated);
+  if (!shouldEnforceBytes(maxResponseBytes)) {
+    return { result: candidate, truncated };
+  }
+
+  const cap = Math.floor(maxResponseBytes);
+  if (measureJsonRpcBytes(candidate) <= cap) {
+    return { result: candidate, truncated };
+  }
+
+  const fitted = trimValuesToFit(nextValues, build, measureJsonRpcBytes, cap);
+  candidate = build(fitted, true);
+  return { result: candidate, truncated: true };
+}
+
+/**
+ * Inlay hints counterpart of `truncateHoverToolCallResult`.
+ *
+ * Each hint label is clamped to `maxFragmentCodepoints`; if the response still exceeds
+ * `maxResponseBytes`, labels are trimmed from the last hint backwards (same rule as signature
+ * help documentation). Positions, kinds, and padding flags are never altered.
+ */
+export function truncateInlayHintsToolCallResult(
+  result: ToolCallResult,
+  maxResponseBytes: number,
+  measureJsonRpcBytes: (candidate: ToolCallResult) => number,
+  opts: Readonly<{ maxFragmentCodepoints?: number }> = {},
+): Readonly<{ result: ToolCallResult; truncated: boolean }> {
+  if (result.isError) return { result, truncated: false };
+
+  const structured = result.structuredContent;
+  if (!structured || typeof structured !== 'object' || Array.isArray(structured)) {
+    return { result, truncated: false };
+  }
+
+  const rec = structured as Record<string, unknown>;
+  const hints = normalizeInlayHints(rec.hints);
+  if (!hints) return { result, truncated: false };
+
+  const maxFragmentCodepoints = opts.maxFragmentCodepoints ?? DEFAULT_MAX_FRAGMENT_CODEPOINTS;
+
+  let truncated = false;
+  const nextValues = hints.map((hint) => {
+    const clamped = clampCodepoints(hint.label, maxFragmentCodepoints);
+    if (clamped !== hint.label) truncated = true;
+    return clamped;
+  });
+
+  const build = (labels: readonly string[], isTruncated: boolean): ToolCallResult =>
+    buildInlayHintsResult(
+      result,
+      rec,
+      hints.map((hint, index) => ({ ...hint, label: labels[index] ?? '' })),
+      isTruncated,
+    );
+
+  let candidate = build(nextValues, truncated);
+  if (!shouldEnforceBytes(maxResponseBytes)) {
+    return { result: candidate, truncated };
+  }
+
+  const cap = Math.floor(maxResponseBytes);
+  if (measureJsonRpcBytes(candidate) <= cap) {
+    return { result: candidate, truncated };
+  }
+
+  const fitted = trimValuesToFit(nextValues, build, measureJsonRpcBytes, cap);
+  candidate = build(fitted, true);
+  return { result: candidate, truncated: true };
+}
+
+/**
+ * Trim string slots from the last one backwards until `build(values)` fits within `cap` bytes.
+ * Each slot keeps the longest codepoint prefix that fits (binary search); a slot is emptied only
+ * when no prefix of it can fit, and then the previous slot is considered.
+ */
+function trimValuesToFit(
+  values: readonly string[],
+  build: (values: readonly string[], truncated: boolean) => ToolCallResult,
+  measureJsonRpcBytes: (candidate: ToolCallResult) => number,
+  cap: number,
+): string[] {
+  const nextValues = values.slice(0);
+  for (let slotIndex = nextValues.length - 1; slotIndex >= 0; slotIndex -= 1) {
+    const codepoints = Array.from(nextValues[slotIndex]!);
+
+    let lo = 0;
+    let hi = codepoints.length;
+    let best = -1;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const adjusted = nextValues.slice(0);
+      adjusted[slotIndex] = codepoints.slice(0, mid).join('');
+      if (measureJsonRpcBytes(build(adjusted, true)) <= cap) {
+        best = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    if (best >= 0) {
+      nextValues[slotIndex] = codepoints.slice(0, best).join('');
+      break;
+    }
+    nextValues[slotIndex] = '';
+  }
+  return nextValues;
+}
+
+function normalizeSignatures(raw: unknown): Signature[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const out: Signature[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') return undefined;
+    const rec = item as Record<string, unknown>;
+    if (!Array.isArray(rec.parameters)) return undefined;
+    if (rec.documentation !== undefined && !isDocumentation(rec.documentation)) return undefined;
+    for (const param of rec.parameters) {
+      if (!param || typeof param !== 'object') return undefined;
+      const doc = (param as Record<string, unknown>).documentation;
+      if (doc !== undefined && !isDocumentation(doc)) return undefined;
+    }
+    out.push(rec as Signature);
+  }
+  return out;
+}
+
+function isDocumentation(v: unknown): v is Documentation {
+  if (!v || typeof v !== 'object') return false;
+  const rec = v as Record<string, unknown>;
+  return (rec.kind === 'markdown' || rec.kind === 'plaintext') && typeof rec.value === 'string';
+}
+
+function applyDocValues(
+  signatures: readonly Signature[],
+  slots: readonly DocSlot[],
+  values: readonly string[],
+): Signature[] {
+  const out = signatures.map((sig) => ({ ...sig, parameters: sig.parameters.slice(0) }));
+  slots.forEach((slot, index) => {
+    const sig = out[slot.sig]!;
+    const value = values[index] ?? '';
+    if (slot.param < 0) {
+      out[slot.sig] = { ...sig, documentation: { kind: sig.documentation!.kind, value } };
+      return;
+    }
+    const param = sig.parameters[slot.param]!;
+    sig.parameters[slot.param] = {
+      ...param,
+      documentation: { kind: param.documentation!.kind, value },
+    };
+  });
+  return out;
+}
+
+function buildSignatureHelpResult(
+  base: ToolCallResult,
+  structured: Record<string, unknown>,
+  signatures: readonly Signature[],
+  truncated: boolean,
+): ToolCallResult {
+  const summary = truncated
+    ? withTruncationSummary(structured.summary, 'Signature help truncated.')
+    : structured.summary;
+  const structuredContent = {
+    ...structured,
+    signatures,
+    ...(summary ? { summary } : undefined),
+  };
+  const text = typeof summary === 'string' && summary.trim().length > 0 ? summary.trim() : 'OK';
+  return {
+    ...base,
+    structuredContent,
+    content: [{ type: 'text', text }],
+  };
+}
+
+function normalizeInlayHints(raw: unknown): InlayHint[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const out: InlayHint[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') return undefined;
+    const rec = item as Record<string, unknown>;
+    if (typeof rec.label !== 'string') return undefined;
+    out.push(rec as InlayHint);
+  }
+  return out;
+}
+
+function buildInlayHintsResult(
+  base: ToolCallResult,
+  structured: Record<string, unknown>,
+  hints: readonly InlayHint[],
+  truncated: boolean,
+): ToolCallResult {
+  const summary = truncated
+    ? withTruncationSummary(structured.summary, 'Inlay hints truncated.')
+    : structured.summary;
+  const structuredContent = {
+    ...structured,
+    hints,
+    ...(summary ? { summary } : undefined),
+  };
+  const text = typeof summary === 'string' && summary.trim().length > 0 ? summary.trim() : 'OK';
+  return {
+    ...base,
+    structuredContent,
+    content: [{ type: 'text', text }],
+  };
+}
+
 function normalizeHoverContents(raw: unknown[]): HoverContent[] | undefined {
   const out: HoverContent[] = [];
   for (const item of raw) {
@@ -108,7 +389,9 @@ function buildResult(
   contents: readonly HoverContent[],
   truncated: boolean,
 ): ToolCallResult {
-  const summary = truncated ? withTruncationSummary(structured.summary) : structured.summary;
+  const summary = truncated
+    ? withTruncationSummary(structured.summary, 'Hover truncated.')
+    : structured.summary;
   const structuredContent = {
     ...structured,
     contents,
@@ -122,9 +405,9 @@ function buildResult(
   };
 }
 
-function withTruncationSummary(summary: unknown): string {
+function withTruncationSummary(summary: unknown, fallback: string): string {
   const base = typeof summary === 'string' ? summary.trim() : '';
-  if (!base) return 'Hover truncated.';
+  if (!base) return fallback;
   if (base.includes('Truncated')) return base;
   return `${base} (Truncated.)`;
 }
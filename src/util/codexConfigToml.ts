@@ -1,3 +1,5 @@
+import { buildTcpEndpointUrl } from './endpoint.js';
+
 type CodexConfigTomlOptions = Readonly<{
   bindAddress: string;
   port: number;
@@ -5,12 +7,17 @@ type CodexConfigTomlOptions = Readonly<{
   token: string;
 }>;
 
+type CodexStdioBridgeConfigTomlOptions = Readonly<{
+  /** Absolute path to the bundled bridge (dist/bridge/stdio.js). */
+  bridgeScriptPath: string;
+}>;
+
 function escapeTomlString(value: string): string {
   return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
 }
 
 export function buildCodexConfigToml(options: CodexConfigTomlOptions): string {
-  const url = `http://${options.bindAddress}:${options.port}${options.endpointPath}`;
+  const url = buildTcpEndpointUrl(options.bindAddress, options.port, options.endpointPath);
   const token = escapeTomlString(options.token);
   return [
     '# vscode-mcp-lsp-gateway (local-only)',
@@ -24,3 +31,24 @@ export function buildCodexConfigToml(options: CodexConfigTomlOptions): string {
     '',
   ].join('\n');
 }
+
+/**
+ * Stanza for socket-only listening: Codex launches the stdio bridge, which reads the endpoint and
+ * token from the handshake file, so no token is embedded here.
+ */
+export function buildCodexStdioBridgeConfigToml(
+  options: CodexStdioBridgeConfigTomlOptions,
+): string {
+  const script = escapeTomlString(options.bridgeScriptPath);
+  return [
+    '# vscode-mcp-lsp-gateway (local-only, via stdio bridge)',
+    '# Requires mcpLspGateway.enableStdioBridge (handshake file with endpoint and token)',
+    '[mcp_servers.vscode_mcp_lsp_gateway]',
+    'command = "node"',
+    `args = ["${script}"]`,
+    'enabled = true',
+    'startup_timeout_sec = 10',
+    'tool_timeout_sec = 60',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,59 @@
+// src/util/endpoint.ts
+//
+// Endpoint strings shown to users (Copy MCP Endpoint URL, logs) and written to the handshake file.
+// - TCP:    http://127.0.0.1:<port>/mcp
+// - Socket: http+unix://<percent-encoded socket path>/mcp (Unix domain socket or Windows named pipe)
+
+export const SOCKET_ENDPOINT_PROTOCOL = 'http+unix:';
+
+const WINDOWS_PIPE_PREFIX = '\\\\.\\pipe\\';
+// sun_path is 104 bytes on macOS (108 on Linux), including the terminating NUL.
+const MAX_UNIX_SOCKET_PATH_BYTES = 103;
+
+export type SocketEndpoint = Readonly<{ socketPath: string; endpointPath: string }>;
+
+export function buildTcpEndpointUrl(
+  bindAddress: string,
+  port: number,
+  endpointPath: string,
+): string {
+  return `http://${bindAddress}:${port}${endpointPath}`;
+}
+
+export function buildSocketEndpointUrl(socketPath: string, endpointPath: string): string {
+  return `${SOCKET_ENDPOINT_PROTOCOL}//${encodeURIComponent(socketPath)}${endpointPath}`;
+}
+
+export function parseSocketEndpointUrl(endpoint: string): SocketEndpoint | undefined {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== SOCKET_ENDPOINT_PROTOCOL || url.search || url.hash) return undefined;
+  let socketPath: string;
+  try {
+    socketPath = decodeURIComponent(url.hostname);
+  } catch {
+    return undefined;
+  }
+  if (!isValidSocketPath(socketPath)) return undefined;
+  return { socketPath, endpointPath: url.pathname };
+}
+
+/** Absolute Unix socket path (bounded length) or a Windows named pipe (\\.\pipe\<name>). */
+export function isValidSocketPath(socketPath: string): boolean {
+  if (socketPath.includes('\0')) return false;
+  if (socketPath.startsWith(WINDOWS_PIPE_PREFIX)) {
+    return socketPath.length > WINDOWS_PIPE_PREFIX.length && !socketPath.includes('/');
+  }
+  return (
+    socketPath.startsWith('/') &&
+    Buffer.byteLength(socketPath, 'utf8') <= MAX_UNIX_SOCKET_PATH_BYTES
+  );
+}
+
+export function isWindowsPipePath(socketPath: string): boolean {
+  return socketPath.startsWith(WINDOWS_PIPE_PREFIX);
+}
@@ -0,0 +1,179 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { buildCallGraph, handleCallHierarchy } from '../../src/tools/handlers/callHierarchy.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+
+function makeItem(uri: vscode.Uri, name: string, line: number): vscode.CallHierarchyItem {
+  const range = new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 10));
+  return new vscode.CallHierarchyItem(vscode.SymbolKind.Function, name, '', uri, range, range);
+}
+
+function callRange(line: number): vscode.Range {
+  return new vscode.Range(new vscode.Position(line, 2), new vscode.Position(line, 5));
+}
+
+describe('call hierarchy graph', () => {
+  it('walks incoming calls breadth-first with caller-to-callee edges and cycle safety', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-callhierarchy-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'a\nb\nc\n', 'utf8');
+
+    try {
+      const uri = vscode.Uri.file(tempFile);
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const target = makeItem(uri, 'target', 0);
+      const callerB = makeItem(uri, 'callerB', 2);
+      const callerA = makeItem(uri, 'callerA', 1);
+      const outside = makeItem(vscode.Uri.file(path.join(repoRoot, 'package.json')), 'outside', 0);
+
+      const incoming = new Map<string, { peer: unknown; fromRanges: unknown }[]>([
+        [
+          'target',
+          [
+            { peer: callerB, fromRanges: [callRange(2), callRange(2)] },
+            { peer: callerA, fromRanges: [callRange(1)] },
+            { peer: outside, fromRanges: [callRange(0)] },
+          ],
+        ],
+        ['callerA', [{ peer: target, fromRanges: [callRange(0)] }]],
+        ['callerB', []],
+      ]);
+      const expanded: string[] = [];
+
+      const built = await buildCallGraph([target], 'incoming', 2, allowedRootsRealpaths, (item) => {
+        expanded.push(item.name);
+        return Promise.resolve(incoming.get(item.name) ?? []);
+      });
+
+      expect(built.ok).to.equal(true);
+      if (!built.ok) return;
+      const graph = built.value;
+      const nameById = new Map(graph.nodes.map((node) => [node.id, node.name]));
+
+      expect(expanded).to.deep.equal(['target', 'callerA', 'callerB']);
+      expect(graph.nodes.map((node) => node.name)).to.deep.equal(['target', 'callerA', 'callerB']);
+      expect(graph.roots.map((id) => nameById.get(id))).to.deep.equal(['target']);
+      expect(
+        graph.edges.map((edge) => [nameById.get(edge.from), nameById.get(edge.to), edge.depth]),
+      ).to.deep.equal([
+        ['callerA', 'target', 1],
+        ['callerB', 'target', 1],
+        ['target', 'callerA', 2],
+      ]);
+      expect(graph.edges[1]?.fromRanges.length).to.equal(1);
+      for (const node of graph.nodes) {
+        expect(node.id).to.match(/^sha256:[0-9a-f]{64}$/);
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('stops expanding at maxDepth', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-callhierarchy-depth-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'a\nb\nc\n', 'utf8');
+
+    try {
+      const uri = vscode.Uri.file(tempFile);
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const root = makeItem(uri, 'root', 0);
+      const child = makeItem(uri, 'child', 1);
+      const grandchild = makeItem(uri, 'grandchild', 2);
+      const outgoing = new Map<string, { peer: unknown; fromRanges: unknown }[]>([
+        ['root', [{ peer: child, fromRanges: [callRange(0)] }]],
+        ['child', [{ peer: grandchild, fromRanges: [callRange(1)] }]],
+      ]);
+
+      const built = await buildCallGraph([root], 'outgoing', 1, allowedRootsRealpaths, (item) =>
+        Promise.resolve(outgoing.get(item.name) ?? []),
+      );
+
+      expect(built.ok).to.equal(true);
+      if (!built.ok) return;
+      expect(built.value.nodes.map((node) => node.name)).to.deep.equal(['root', 'child']);
+      expect(built.value.edges.length).to.equal(1);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('call hierarchy paging', () => {
+  it('pages edges and returns only referenced nodes per page', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-callhierarchy-paging-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'a\nb\nc\n', 'utf8');
+
+    const uri = vscode.Uri.file(tempFile);
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const toolRuntime = new ToolRuntime();
+    const root = makeItem(uri, 'root', 0);
+    const calleeA = makeItem(uri, 'calleeA', 1);
+    const calleeB = makeItem(uri, 'calleeB', 2);
+
+    let prepareCalls = 0;
+    const disposable = vscode.languages.registerCallHierarchyProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        prepareCallHierarchy: () => {
+          prepareCalls += 1;
+          return root;
+        },
+        provideCallHierarchyIncomingCalls: () => [],
+        provideCallHierarchyOutgoingCalls: (item) =>
+          item.name === 'root'
+            ? [
+                new vscode.CallHierarchyOutgoingCall(calleeB, [callRange(0)]),
+                new vscode.CallHierarchyOutgoingCall(calleeA, [callRange(0)]),
+              ]
+            : [],
+      },
+    );
+
+    try {
+      const args = {
+        uri: uri.toString(),
+        position: { line: 0, character: 0 },
+        direction: 'outgoing' as const,
+        pageSize: 1,
+      };
+      const first = await handleCallHierarchy(args, {
+        allowedRootsRealpaths,
+        maxItemsPerPage: 200,
+        toolRuntime,
+      });
+      expect(first.ok).to.equal(true);
+      if (!first.ok) return;
+      const firstResult = first.result as {
+        roots: string[];
+        nodes: { name: string }[];
+        items: unknown[];
+        nextCursor: string | null;
+      };
+      expect(firstResult.roots.length).to.equal(1);
+      expect(firstResult.items.length).to.equal(1);
+      expect(firstResult.nodes.map((node) => node.name)).to.deep.equal(['root', 'calleeA']);
+      expect(firstResult.nextCursor).to.be.a('string');
+
+      const second = await handleCallHierarchy(
+        { ...args, cursor: firstResult.nextCursor },
+        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime },
+      );
+      expect(second.ok).to.equal(true);
+      if (!second.ok) return;
+      const secondResult = second.result as { nodes: { name: string }[]; nextCursor: null };
+      expect(secondResult.nodes.map((node) => node.name)).to.deep.equal(['root', 'calleeB']);
+      expect(secondResult.nextCursor).to.equal(null);
+      expect(prepareCalls).to.equal(1);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import {
+  createCancellationSource,
+  raceCancellation,
+} from '../../src/tools/runtime/cancellation.js';
+
+describe('cancellation', () => {
+  it('notifies listeners once and reports late subscribers immediately', () => {
+    const source = createCancellationSource();
+    let calls = 0;
+    source.token.onCancellationRequested(() => {
+      calls += 1;
+    });
+    const removed = source.token.onCancellationRequested(() => {
+      calls += 100;
+    });
+    removed.dispose();
+
+    expect(source.token.isCancellationRequested).to.equal(false);
+    source.cancel();
+    source.cancel();
+    expect(source.token.isCancellationRequested).to.equal(true);
+    expect(calls).to.equal(1);
+
+    source.token.onCancellationRequested(() => {
+      calls += 1;
+    });
+    expect(calls).to.equal(2);
+  });
+
+  it('raceCancellation settles as soon as the token is cancelled', async () => {
+    const source = createCancellationSource();
+    const never = new Promise<string>(() => undefined);
+    const raced = raceCancellation(never, source.token);
+    source.cancel();
+    expect(await raced).to.deep.equal({ cancelled: true });
+  });
+
+  it('raceCancellation passes values and rejections through when not cancelled', async () => {
+    const source = createCancellationSource();
+    expect(await raceCancellation(Promise.resolve(7), source.token)).to.deep.equal({
+      cancelled: false,
+      value: 7,
+    });
+    expect(await raceCancellation(Promise.resolve(7), undefined)).to.deep.equal({
+      cancelled: false,
+      value: 7,
+    });
+
+    const err = new Error('boom');
+    try {
+      await raceCancellation(Promise.reject(err), source.token);
+      throw new Error('expected rejection');
+    } catch (caught) {
+      expect(caught).to.equal(err);
+    }
+  });
+
+  it('raceCancellation does not wait on an already-cancelled token', async () => {
+    const source = createCancellationSource();
+    source.cancel();
+    const late = Promise.reject(new Error('late'));
+    expect(await raceCancellation(late, source.token)).to.deep.equal({ cancelled: true });
+  });
+});
@@ -0,0 +1,62 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeCodeActions } from '../../src/tools/handlers/codeActions.js';
+import { normalizeDiagnostics } from '../../src/tools/handlers/diagnosticsDocument.js';
+
+function lineRange(line: number): vscode.Range {
+  return new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 3));
+}
+
+describe('code action normalization', () => {
+  it('reports diagnostic ids matching diagnostics_document and previews edits', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-codeactions-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'foo\nbar\n', 'utf8');
+
+    try {
+      const uri = vscode.Uri.file(tempFile);
+      const canonicalUri = uri.toString();
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const diagnostic = new vscode.Diagnostic(lineRange(0), 'Unknown word', 1);
+      const [expectedDiagnostic] = normalizeDiagnostics([diagnostic], canonicalUri);
+
+      const fix = new vscode.CodeAction('Fix spelling', vscode.CodeActionKind.QuickFix);
+      fix.diagnostics = [diagnostic];
+      fix.edit = new vscode.WorkspaceEdit();
+      fix.edit.replace(uri, lineRange(0), 'food');
+      fix.edit.replace(vscode.Uri.file(path.join(repoRoot, 'package.json')), lineRange(0), 'x');
+
+      const preferred = new vscode.CodeAction('Ignore word', vscode.CodeActionKind.QuickFix);
+      preferred.isPreferred = true;
+      preferred.command = { title: 'Ignore', command: 'example.ignoreWord' };
+
+      const bareCommand: vscode.Command = { title: 'Run linter', command: 'example.lint' };
+
+      const actions = await normalizeCodeActions(
+        [fix, bareCommand, preferred],
+        canonicalUri,
+        allowedRootsRealpaths,
+      );
+
+      expect(actions.map((action) => action.title)).to.deep.equal([
+        'Ignore word',
+        'Run linter',
+        'Fix spelling',
+      ]);
+      const fixEntry = actions[2];
+      expect(fixEntry?.kind).to.equal('quickfix');
+      expect(fixEntry?.diagnostics).to.deep.equal([expectedDiagnostic?.id]);
+      expect(fixEntry?.edit?.items.map((edit) => edit.newText)).to.deep.equal(['food']);
+      expect(fixEntry?.edit?.excludedEditCount).to.equal(1);
+      expect(fixEntry?.hasCommand).to.equal(false);
+      expect(actions[0]?.hasCommand).to.equal(true);
+      expect(actions[1]?.hasCommand).to.equal(true);
+      expect(fs.readFileSync(tempFile, 'utf8')).to.equal('foo\nbar\n');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { expect } from 'chai';
-import { buildCodexConfigToml } from '../../src/util/codexConfigToml.js';
+import {
+  buildCodexConfigToml,
+  buildCodexStdioBridgeConfigToml,
+} from '../../src/util/codexConfigToml.js';
 
 describe('buildCodexConfigToml', () => {
   it('builds a deterministic token-inline stanza', () => {
@@ -24,4 +27,24 @@ describe('buildCodexConfigToml', () => {
 
     expect(toml).to.equal(expected);
   });
+
+  it('builds a stdio bridge stanza without a token', () => {
+    const toml = buildCodexStdioBridgeConfigToml({
+      bridgeScriptPath: 'C:\\ext\\dist\\bridge\\stdio.js',
+    });
+
+    const expected = [
+      '# vscode-mcp-lsp-gateway (local-only, via stdio bridge)',
+      '# Requires mcpLspGateway.enableStdioBridge (handshake file with endpoint and token)',
+      '[mcp_servers.vscode_mcp_lsp_gateway]',
+      'command = "node"',
+      'args = ["C:\\\\ext\\\\dist\\\\bridge\\\\stdio.js"]',
+      'enabled = true',
+      'startup_timeout_sec = 10',
+      'tool_timeout_sec = 60',
+      '',
+    ].join('\n');
+
+    expect(toml).to.equal(expected);
+  });
 });
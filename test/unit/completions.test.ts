@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import {
+  compareCompletions,
+  filterByPrefix,
+  normalizeCompletionList,
+} from '../../src/tools/handlers/completions.js';
+
+describe('completion normalization', () => {
+  it('normalizes labels, kinds, details, and snippet insert text', () => {
+    const plain = new vscode.CompletionItem('length', vscode.CompletionItemKind.Property);
+    plain.detail = 'number';
+    const labeled = new vscode.CompletionItem(
+      { label: 'push', description: '(method) Array.push' },
+      vscode.CompletionItemKind.Method,
+    );
+    labeled.insertText = new vscode.SnippetString('push(${1})');
+    const list = new vscode.CompletionList([plain, labeled], true);
+
+    const normalized = normalizeCompletionList(list);
+    expect(normalized.isIncomplete).to.equal(true);
+    expect(normalized.items.map((item) => item.label)).to.deep.equal(['length', 'push']);
+    expect(normalized.items[0]?.kind).to.equal(vscode.CompletionItemKind.Property);
+    expect(normalized.items[0]?.detail).to.equal('number');
+    expect(normalized.items[1]?.detail).to.equal('(method) Array.push');
+    expect(normalized.items[1]?.insertText).to.equal('push(${1})');
+    expect(normalized.items[1]?.insertTextFormat).to.equal('snippet');
+  });
+
+  it('orders by sortText then label and filters by case-insensitive prefix', () => {
+    const b = new vscode.CompletionItem('beta');
+    const a = new vscode.CompletionItem('alpha');
+    const preferred = new vscode.CompletionItem('zeta');
+    preferred.sortText = '0';
+    const filtered = new vscode.CompletionItem('Alpine');
+    filtered.filterText = 'other';
+
+    const { items } = normalizeCompletionList([b, a, preferred, filtered]);
+    items.sort(compareCompletions);
+    expect(items.map((item) => item.label)).to.deep.equal(['zeta', 'Alpine', 'alpha', 'beta']);
+
+    expect(filterByPrefix(items, 'AL').map((item) => item.label)).to.deep.equal(['alpha']);
+    expect(filterByPrefix(items, '').length).to.equal(4);
+  });
+});
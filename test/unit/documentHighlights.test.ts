@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeDocumentHighlights } from '../../src/tools/handlers/documentHighlights.js';
+
+describe('document highlight normalization', () => {
+  it('maps kinds, defaults to text, and sorts by range then kind', () => {
+    const write = new vscode.DocumentHighlight(
+      new vscode.Range(3, 2, 3, 7),
+      vscode.DocumentHighlightKind.Write,
+    );
+    const read = new vscode.DocumentHighlight(
+      new vscode.Range(1, 4, 1, 9),
+      vscode.DocumentHighlightKind.Read,
+    );
+    const untyped = new vscode.DocumentHighlight(new vscode.Range(1, 4, 1, 9));
+
+    const highlights = normalizeDocumentHighlights([write, read, untyped, write, { kind: 1 }]);
+    expect(highlights).to.deep.equal([
+      {
+        range: { start: { line: 1, character: 4 }, end: { line: 1, character: 9 } },
+        kind: 'read',
+      },
+      {
+        range: { start: { line: 1, character: 4 }, end: { line: 1, character: 9 } },
+        kind: 'text',
+      },
+      {
+        range: { start: { line: 3, character: 2 }, end: { line: 3, character: 7 } },
+        kind: 'write',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import {
+  buildSocketEndpointUrl,
+  buildTcpEndpointUrl,
+  isValidSocketPath,
+  parseSocketEndpointUrl,
+} from '../../src/util/endpoint.js';
+
+describe('endpoint strings', () => {
+  it('builds the loopback TCP URL', () => {
+    expect(buildTcpEndpointUrl('127.0.0.1', 3939, '/mcp')).to.equal('http://127.0.0.1:3939/mcp');
+  });
+
+  it('round-trips Unix socket and named pipe endpoints', () => {
+    for (const socketPath of ['/home/dev/.mcp-lsp-gateway/gateway.sock', '\\\\.\\pipe\\gw-dev']) {
+      const url = buildSocketEndpointUrl(socketPath, '/mcp');
+      expect(url.startsWith('http+unix://')).to.equal(true);
+      expect(parseSocketEndpointUrl(url)).to.deep.equal({ socketPath, endpointPath: '/mcp' });
+    }
+    expect(buildSocketEndpointUrl('/tmp/gw.sock', '/mcp')).to.equal(
+      'http+unix://%2Ftmp%2Fgw.sock/mcp',
+    );
+  });
+
+  it('rejects relative, oversized, and non-socket endpoints', () => {
+    expect(isValidSocketPath('gateway.sock')).to.equal(false);
+    expect(isValidSocketPath(`/${'a'.repeat(120)}`)).to.equal(false);
+    expect(isValidSocketPath('\\\\.\\pipe\\')).to.equal(false);
+    expect(parseSocketEndpointUrl('http://127.0.0.1:3939/mcp')).to.equal(undefined);
+    expect(parseSocketEndpointUrl('http+unix://relative.sock/mcp')).to.equal(undefined);
+    expect(parseSocketEndpointUrl('http+unix://%2Ftmp%2Fgw.sock/mcp?x=1')).to.equal(undefined);
+  });
+});
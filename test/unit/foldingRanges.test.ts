@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeFoldingRanges } from '../../src/tools/handlers/foldingRanges.js';
+
+describe('folding range normalization', () => {
+  it('maps kinds, drops invalid spans, and orders outer ranges first', () => {
+    const imports = new vscode.FoldingRange(0, 3, vscode.FoldingRangeKind.Imports);
+    const outer = new vscode.FoldingRange(5, 20);
+    const inner = new vscode.FoldingRange(5, 9, vscode.FoldingRangeKind.Region);
+    const comment = new vscode.FoldingRange(5, 9, vscode.FoldingRangeKind.Comment);
+    const empty = new vscode.FoldingRange(12, 12);
+    const pastEnd = new vscode.FoldingRange(18, 40);
+
+    const ranges = normalizeFoldingRanges(
+      [inner, outer, pastEnd, comment, empty, imports, outer],
+      30,
+    );
+    expect(ranges).to.deep.equal([
+      { startLine: 0, endLine: 3, kind: 'imports' },
+      { startLine: 5, endLine: 20 },
+      { startLine: 5, endLine: 9, kind: 'comment' },
+      { startLine: 5, endLine: 9, kind: 'region' },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  parseHandshake,
+  readHandshakeFile,
+  removeHandshakeFile,
+  writeHandshakeFile,
+  type Handshake,
+} from '../../src/bridge/handshake.js';
+
+const HANDSHAKE: Handshake = {
+  version: 1,
+  endpoint: 'http://127.0.0.1:3939/mcp',
+  token: 'test-token',
+  protocolVersion: '2025-11-25',
+  pid: 4242,
+};
+
+describe('bridge handshake file', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-lsp-gateway-handshake-'));
+    filePath = path.join(tmpDir, 'nested', 'handshake.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('round-trips through write and read', async () => {
+    await writeHandshakeFile(filePath, HANDSHAKE);
+    const read = await readHandshakeFile(filePath);
+    expect(read).to.deep.equal({ ok: true, handshake: HANDSHAKE });
+    expect(await fs.readdir(path.dirname(filePath))).to.deep.equal(['handshake.json']);
+  });
+
+  it('writes a 0600 file in a 0700 directory', async function () {
+    if (process.platform === 'win32') this.skip();
+    await writeHandshakeFile(filePath, HANDSHAKE);
+    expect((await fs.stat(filePath)).mode & 0o777).to.equal(0o600);
+    expect((await fs.stat(path.dirname(filePath))).mode & 0o777).to.equal(0o700);
+  });
+
+  it('rejects files readable by group or others', async function () {
+    if (process.platform === 'win32') this.skip();
+    await writeHandshakeFile(filePath, HANDSHAKE);
+    await fs.chmod(filePath, 0o644);
+    const read = await readHandshakeFile(filePath);
+    expect(read.ok).to.equal(false);
+    if (!read.ok) expect(read.reason).to.contain('permissions');
+  });
+
+  it('reports a missing file without throwing', async () => {
+    const read = await readHandshakeFile(filePath);
+    expect(read.ok).to.equal(false);
+  });
+
+  it('accepts only the loopback /mcp URL or a local socket endpoint', () => {
+    for (const endpoint of [
+      'http://example.com:3939/mcp',
+      'https://127.0.0.1:3939/mcp',
+      'http://127.0.0.1:3939/other',
+      'not a url',
+    ]) {
+      expect(parseHandshake({ ...HANDSHAKE, endpoint })).to.equal(undefined);
+    }
+    expect(
+      parseHandshake({ ...HANDSHAKE, endpoint: 'http+unix://%2Ftmp%2Fgw.sock/mcp' })?.endpoint,
+    ).to.equal('http+unix://%2Ftmp%2Fgw.sock/mcp');
+    expect(parseHandshake({ ...HANDSHAKE, endpoint: 'http+unix://relative.sock/mcp' })).to.equal(
+      undefined,
+    );
+    expect(parseHandshake({ ...HANDSHAKE, token: ' ' })).to.equal(undefined);
+    expect(parseHandshake({ ...HANDSHAKE, version: 2 })).to.equal(undefined);
+  });
+
+  it('removes the file only for the owning pid', async () => {
+    await writeHandshakeFile(filePath, HANDSHAKE);
+    await removeHandshakeFile(filePath, HANDSHAKE.pid + 1);
+    expect((await readHandshakeFile(filePath)).ok).to.equal(true);
+    await removeHandshakeFile(filePath, HANDSHAKE.pid);
+    expect((await readHandshakeFile(filePath)).ok).to.equal(false);
+  });
+});
@@ -15,6 +15,8 @@ describe('http server auth', () => {
       bindAddress: '127.0.0.1',
       port: 3939,
       endpointPath: '/mcp',
+      listenMode: 'tcp',
+      socketPath: '/tmp/mcp-lsp-gateway-test.sock',
       secretStorageKey: 'mcpLspGateway.authTokens',
       allowedOrigins: [],
       additionalAllowedRoots: [],
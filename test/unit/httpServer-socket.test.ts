@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type * as vscode from 'vscode';
+import { HttpServer, type GatewaySettings } from '../../src/server/httpServer.js';
+
+class FakeOutputChannel {
+  public appendLine(): void {
+    // noop
+  }
+}
+
+function makeSettings(socketPath: string): GatewaySettings {
+  return {
+    enabled: true,
+    bindAddress: '127.0.0.1',
+    port: 3939,
+    endpointPath: '/mcp',
+    listenMode: 'socket',
+    socketPath,
+    secretStorageKey: 'mcpLspGateway.authTokens',
+    allowedOrigins: [],
+    additionalAllowedRoots: [],
+    enableSessions: true,
+    maxItemsPerPage: 200,
+    maxResponseBytes: 524_288,
+    requestTimeoutMs: 2_000,
+    debugLogging: false,
+    traceLogging: false,
+    traceLogMaxChars: 8192,
+  };
+}
+
+function makeServer(socketPath: string): HttpServer {
+  const secrets = {
+    get: () => Promise.resolve(JSON.stringify(['token-123'])),
+  } as unknown as vscode.SecretStorage;
+  return new HttpServer({
+    settings: makeSettings(socketPath),
+    secrets,
+    output: new FakeOutputChannel() as unknown as vscode.OutputChannel,
+  });
+}
+
+async function requestStatus(socketPath: string): Promise<number | undefined> {
+  return await new Promise((resolve, reject) => {
+    const req = http.request({ socketPath, path: '/mcp', method: 'POST' }, (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+    req.once('error', reject);
+    req.end('{}');
+  });
+}
+
+describe('http server socket listener', function () {
+  let tmpDir: string;
+  let socketPath: string;
+
+  before(function () {
+    if (process.platform === 'win32') this.skip();
+  });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-lsp-gw-'));
+    socketPath = path.join(tmpDir, 'run', 'gateway.sock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('listens on a 0600 socket and removes it on stop', async () => {
+    const server = makeServer(socketPath);
+    await server.start();
+    try {
+      const stat = await fs.lstat(socketPath);
+      expect(stat.isSocket()).to.equal(true);
+      expect(stat.mode & 0o777).to.equal(0o600);
+      expect((await fs.stat(path.dirname(socketPath))).mode & 0o777).to.equal(0o700);
+      // Auth still applies on the socket.
+      expect(await requestStatus(socketPath)).to.equal(401);
+      expect(await fs.readdir(path.dirname(socketPath))).to.deep.equal(['gateway.sock']);
+    } finally {
+      await server.stop();
+    }
+    let exists = true;
+    await fs.lstat(socketPath).catch(() => {
+      exists = false;
+    });
+    expect(exists).to.equal(false);
+  });
+
+  it('replaces a stale socket but refuses a live one', async () => {
+    await fs.mkdir(path.dirname(socketPath), { recursive: true });
+    const other = net.createServer();
+    await new Promise<void>((resolve) => other.listen(socketPath, resolve));
+
+    let err: unknown;
+    try {
+      await makeServer(socketPath).start();
+    } catch (caught) {
+      err = caught;
+    }
+    expect(String(err)).to.include('in use');
+
+    // Leave a stale socket file behind (no listener).
+    await fs.rename(socketPath, `${socketPath}.keep`);
+    await new Promise<void>((resolve) => other.close(() => resolve()));
+    await fs.rename(`${socketPath}.keep`, socketPath);
+
+    const server = makeServer(socketPath);
+    await server.start();
+    try {
+      expect(await requestStatus(socketPath)).to.equal(401);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('refuses to replace a file that is not a socket', async () => {
+    await fs.mkdir(path.dirname(socketPath), { recursive: true });
+    await fs.writeFile(socketPath, 'not a socket');
+
+    let err: unknown;
+    try {
+      await makeServer(socketPath).start();
+    } catch (caught) {
+      err = caught;
+    }
+    expect(String(err)).to.include('not a socket');
+    expect(await fs.readFile(socketPath, 'utf8')).to.equal('not a socket');
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import {
+  checkImplementationRawCap,
+  checkImplementationTotalCap,
+  handleImplementation,
+  MAX_IMPLEMENTATION_ITEMS_RAW,
+  normalizeImplementationResult,
+} from '../../src/tools/handlers/implementation.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+
+describe('implementation normalization', () => {
+  it('filters out-of-root locations and prefers targetSelectionRange for links', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-implementation-norm-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'const x = 1;', 'utf8');
+
+    try {
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const inRoot = vscode.Uri.file(tempFile);
+      const outOfRoot = vscode.Uri.file(path.join(repoRoot, 'package.json'));
+      const link: vscode.LocationLink = {
+        targetUri: inRoot,
+        targetRange: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 12)),
+        targetSelectionRange: new vscode.Range(
+          new vscode.Position(0, 6),
+          new vscode.Position(0, 7),
+        ),
+      };
+      const outside = new vscode.Location(
+        outOfRoot,
+        new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 1)),
+      );
+
+      const normalized = await normalizeImplementationResult(
+        [outside, link],
+        allowedRootsRealpaths,
+      );
+      expect(normalized).to.deep.equal([
+        {
+          uri: inRoot.toString(),
+          range: {
+            start: { line: 0, character: 6 },
+            end: { line: 0, character: 7 },
+          },
+        },
+      ]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns CAP_EXCEEDED for oversized raw and canonical sets', () => {
+    const raw = new Array(MAX_IMPLEMENTATION_ITEMS_RAW + 1).fill(null);
+    const rawErr = checkImplementationRawCap(raw);
+    expect(rawErr?.code).to.equal(-32603);
+    expect((rawErr?.data as { code?: string }).code).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+
+    expect(checkImplementationTotalCap(MAX_IMPLEMENTATION_ITEMS_RAW / 4)).to.equal(undefined);
+    const totalErr = checkImplementationTotalCap(MAX_IMPLEMENTATION_ITEMS_RAW / 4 + 1);
+    expect((totalErr?.data as { code?: string }).code).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+  });
+});
+
+describe('implementation paging', () => {
+  it('reuses cached full set across pages', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-implementation-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'const x = 1;', 'utf8');
+
+    const uri = vscode.Uri.file(tempFile);
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const toolRuntime = new ToolRuntime();
+
+    let calls = 0;
+    const locations = [
+      new vscode.Location(
+        uri,
+        new vscode.Range(new vscode.Position(0, 4), new vscode.Position(0, 5)),
+      ),
+      new vscode.Location(
+        uri,
+        new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 1)),
+      ),
+    ];
+
+    const disposable = vscode.languages.registerImplementationProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        provideImplementation: async () => {
+          calls += 1;
+          return locations;
+        },
+      },
+    );
+
+    try {
+      const first = await handleImplementation(
+        { uri: uri.toString(), position: { line: 0, character: 0 }, pageSize: 1 },
+        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime },
+      );
+      expect(first.ok).to.equal(true);
+      if (!first.ok) return;
+      const firstResult = first.result as {
+        items: { range: { start: { character: number } } }[];
+        nextCursor: string | null;
+      };
+      expect(firstResult.items.length).to.equal(1);
+      expect(firstResult.items[0]?.range.start.character).to.equal(0);
+      expect(firstResult.nextCursor).to.be.a('string');
+
+      const second = await handleImplementation(
+        {
+          uri: uri.toString(),
+          position: { line: 0, character: 0 },
+          pageSize: 1,
+          cursor: firstResult.nextCursor,
+        },
+        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime },
+      );
+      expect(second.ok).to.equal(true);
+      if (!second.ok) return;
+      const secondResult = second.result as {
+        items: { range: { start: { character: number } } }[];
+        nextCursor: string | null;
+      };
+      expect(secondResult.items[0]?.range.start.character).to.equal(4);
+      expect(secondResult.nextCursor).to.equal(null);
+      expect(calls).to.equal(1);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeInlayHints } from '../../src/tools/handlers/inlayHints.js';
+
+describe('inlay hint normalization', () => {
+  it('joins label parts, maps kinds, and sorts by position', () => {
+    const typeHint = new vscode.InlayHint(
+      new vscode.Position(2, 9),
+      [new vscode.InlayHintLabelPart(': '), new vscode.InlayHintLabelPart('Map<string, number>')],
+      vscode.InlayHintKind.Type,
+    );
+    const paramHint = new vscode.InlayHint(
+      new vscode.Position(1, 12),
+      'count:',
+      vscode.InlayHintKind.Parameter,
+    );
+    paramHint.paddingRight = true;
+    const untyped = new vscode.InlayHint(new vscode.Position(1, 4), 'hint');
+    const empty = new vscode.InlayHint(new vscode.Position(0, 0), '');
+
+    const hints = normalizeInlayHints([typeHint, paramHint, untyped, empty, paramHint]);
+    expect(hints).to.deep.equal([
+      {
+        position: { line: 1, character: 4 },
+        label: 'hint',
+        paddingLeft: false,
+        paddingRight: false,
+      },
+      {
+        position: { line: 1, character: 12 },
+        label: 'count:',
+        kind: 'parameter',
+        paddingLeft: false,
+        paddingRight: true,
+      },
+      {
+        position: { line: 2, character: 9 },
+        label: ': Map<string, number>',
+        kind: 'type',
+        paddingLeft: false,
+        paddingRight: false,
+      },
+    ]);
+  });
+});
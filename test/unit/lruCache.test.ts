@@ -51,4 +51,31 @@ describe('LruCache', () => {
     expect(cache.get('a')).to.equal(undefined);
     expect(cache.size).to.equal(0);
   });
+
+  it('reports evictions once per pass with the count and reason', () => {
+    let now = 0;
+    const evictions: Array<[number, string]> = [];
+    const cache = new LruCache<string, { size: number }>({
+      perEntryCapBytes: 100,
+      totalCapBytes: 10,
+      ttlMs: 10,
+      now: () => now,
+      sizeOf: (value) => value.size,
+      onEvict: (evicted, reason) => evictions.push([evicted, reason]),
+    });
+
+    cache.set('a', { size: 4 });
+    cache.set('b', { size: 4 });
+    cache.set('a', { size: 4 });
+    cache.set('c', { size: 9 });
+    expect(evictions).to.deep.equal([[2, 'capacity']]);
+
+    now = 20;
+    cache.set('d', { size: 1 });
+    cache.clear();
+    expect(evictions).to.deep.equal([
+      [2, 'capacity'],
+      [1, 'expired'],
+    ]);
+  });
 });
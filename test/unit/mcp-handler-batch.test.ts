@@ -0,0 +1,260 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { createMcpPostHandler, MAX_BATCH_ITEMS } from '../../src/mcp/handler.js';
+import { parseJsonRpcBatch } from '../../src/mcp/jsonrpc.js';
+import type { McpPostHandler, McpPostResult } from '../../src/server/router.js';
+import { SchemaRegistry } from '../../src/tools/schemaRegistry.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+import { utf8ByteLength } from '../../src/util/responseSize.js';
+
+const HEADERS = { 'mcp-protocol-version': '2025-11-25' };
+
+function createTestContext(repoRoot: string): vscode.ExtensionContext {
+  return {
+    extensionUri: vscode.Uri.file(repoRoot),
+    asAbsolutePath: (relPath: string) => path.join(repoRoot, relPath),
+  } as unknown as vscode.ExtensionContext;
+}
+
+async function invokeRaw(
+  handler: McpPostHandler,
+  payload: unknown,
+  headers: Record<string, string>,
+): Promise<McpPostResult> {
+  const bodyText = JSON.stringify(payload);
+  return await handler({
+    pathname: '/mcp',
+    headers,
+    bodyText,
+    bodyBytes: Buffer.byteLength(bodyText, 'utf8'),
+  });
+}
+
+async function createInitializedHandler(
+  opts: Readonly<{
+    enableBatchRequests: boolean;
+    maxResponseBytes?: number;
+    allowMissingProtocolVersionOnInitializedNotification?: boolean;
+    now?: () => number;
+  }>,
+): Promise<McpPostHandler> {
+  const repoRoot = path.resolve(__dirname, '..', '..', '..');
+  const schemaRegistry = await SchemaRegistry.create(createTestContext(repoRoot));
+  const handler = createMcpPostHandler({
+    protocolVersion: '2025-11-25',
+    serverInfo: { name: 'test', version: '0.0.0' },
+    enableSessions: false,
+    enableBatchRequests: opts.enableBatchRequests,
+    schemaRegistry,
+    toolRuntime: new ToolRuntime(),
+    maxItemsPerPage: 200,
+    maxResponseBytes: opts.maxResponseBytes ?? 1024 * 1024,
+    requestTimeoutMs: 1000,
+    allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    ...(opts.allowMissingProtocolVersionOnInitializedNotification
+      ? { allowMissingProtocolVersionOnInitializedNotification: true }
+      : {}),
+    ...(opts.now ? { now: opts.now } : {}),
+  });
+  const init = await invokeRaw(
+    handler,
+    { jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-11-25' } },
+    {},
+  );
+  expect(init.status).to.equal(200);
+  return handler;
+}
+
+const ping = (id: string | number) => ({ jsonrpc: '2.0', id, method: 'ping' });
+const INITIALIZED = { jsonrpc: '2.0', method: 'notifications/initialized' };
+
+describe('mcp handler batches', () => {
+  it('parses batch arrays and fails closed on empty or invalid elements', () => {
+    expect(parseJsonRpcBatch('{"jsonrpc":"2.0","method":"x"}')).to.deep.equal({
+      ok: false,
+      reason: 'not_batch',
+    });
+    expect(parseJsonRpcBatch(' []')).to.deep.equal({ ok: false, reason: 'invalid_envelope' });
+    expect(parseJsonRpcBatch('[{"jsonrpc":"2.0"}]')).to.deep.equal({
+      ok: false,
+      reason: 'invalid_envelope',
+    });
+    expect(parseJsonRpcBatch('[')).to.deep.equal({ ok: false, reason: 'invalid_json' });
+
+    const parsed = parseJsonRpcBatch(JSON.stringify([ping(1), { jsonrpc: '2.0', method: 'n' }]));
+    expect(parsed.ok).to.equal(true);
+    if (parsed.ok)
+      expect(parsed.messages.map((m) => m.kind)).to.deep.equal(['request', 'notification']);
+  });
+
+  it('rejects arrays with 400 unless batches are enabled', async () => {
+    const handler = await createInitializedHandler({ enableBatchRequests: false });
+    const res = await invokeRaw(handler, [ping(1)], HEADERS);
+    expect(res.status).to.equal(400);
+    expect(res.bodyText).to.equal(undefined);
+  });
+
+  it('processes elements in order and returns responses in request order', async () => {
+    const handler = await createInitializedHandler({ enableBatchRequests: true });
+
+    const res = await invokeRaw(
+      handler,
+      [ping('first'), INITIALIZED, ping(2), { jsonrpc: '2.0', id: 3, method: 'no/such/method' }],
+      HEADERS,
+    );
+    expect(res.status).to.equal(200);
+    const body = JSON.parse(res.bodyText ?? '') as Array<Record<string, unknown>>;
+    expect(body.map((r) => r.id)).to.deep.equal(['first', 2, 3]);
+    // ping before notifications/initialized is still allowed; the unknown method gets -32601.
+    expect(body[0]?.result).to.deep.equal({});
+    expect(body[1]?.result).to.deep.equal({});
+    expect((body[2]?.error as { code: number }).code).to.equal(-32601);
+
+    const notificationsOnly = await invokeRaw(
+      handler,
+      [{ jsonrpc: '2.0', method: 'notifications/cancelled', params: {} }],
+      HEADERS,
+    );
+    expect(notificationsOnly.status).to.equal(202);
+    expect(notificationsOnly.bodyText).to.equal(undefined);
+  });
+
+  it('fails the whole batch on caps, initialize elements, and header rejections', async () => {
+    const handler = await createInitializedHandler({ enableBatchRequests: true });
+
+    const tooMany = Array.from({ length: MAX_BATCH_ITEMS + 1 }, (_, i) => ping(i));
+    expect((await invokeRaw(handler, tooMany, HEADERS)).status).to.equal(400);
+    expect((await invokeRaw(handler, [], HEADERS)).status).to.equal(400);
+    expect(
+      (
+        await invokeRaw(
+          handler,
+          [ping(1), { jsonrpc: '2.0', id: 2, method: 'initialize', params: {} }],
+          HEADERS,
+        )
+      ).status,
+    ).to.equal(400);
+
+    const missingVersion = await invokeRaw(handler, [ping(1)], {});
+    expect(missingVersion.status).to.equal(400);
+    expect(missingVersion.bodyText).to.equal(undefined);
+  });
+
+  it('checks every element before running any, so a rejected batch has no effects', async () => {
+    const handler = await createInitializedHandler({
+      enableBatchRequests: true,
+      allowMissingProtocolVersionOnInitializedNotification: true,
+    });
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+    // The notification alone may omit the header; the ping after it may not.
+    const rejected = await invokeRaw(handler, [INITIALIZED, ping(1)], {});
+    expect(rejected.status).to.equal(400);
+    expect(rejected.bodyText).to.equal(undefined);
+    const notYet = JSON.parse((await invokeRaw(handler, list, HEADERS)).bodyText ?? '') as {
+      error?: { message: string };
+    };
+    expect(notYet.error?.message).to.equal('Not initialized');
+
+    expect((await invokeRaw(handler, [INITIALIZED], {})).status).to.equal(202);
+    const listed = JSON.parse((await invokeRaw(handler, list, HEADERS)).bodyText ?? '') as {
+      result?: unknown;
+    };
+    expect(listed.result).to.not.equal(undefined);
+  });
+
+  it('runs the batch under one deadline and times out the requests left', async () => {
+    // Each clock read advances 600 ms: the deadline passes before the second element.
+    let clock = 0;
+    const handler = await createInitializedHandler({
+      enableBatchRequests: true,
+      now: () => (clock += 600),
+    });
+
+    const res = await invokeRaw(handler, [ping(1), ping(2), INITIALIZED, ping(3)], HEADERS);
+    expect(res.status).to.equal(200);
+    const body = JSON.parse(res.bodyText ?? '') as Array<Record<string, unknown>>;
+    expect(body.map((r) => r.id)).to.deep.equal([1, 2, 3]);
+    expect(body[0]?.result).to.deep.equal({});
+    for (const timedOut of body.slice(1)) {
+      const error = timedOut.error as { message: string; data: { code: string } };
+      expect(error.data.code).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+    }
+  });
+
+  it('keeps a shared tool run alive for other callers when a batch element runs out of time', async () => {
+    // The deadline is set at 0; the element reads the clock at 970 and gets 30 ms.
+    const reads = [0, 970];
+    const handler = await createInitializedHandler({
+      enableBatchRequests: true,
+      now: () => reads.shift() ?? 1000,
+    });
+    expect((await invokeRaw(handler, INITIALIZED, HEADERS)).status).to.equal(202);
+
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-batch-shared-'));
+    const tempFile = path.join(tempDir, 'a.txt');
+    fs.writeFileSync(tempFile, 'const a = 1;', 'utf8');
+    const uri = vscode.Uri.file(tempFile);
+    let providerCalls = 0;
+    const disposable = vscode.languages.registerReferenceProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        provideReferences: () => {
+          providerCalls += 1;
+          return new Promise((resolve) => setTimeout(() => resolve([]), 100));
+        },
+      },
+    );
+    const call = (id: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: {
+        name: 'vscode_lsp_references',
+        arguments: { uri: uri.toString(), position: { line: 0, character: 0 } },
+      },
+    });
+
+    try {
+      const batch = invokeRaw(handler, [call(1)], HEADERS);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const plain = invokeRaw(handler, call(2), HEADERS);
+
+      const batchBody = JSON.parse((await batch).bodyText ?? '') as Array<Record<string, unknown>>;
+      const timedOut = batchBody[0]?.error as { data: { code: string } };
+      expect(timedOut.data.code).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+      const plainBody = JSON.parse((await plain).bodyText ?? '') as Record<string, unknown>;
+      expect(plainBody.error).to.equal(undefined);
+      expect(plainBody.result).to.not.equal(undefined);
+      expect(providerCalls).to.equal(1);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps the combined response within maxResponseBytes', async () => {
+    const measure = await createInitializedHandler({ enableBatchRequests: true });
+    const listRequest = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/list' });
+    expect((await invokeRaw(measure, INITIALIZED, HEADERS)).status).to.equal(202);
+    const single = await invokeRaw(measure, listRequest(1), HEADERS);
+    const listBytes = utf8ByteLength(single.bodyText ?? '');
+
+    const maxResponseBytes = listBytes + 400;
+    const handler = await createInitializedHandler({ enableBatchRequests: true, maxResponseBytes });
+    expect((await invokeRaw(handler, INITIALIZED, HEADERS)).status).to.equal(202);
+    const res = await invokeRaw(handler, [listRequest(1), listRequest(2), ping(3)], HEADERS);
+
+    expect(res.status).to.equal(200);
+    expect(utf8ByteLength(res.bodyText ?? '')).to.be.at.most(maxResponseBytes);
+    const body = JSON.parse(res.bodyText ?? '') as Array<Record<string, unknown>>;
+    expect(body.map((r) => r.id)).to.deep.equal([1, 2, 3]);
+    expect(body[0]?.result).to.not.equal(undefined);
+    const capped = body[1]?.error as { data: { code: string } };
+    expect(capped.data.code).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+    expect(body[2]?.result).to.deep.equal({});
+  });
+});
@@ -2,7 +2,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { expect } from 'chai';
 import * as vscode from 'vscode';
-import { createMcpPostHandler } from '../../src/mcp/handler.js';
+import { createMcpHandlers, createMcpPostHandler } from '../../src/mcp/handler.js';
 import type { McpPostHandler, McpPostResult } from '../../src/server/router.js';
 import { SchemaRegistry } from '../../src/tools/schemaRegistry.js';
 import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
@@ -171,4 +171,436 @@ describe('mcp handler lifecycle', () => {
     expect(error?.code).to.equal(-32602);
     expect(error?.message).to.equal('Invalid params');
   });
+
+  it('opens a session-scoped GET stream only after the initialized handshake', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+    const allowedRootsRealpaths = [fs.realpathSync(repoRoot)];
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: true,
+      schemaRegistry,
+      toolRuntime: new ToolRuntime(),
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths,
+    });
+    const get = (headers: Record<string, string>) =>
+      handlers.onMcpGet({ pathname: '/mcp', headers });
+
+    expect(get({ 'mcp-protocol-version': '2025-11-25' }).status).to.equal(400);
+
+    const init = await invokeHandler(
+      handlers.onMcpPost,
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-11-25' },
+      },
+      {},
+    );
+    const sessionId = init.headers?.['MCP-Session-Id'] ?? '';
+    expect(sessionId).to.not.equal('');
+    const headers = { 'mcp-protocol-version': '2025-11-25', 'mcp-session-id': sessionId };
+
+    expect(get(headers).status).to.equal(400);
+    expect(get({ 'mcp-protocol-version': '2025-11-25' }).status).to.equal(400);
+    expect(get({ ...headers, 'mcp-session-id': 'unknown' }).status).to.equal(404);
+    expect(get({ 'mcp-session-id': sessionId }).status).to.equal(400);
+
+    const initialized = await invokeHandler(
+      handlers.onMcpPost,
+      { jsonrpc: '2.0', method: 'notifications/initialized', params: {} },
+      headers,
+    );
+    expect(initialized.status).to.equal(202);
+
+    const opened = get(headers);
+    expect(opened.status).to.equal(200);
+    expect(opened.onStream).to.be.a('function');
+
+    const sent: Array<{ id?: string; data: string }> = [];
+    let closed = false;
+    opened.onStream?.({
+      send: () => true,
+      sendSerialized: () => true,
+      writeEvent: (data, eventId) => {
+        sent.push({ ...(eventId !== undefined ? { id: eventId } : undefined), data });
+        return true;
+      },
+      close: () => {
+        closed = true;
+      },
+      onClose: () => undefined,
+      isClosed: () => closed,
+    });
+    expect(handlers.streams.size()).to.equal(1);
+    expect(handlers.streams.send(sessionId, { jsonrpc: '2.0', method: 'x' })).to.equal(true);
+    expect(sent).to.deep.equal([
+      { id: '1-0', data: '' },
+      { id: '1-1', data: '{"jsonrpc":"2.0","method":"x"}' },
+    ]);
+
+    // Resume replays events after Last-Event-ID on the new connection; unknown ids fail closed.
+    expect(get({ ...headers, 'last-event-id': '1-2' }).status).to.equal(400);
+    expect(get({ ...headers, 'last-event-id': 'bogus' }).status).to.equal(400);
+    const resumed = get({ ...headers, 'last-event-id': '1-0' });
+    expect(resumed.status).to.equal(200);
+    const replayed: Array<{ id?: string; data: string }> = [];
+    resumed.onStream?.({
+      send: () => true,
+      sendSerialized: () => true,
+      writeEvent: (data, eventId) => {
+        replayed.push({ ...(eventId !== undefined ? { id: eventId } : undefined), data });
+        return true;
+      },
+      close: () => {
+        closed = true;
+      },
+      onClose: () => undefined,
+      isClosed: () => closed,
+    });
+    expect(replayed).to.deep.equal([{ id: '1-1', data: '{"jsonrpc":"2.0","method":"x"}' }]);
+    // The resumed connection replaced the original one.
+    expect(closed).to.equal(true);
+    closed = false;
+
+    handlers.streams.closeAll();
+    expect(closed).to.equal(true);
+    expect(handlers.streams.size()).to.equal(0);
+  });
+
+  it('terminates a session on DELETE; later requests with its id get 404', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+    const allowedRootsRealpaths = [fs.realpathSync(repoRoot)];
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: true,
+      schemaRegistry,
+      toolRuntime: new ToolRuntime(),
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths,
+    });
+    const del = (headers: Record<string, string>) =>
+      handlers.onMcpDelete({ pathname: '/mcp', headers });
+
+    const init = await invokeHandler(
+      handlers.onMcpPost,
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-11-25' },
+      },
+      {},
+    );
+    const sessionId = init.headers?.['MCP-Session-Id'] ?? '';
+    const headers = { 'mcp-protocol-version': '2025-11-25', 'mcp-session-id': sessionId };
+    await invokeHandler(
+      handlers.onMcpPost,
+      { jsonrpc: '2.0', method: 'notifications/initialized', params: {} },
+      headers,
+    );
+
+    let streamClosed = false;
+    handlers.onMcpGet({ pathname: '/mcp', headers }).onStream?.({
+      send: () => true,
+      sendSerialized: () => true,
+      writeEvent: () => true,
+      close: () => {
+        streamClosed = true;
+      },
+      onClose: () => undefined,
+      isClosed: () => streamClosed,
+    });
+    expect(handlers.streams.size()).to.equal(1);
+
+    expect(del({ 'mcp-session-id': sessionId }).status).to.equal(400);
+    expect(del({ 'mcp-protocol-version': '2025-11-25' }).status).to.equal(400);
+    expect(del(headers).status).to.equal(200);
+    expect(streamClosed).to.equal(true);
+    expect(handlers.streams.size()).to.equal(0);
+
+    expect(del(headers).status).to.equal(404);
+    expect(handlers.onMcpGet({ pathname: '/mcp', headers }).status).to.equal(404);
+    const ping = await invokeHandler(
+      handlers.onMcpPost,
+      { jsonrpc: '2.0', id: 2, method: 'ping' },
+      headers,
+    );
+    expect(ping.status).to.equal(404);
+  });
+
+  it('rejects DELETE with 405 when sessions are disabled', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: false,
+      schemaRegistry,
+      toolRuntime: new ToolRuntime(),
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    });
+
+    const res = handlers.onMcpDelete({
+      pathname: '/mcp',
+      headers: { 'mcp-protocol-version': '2025-11-25' },
+    });
+    expect(res.status).to.equal(405);
+    expect(res.headers?.['Allow']).to.equal('GET, POST');
+  });
+
+  it('keeps streaming sessions past the idle TTL and logs evictions to the output channel only', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: true,
+      sessionIdleTtlMs: 20,
+      schemaRegistry,
+      toolRuntime: new ToolRuntime(),
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    });
+    const openSession = async () => {
+      const init = await invokeHandler(
+        handlers.onMcpPost,
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-11-25' } },
+        {},
+      );
+      const headers = {
+        'mcp-protocol-version': '2025-11-25',
+        'mcp-session-id': init.headers?.['MCP-Session-Id'] ?? '',
+      };
+      await invokeHandler(
+        handlers.onMcpPost,
+        { jsonrpc: '2.0', method: 'notifications/initialized', params: {} },
+        headers,
+      );
+      return headers;
+    };
+    const ping = async (headers: Record<string, string>) =>
+      (await invokeHandler(handlers.onMcpPost, { jsonrpc: '2.0', id: 2, method: 'ping' }, headers))
+        .status;
+
+    const idle = await openSession();
+    const listener = await openSession();
+    await invokeHandler(
+      handlers.onMcpPost,
+      { jsonrpc: '2.0', id: 3, method: 'logging/setLevel', params: { level: 'debug' } },
+      listener,
+    );
+    const events: string[] = [];
+    let closed = false;
+    handlers.onMcpGet({ pathname: '/mcp', headers: listener }).onStream?.({
+      send: () => true,
+      sendSerialized: () => true,
+      writeEvent: (data) => {
+        events.push(data);
+        return true;
+      },
+      close: () => {
+        closed = true;
+      },
+      onClose: () => undefined,
+      isClosed: () => closed,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(await ping(listener)).to.equal(200);
+    expect(await ping(idle)).to.equal(404);
+    expect(events.some((data) => data.includes('session.evict'))).to.equal(false);
+    handlers.streams.closeAll();
+  });
+
+  it('sends warning events for unusable cursors', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+    const toolRuntime = new ToolRuntime();
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: false,
+      schemaRegistry,
+      toolRuntime,
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    });
+    const headers = { 'mcp-protocol-version': '2025-11-25' };
+    const post = async (message: Record<string, unknown>) =>
+      await invokeHandler(handlers.onMcpPost, message, headers);
+    await invokeHandler(
+      handlers.onMcpPost,
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-11-25' } },
+      {},
+    );
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    await post({ jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'info' } });
+
+    const messages: Array<{ level: string; data: { event: string; meta: unknown } }> = [];
+    let closed = false;
+    handlers.onMcpGet({ pathname: '/mcp', headers }).onStream?.({
+      send: () => true,
+      sendSerialized: () => true,
+      writeEvent: (data) => {
+        if (data !== '') {
+          messages.push((JSON.parse(data) as { params: (typeof messages)[number] }).params);
+        }
+        return true;
+      },
+      close: () => {
+        closed = true;
+      },
+      onClose: () => undefined,
+      isClosed: () => closed,
+    });
+
+    await post({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'vscode_lsp_workspaceSymbols', arguments: { query: 'x', cursor: 'bogus' } },
+    });
+
+    expect(messages.map((m) => [m.level, m.data.event])).to.deep.equal([
+      ['warning', 'tools.error'],
+    ]);
+    expect(messages[0]?.data.meta).to.deep.include({
+      tool: 'vscode_lsp_workspaceSymbols',
+      errorCode: 'MCP_LSP_GATEWAY/CURSOR_INVALID',
+    });
+    handlers.streams.closeAll();
+  });
+
+  it('reports cache evictions at debug level to the session whose call caused them', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const context = createTestContext(repoRoot);
+    const schemaRegistry: SchemaRegistry = await SchemaRegistry.create(context);
+    const toolRuntime = new ToolRuntime();
+
+    const handlers = createMcpHandlers({
+      protocolVersion: '2025-11-25',
+      serverInfo: { name: 'test', version: '0.0.0' },
+      enableSessions: true,
+      schemaRegistry,
+      toolRuntime,
+      maxItemsPerPage: 200,
+      maxResponseBytes: 1024 * 1024,
+      requestTimeoutMs: 1000,
+      allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    });
+    // An initialized session at level debug, with its log messages recorded from a GET stream.
+    const openSession = async () => {
+      const init = await invokeHandler(
+        handlers.onMcpPost,
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-11-25' } },
+        {},
+      );
+      const headers = {
+        'mcp-protocol-version': '2025-11-25',
+        'mcp-session-id': init.headers?.['MCP-Session-Id'] ?? '',
+      };
+      await invokeHandler(
+        handlers.onMcpPost,
+        { jsonrpc: '2.0', method: 'notifications/initialized', params: {} },
+        headers,
+      );
+      await invokeHandler(
+        handlers.onMcpPost,
+        { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'debug' } },
+        headers,
+      );
+      const messages: Array<{ level: string; data: { event: string; meta: unknown } }> = [];
+      let closed = false;
+      handlers.onMcpGet({ pathname: '/mcp', headers }).onStream?.({
+        send: () => true,
+        sendSerialized: () => true,
+        writeEvent: (data) => {
+          if (data !== '') {
+            messages.push((JSON.parse(data) as { params: (typeof messages)[number] }).params);
+          }
+          return true;
+        },
+        close: () => {
+          closed = true;
+        },
+        onClose: () => undefined,
+        isClosed: () => closed,
+      });
+      return { headers, messages };
+    };
+    const evictions = (
+      messages: Array<{ level: string; data: { event: string; meta: unknown } }>,
+    ) => messages.filter((m) => m.data.event === 'cache.evict').map((m) => [m.level, m.data.meta]);
+
+    const caller = await openSession();
+    const other = await openSession();
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-lifecycle-evict-'));
+    const tempFile = path.join(tempDir, 'a.txt');
+    fs.writeFileSync(tempFile, 'const a = 1;', 'utf8');
+    const disposable = vscode.languages.registerReferenceProvider(
+      { scheme: 'file', language: 'plaintext' },
+      { provideReferences: async () => [] },
+    );
+
+    try {
+      // Fill the paged cache to its byte cap; the eviction outside any request reaches nobody.
+      for (let i = 0; i < 11; i += 1) {
+        toolRuntime.pagedFullSetCache.set(`k${i}`, 'x'.repeat(2 * 1024 * 1024 - 2));
+      }
+
+      // Caching this call's result evicts an entry.
+      await invokeHandler(
+        handlers.onMcpPost,
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: {
+            name: 'vscode_lsp_references',
+            arguments: {
+              uri: vscode.Uri.file(tempFile).toString(),
+              position: { line: 0, character: 0 },
+            },
+          },
+        },
+        caller.headers,
+      );
+
+      expect(evictions(caller.messages)).to.deep.equal([
+        ['debug', { cache: 'pagedFullSet', evicted: 1, reason: 'capacity' }],
+      ]);
+      expect(evictions(other.messages)).to.deep.equal([]);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      handlers.streams.closeAll();
+    }
+  });
 });
@@ -39,7 +39,12 @@ describe('mcp handler response size', () => {
 
     const initResult = {
       protocolVersion: '2025-11-25',
-      capabilities: { tools: { listChanged: false } },
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: true, listChanged: false },
+        prompts: { listChanged: false },
+        logging: {},
+      },
       serverInfo: { name: 'test', version: '0.0.0' },
     };
     const initResponseBytes = jsonByteLength({ jsonrpc: '2.0', id: 1, result: initResult });
@@ -81,7 +86,12 @@ describe('mcp handler response size', () => {
 
     const initResult = {
       protocolVersion: '2025-11-25',
-      capabilities: { tools: { listChanged: false } },
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: true, listChanged: false },
+        prompts: { listChanged: false },
+        logging: {},
+      },
       serverInfo: { name: 'test', version: '0.0.0' },
     };
     const initResponseBytes = jsonByteLength({ jsonrpc: '2.0', id: 1, result: initResult });
@@ -149,7 +159,7 @@ describe('mcp handler response size', () => {
       schemaRegistry,
       toolRuntime: new ToolRuntime(),
       maxItemsPerPage: 200,
-      maxResponseBytes: 200,
+      maxResponseBytes: 400,
       requestTimeoutMs: 1000,
       allowedRootsRealpaths,
     });
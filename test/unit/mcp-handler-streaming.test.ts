@@ -0,0 +1,268 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import {
+  createMcpPostHandler,
+  getCancelledRequestId,
+  type CreateMcpPostHandlerOptions,
+  getProgressToken,
+  streamPendingResponse,
+} from '../../src/mcp/handler.js';
+import type { McpPostHandler, McpPostResult } from '../../src/server/router.js';
+import type { SseConnection, SseStream } from '../../src/server/sse.js';
+import { createProgressRelay } from '../../src/tools/runtime/progress.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+import { SchemaRegistry } from '../../src/tools/schemaRegistry.js';
+
+function createRecordingStream(): { stream: SseStream; events: unknown[] } {
+  const events: unknown[] = [];
+  let closed = false;
+  const stream: SseStream = {
+    send: (message) => {
+      events.push(message);
+      return !closed;
+    },
+    sendSerialized: (jsonText) => {
+      events.push(JSON.parse(jsonText));
+      return !closed;
+    },
+    close: () => {
+      closed = true;
+    },
+    onClose: () => undefined,
+    isClosed: () => closed,
+  };
+  return { stream, events };
+}
+
+async function createInitializedHandler(
+  overrides: Partial<CreateMcpPostHandlerOptions> = {},
+): Promise<McpPostHandler> {
+  const repoRoot = path.resolve(__dirname, '..', '..', '..');
+  const schemaRegistry = await SchemaRegistry.create({
+    extensionUri: vscode.Uri.file(repoRoot),
+    asAbsolutePath: (relPath: string) => path.join(repoRoot, relPath),
+  } as unknown as vscode.ExtensionContext);
+  // streamingRequestTimeoutMs is left unset: the delayed upgrade is disabled.
+  const handler = createMcpPostHandler({
+    protocolVersion: '2025-11-25',
+    serverInfo: { name: 'test', version: '0.0.0' },
+    enableSessions: false,
+    schemaRegistry,
+    toolRuntime: new ToolRuntime(),
+    maxItemsPerPage: 200,
+    maxResponseBytes: 1024 * 1024,
+    requestTimeoutMs: 1000,
+    allowedRootsRealpaths: [fs.realpathSync(repoRoot)],
+    ...overrides,
+  });
+  await invoke(handler, {
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'initialize',
+    params: { protocolVersion: '2025-11-25' },
+  });
+  await invoke(handler, { jsonrpc: '2.0', method: 'notifications/initialized' });
+  return handler;
+}
+
+async function invoke(
+  handler: McpPostHandler,
+  message: Record<string, unknown> | Record<string, unknown>[],
+  accept = 'application/json, text/event-stream',
+): Promise<McpPostResult> {
+  const bodyText = JSON.stringify(message);
+  return await handler({
+    pathname: '/mcp',
+    headers: { 'mcp-protocol-version': '2025-11-25', accept },
+    bodyText,
+    bodyBytes: Buffer.byteLength(bodyText, 'utf8'),
+  });
+}
+
+function createRecordingConnection(): { connection: SseConnection; events: unknown[] } {
+  const events: unknown[] = [];
+  let closed = false;
+  const connection: SseConnection = {
+    send: () => !closed,
+    sendSerialized: () => !closed,
+    writeEvent: (data) => {
+      if (data !== '') events.push(JSON.parse(data));
+      return !closed;
+    },
+    close: () => {
+      closed = true;
+    },
+    onClose: () => undefined,
+    isClosed: () => closed,
+  };
+  return { connection, events };
+}
+
+describe('mcp handler streaming', () => {
+  it('reads progress tokens from params._meta only', () => {
+    expect(getProgressToken({ _meta: { progressToken: 'tok-1' } })).to.equal('tok-1');
+    expect(getProgressToken({ _meta: { progressToken: 7 } })).to.equal(7);
+    expect(getProgressToken({ _meta: { progressToken: '' } })).to.equal(undefined);
+    expect(getProgressToken({ progressToken: 'tok-1' })).to.equal(undefined);
+    expect(getProgressToken(undefined)).to.equal(undefined);
+  });
+
+  it('reads notifications/cancelled request ids', () => {
+    expect(getCancelledRequestId({ requestId: 'req-1', reason: 'user' })).to.equal('req-1');
+    expect(getCancelledRequestId({ requestId: 0 })).to.equal(0);
+    expect(getCancelledRequestId({ requestId: null })).to.equal(undefined);
+    expect(getCancelledRequestId([1])).to.equal(undefined);
+    expect(getCancelledRequestId(undefined)).to.equal(undefined);
+  });
+
+  it('sends progress before the final response when a token is present', async () => {
+    const { stream, events } = createRecordingStream();
+    const response = { jsonrpc: '2.0', id: 3, result: { content: [] } };
+    const pending = new Promise<{ status: number; bodyText: string }>((resolve) => {
+      setTimeout(() => resolve({ status: 200, bodyText: JSON.stringify(response) }), 10);
+    });
+
+    await streamPendingResponse(stream, pending, 'tok-1');
+    expect(events).to.deep.equal([
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'tok-1', progress: 1, message: 'Waiting for language provider.' },
+      },
+      response,
+    ]);
+  });
+
+  it('forwards buffered and live stage messages with one progress counter', async () => {
+    const { stream, events } = createRecordingStream();
+    const stages = createProgressRelay();
+    stages.report('Running reference provider.');
+    const response = { jsonrpc: '2.0', id: 5, result: { content: [] } };
+    const pending = new Promise<{ status: number; bodyText: string }>((resolve) => {
+      setTimeout(() => {
+        stages.report('Cached 3 references for paging.');
+        resolve({ status: 200, bodyText: JSON.stringify(response) });
+      }, 10);
+    });
+
+    await streamPendingResponse(stream, pending, 'tok-2', stages);
+    stages.report('Too late.');
+    const progress = (n: number, message: string) => ({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 'tok-2', progress: n, message },
+    });
+    expect(events).to.deep.equal([
+      progress(1, 'Waiting for language provider.'),
+      progress(2, 'Running reference provider.'),
+      progress(3, 'Cached 3 references for paging.'),
+      response,
+    ]);
+  });
+
+  it('sends only the final response without a progress token', async () => {
+    const { stream, events } = createRecordingStream();
+    const response = { jsonrpc: '2.0', id: 4, error: { code: -32603, message: 'Internal error' } };
+
+    await streamPendingResponse(
+      stream,
+      Promise.resolve({ status: 200, bodyText: JSON.stringify(response) }),
+      undefined,
+    );
+    expect(events).to.deep.equal([response]);
+  });
+
+  it('streams calls with a progress token even when the delayed upgrade is disabled', async () => {
+    const handler = await createInitializedHandler();
+    const call = (id: number, meta?: Record<string, unknown>) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'no_such_tool', arguments: {}, ...(meta ? { _meta: meta } : {}) },
+    });
+
+    const streamed = await invoke(handler, call(1, { progressToken: 'tok-1' }));
+    expect(streamed.status).to.equal(200);
+    expect(streamed.bodyText).to.equal(undefined);
+    const { connection, events } = createRecordingConnection();
+    await streamed.onStream?.(connection);
+    expect(events).to.have.length(2);
+    expect(events[0]).to.deep.include({ method: 'notifications/progress' });
+    expect(events[1]).to.deep.include({ id: 1 });
+
+    // No token, or a client that does not accept event streams: a JSON body as usual.
+    const plain = await invoke(handler, call(2));
+    expect(plain.onStream).to.equal(undefined);
+    expect(JSON.parse(plain.bodyText ?? '{}')).to.deep.include({ id: 2 });
+    const jsonOnly = await invoke(handler, call(3, { progressToken: 'tok-3' }), 'application/json');
+    expect(jsonOnly.onStream).to.equal(undefined);
+    expect(JSON.parse(jsonOnly.bodyText ?? '{}')).to.deep.include({ id: 3 });
+  });
+
+  it('times out streamed and JSON callers of one shared run on their own budgets', async () => {
+    const handler = await createInitializedHandler({
+      enableBatchRequests: true,
+      requestTimeoutMs: 40,
+      streamingRequestTimeoutMs: 1000,
+    });
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-streaming-shared-'));
+    const tempFile = path.join(tempDir, 'a.txt');
+    fs.writeFileSync(tempFile, 'const a = 1;', 'utf8');
+    const uri = vscode.Uri.file(tempFile);
+    let providerCalls = 0;
+    const disposable = vscode.languages.registerReferenceProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        provideReferences: () => {
+          providerCalls += 1;
+          return new Promise((resolve) => setTimeout(() => resolve([]), 120));
+        },
+      },
+    );
+    const call = (id: number, character: number, progressToken?: string) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: {
+        name: 'vscode_lsp_references',
+        arguments: { uri: uri.toString(), position: { line: 0, character } },
+        ...(progressToken ? { _meta: { progressToken } } : {}),
+      },
+    });
+    // Batched calls are answered with JSON under requestTimeoutMs.
+    const jsonCall = async (id: number, character: number) => {
+      const res = await invoke(handler, [call(id, character)]);
+      return (JSON.parse(res.bodyText ?? '') as Array<Record<string, unknown>>)[0];
+    };
+    const streamedCall = async (id: number, character: number) => {
+      const res = await invoke(handler, call(id, character, `tok-${id}`));
+      const { connection, events } = createRecordingConnection();
+      await res.onStream?.(connection);
+      return events[events.length - 1] as Record<string, unknown>;
+    };
+    const timedOutCode = (response: Record<string, unknown> | undefined) =>
+      (response?.error as { data?: { code?: string } } | undefined)?.data?.code;
+
+    try {
+      // A JSON call starts the run; a streamed call joins it and outlives the JSON budget.
+      const json = jsonCall(1, 0);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const streamed = streamedCall(2, 0);
+      expect(timedOutCode(await json)).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+      expect((await streamed).result).to.not.equal(undefined);
+
+      // A streamed call starts the run; a JSON call that joins it still stops at its own cap.
+      const streamedFirst = streamedCall(3, 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(timedOutCode(await jsonCall(4, 1))).to.equal('MCP_LSP_GATEWAY/CAP_EXCEEDED');
+      expect((await streamedFirst).result).to.not.equal(undefined);
+      expect(providerCalls).to.equal(2);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from 'chai';
+import {
+  createMcpLogging,
+  isMcpLogLevel,
+  type LoggingMessageParams,
+} from '../../src/logging/mcpLogging.js';
+import type { Logger } from '../../src/logging/redact.js';
+
+function createRecorder(maxPerSecond = 50) {
+  const sent: Array<[string, LoggingMessageParams]> = [];
+  let clock = 10_000;
+  const logging = createMcpLogging({
+    notify: (streamKey, params) => sent.push([streamKey, params]),
+    maxPerSecond,
+    now: () => clock,
+  });
+  return {
+    sent,
+    logging,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+  };
+}
+
+describe('MCP logging', () => {
+  it('sends nothing until a session sets a level, then filters by severity', () => {
+    const { sent, logging } = createRecorder();
+    logging.log('s1', 'error', 'tools.result');
+    expect(sent).to.deep.equal([]);
+
+    logging.setLevel('s1', 'warning');
+    logging.log('s1', 'info', 'tools.call');
+    logging.log('s1', 'warning', 'tools.error');
+    logging.log('s1', 'critical', 'server.down');
+    expect(sent.map(([, p]) => p.level)).to.deep.equal(['warning', 'critical']);
+    expect(sent[0]?.[1].logger).to.equal('mcp-lsp-gateway');
+  });
+
+  it('scopes request events to their session and broadcasts server events', () => {
+    const { sent, logging } = createRecorder();
+    logging.setLevel('s1', 'debug');
+    logging.setLevel('s2', 'debug');
+
+    logging.log('s1', 'debug', 'tools.call');
+    logging.log(undefined, 'debug', 'server.event');
+    logging.releaseSession('s2');
+    logging.log(undefined, 'debug', 'server.event');
+
+    expect(sent.map(([key, p]) => [key, (p.data as { event: string }).event])).to.deep.equal([
+      ['s1', 'tools.call'],
+      ['s1', 'server.event'],
+      ['s2', 'server.event'],
+      ['s1', 'server.event'],
+    ]);
+  });
+
+  it('sanitizes event metadata like trace logs and drops stack traces', () => {
+    const { sent, logging } = createRecorder();
+    logging.setLevel('s1', 'debug');
+    logging.log('s1', 'error', 'Unexpected error during tools/call.', {
+      authorization: 'Bearer abc',
+      detail: 'Bearer secret-token',
+      uri: 'file:///home/user/project/a.ts',
+      error: { name: 'TypeError', stack: 'TypeError: x\n    at f (a.js:1:1)' },
+    });
+
+    expect(sent[0]?.[1].data).to.deep.equal({
+      event: 'Unexpected error during tools/call.',
+      meta: {
+        authorization: '[REDACTED]',
+        detail: { len: 19 },
+        error: { name: 'TypeError' },
+        uri: 'file:///[REDACTED_PATH]',
+      },
+    });
+  });
+
+  it('forwards Logger calls to the base logger and the session', () => {
+    const { sent, logging } = createRecorder();
+    const calls: string[] = [];
+    const base: Logger = {
+      debug: (m) => calls.push(`debug:${m}`),
+      info: (m) => calls.push(`info:${m}`),
+      warn: (m) => calls.push(`warn:${m}`),
+      error: (m) => calls.push(`error:${m}`),
+    };
+    logging.setLevel('s1', 'debug');
+    const logger = logging.forward(base, 's1');
+    logger.debug('a');
+    logger.warn('b');
+    logging.forward(undefined, 's1').error('c');
+
+    expect(calls).to.deep.equal(['debug:a', 'warn:b']);
+    expect(sent.map(([, p]) => p.level)).to.deep.equal(['debug', 'warning', 'error']);
+  });
+
+  it('rate limits per session and reports dropped messages', () => {
+    const { sent, logging, advance } = createRecorder(2);
+    logging.setLevel('s1', 'debug');
+    for (let i = 0; i < 5; i += 1) logging.log('s1', 'info', 'tools.call');
+    expect(sent).to.have.length(2);
+
+    advance(1_000);
+    logging.log('s1', 'info', 'tools.call');
+    expect(sent.slice(2).map(([, p]) => [p.level, p.data])).to.deep.equal([
+      ['warning', { event: 'log.dropped', meta: { dropped: 3 } }],
+      ['info', { event: 'tools.call' }],
+    ]);
+  });
+
+  it('accepts only RFC 5424 level names', () => {
+    expect(isMcpLogLevel('notice')).to.equal(true);
+    expect(isMcpLogLevel('warn')).to.equal(false);
+    expect(isMcpLogLevel(3)).to.equal(false);
+  });
+});
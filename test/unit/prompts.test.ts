@@ -0,0 +1,141 @@
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { V1_PROMPT_NAMES } from '../../src/prompts/catalog.js';
+import { dispatchPromptsGet, dispatchPromptsList } from '../../src/prompts/dispatcher.js';
+import { SchemaRegistry } from '../../src/tools/schemaRegistry.js';
+
+function createTestContext(repoRoot: string): vscode.ExtensionContext {
+  return {
+    extensionUri: vscode.Uri.file(repoRoot),
+    asAbsolutePath: (relPath: string) => path.join(repoRoot, relPath),
+  } as unknown as vscode.ExtensionContext;
+}
+
+async function createRegistry(): Promise<SchemaRegistry> {
+  const repoRoot = path.resolve(__dirname, '..', '..', '..');
+  return SchemaRegistry.create(createTestContext(repoRoot));
+}
+
+function issueKeywords(error: { data?: unknown }): string[] {
+  const data = error.data as { issues?: { keyword: string }[] };
+  return (data.issues ?? []).map((issue) => issue.keyword);
+}
+
+describe('prompts/list', () => {
+  it('lists every v1 prompt with arguments derived from its schema', async () => {
+    const schemaRegistry = await createRegistry();
+    const listed = dispatchPromptsList(undefined, schemaRegistry);
+    expect(listed.ok).to.equal(true);
+    if (!listed.ok) return;
+
+    expect(listed.result.prompts.map((p) => p.name)).to.deep.equal([...V1_PROMPT_NAMES]);
+    for (const prompt of listed.result.prompts) {
+      expect(prompt.title).to.be.a('string').and.not.equal('');
+      expect(prompt.description).to.be.a('string').and.not.equal('');
+    }
+
+    const triage = listed.result.prompts.find((p) => p.name === 'lsp_triage_error_to_root_cause');
+    expect(triage?.arguments.map((a) => [a.name, a.required])).to.deep.equal([
+      ['errorText', true],
+      ['uri', false],
+      ['line', false],
+    ]);
+  });
+
+  it('rejects cursors like tools/list', async () => {
+    const schemaRegistry = await createRegistry();
+    const paged = dispatchPromptsList({ cursor: 'x' }, schemaRegistry);
+    expect(paged.ok).to.equal(false);
+    if (paged.ok) return;
+    expect(paged.error.data).to.deep.equal({ code: 'MCP_LSP_GATEWAY/CURSOR_INVALID' });
+
+    const malformed = dispatchPromptsList({ cursor: 1 }, schemaRegistry);
+    expect(malformed.ok).to.equal(false);
+    if (malformed.ok) return;
+    expect(malformed.error.data).to.deep.equal({ code: 'MCP_LSP_GATEWAY/INVALID_PARAMS' });
+  });
+});
+
+describe('prompts/get', () => {
+  it('renders the arguments inside fenced blocks', async () => {
+    const schemaRegistry = await createRegistry();
+    const got = dispatchPromptsGet(
+      {
+        name: 'lsp_trace_requirement_to_implementation',
+        arguments: { requirement: 'Reject cursors ```x``` on tools/list' },
+      },
+      schemaRegistry,
+    );
+    expect(got.ok).to.equal(true);
+    if (!got.ok) return;
+
+    expect(got.result.messages).to.have.length(1);
+    const message = got.result.messages[0];
+    expect(message.role).to.equal('user');
+    expect(message.content.text).to.include('````text\nReject cursors ```x``` on tools/list\n````');
+    expect(message.content.text).to.include('vscode_lsp_workspaceSymbols');
+    expect(message.content.text).not.to.include('Seed keywords:');
+  });
+
+  it('renders prompts without required arguments when arguments are omitted', async () => {
+    const schemaRegistry = await createRegistry();
+    const got = dispatchPromptsGet({ name: 'lsp_audit_security_boundary' }, schemaRegistry);
+    expect(got.ok).to.equal(true);
+  });
+
+  it('validates arguments against the prompt schema', async () => {
+    const schemaRegistry = await createRegistry();
+
+    const missing = dispatchPromptsGet(
+      { name: 'lsp_audit_determinism_and_paging', arguments: {} },
+      schemaRegistry,
+    );
+    expect(missing.ok).to.equal(false);
+    if (missing.ok) return;
+    expect(missing.error.code).to.equal(-32602);
+    expect(issueKeywords(missing.error)).to.deep.equal(['required']);
+
+    const extra = dispatchPromptsGet(
+      { name: 'lsp_map_feature_surface', arguments: { query: 'sessions', limit: '5' } },
+      schemaRegistry,
+    );
+    expect(extra.ok).to.equal(false);
+    if (extra.ok) return;
+    expect(issueKeywords(extra.error)).to.deep.equal(['additionalProperties']);
+
+    const badUri = dispatchPromptsGet(
+      {
+        name: 'lsp_triage_error_to_root_cause',
+        arguments: { errorText: 'boom', uri: 'http://example.com/a.ts', line: '0' },
+      },
+      schemaRegistry,
+    );
+    expect(badUri.ok).to.equal(false);
+    if (badUri.ok) return;
+    expect(issueKeywords(badUri.error)).to.deep.equal(['pattern', 'pattern']);
+
+    const notObject = dispatchPromptsGet(
+      { name: 'lsp_map_feature_surface', arguments: null },
+      schemaRegistry,
+    );
+    expect(notObject.ok).to.equal(false);
+  });
+
+  it('rejects unknown prompts and malformed params', async () => {
+    const schemaRegistry = await createRegistry();
+
+    const unknown = dispatchPromptsGet({ name: 'nope', arguments: {} }, schemaRegistry);
+    expect(unknown.ok).to.equal(false);
+    if (unknown.ok) return;
+    expect(unknown.error.data).to.deep.equal({
+      code: 'MCP_LSP_GATEWAY/INVALID_PARAMS',
+      prompt: 'nope',
+    });
+
+    for (const params of [undefined, [], { arguments: {} }, { name: 3 }]) {
+      const rejected = dispatchPromptsGet(params, schemaRegistry);
+      expect(rejected.ok).to.equal(false);
+    }
+  });
+});
@@ -46,6 +46,9 @@ describe('references memoization', () => {
       },
     );
 
+    const stages: string[] = [];
+    const reportProgress = (message: string) => stages.push(message);
+
     try {
       const first = await handleReferences(
         {
@@ -53,7 +56,7 @@ describe('references memoization', () => {
           position: { line: 0, character: 0 },
           pageSize: 1,
         },
-        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime },
+        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime, reportProgress },
       );
 
       expect(first.ok).to.equal(true);
@@ -69,7 +72,7 @@ describe('references memoization', () => {
           pageSize: 1,
           cursor: firstResult.nextCursor,
         },
-        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime },
+        { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime, reportProgress },
       );
 
       expect(second.ok).to.equal(true);
@@ -77,6 +80,14 @@ describe('references memoization', () => {
       const secondResult = second.result as { items: unknown[]; nextCursor: string | null };
       expect(secondResult.items.length).to.equal(1);
       expect(calls).to.equal(1);
+      // Only the snapshot build reports stages; the cached page does not.
+      expect(stages).to.deep.equal([
+        'Running reference provider.',
+        'Provider returned 3 locations.',
+        'Canonicalized locations: kept 3, dropped 0.',
+        'Sorted and deduplicated to 3 references.',
+        'Cached 3 references for paging.',
+      ]);
     } finally {
       disposable.dispose();
       fs.rmSync(tempDir, { recursive: true, force: true });
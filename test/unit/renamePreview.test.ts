@@ -0,0 +1,119 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import {
+  handleRenamePreview,
+  normalizeWorkspaceEdit,
+} from '../../src/tools/handlers/renamePreview.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+
+function wordRange(line: number): vscode.Range {
+  return new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 3));
+}
+
+describe('rename preview normalization', () => {
+  it('sorts and dedupes edits and counts edits outside allowed roots', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-renamepreview-'));
+    const fileA = path.join(tempDir, 'a.txt');
+    const fileB = path.join(tempDir, 'b.txt');
+    fs.writeFileSync(fileA, 'foo\nfoo\n', 'utf8');
+    fs.writeFileSync(fileB, 'foo\n', 'utf8');
+
+    try {
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(vscode.Uri.file(fileB), wordRange(0), 'bar');
+      edit.replace(vscode.Uri.file(fileA), wordRange(1), 'bar');
+      edit.replace(vscode.Uri.file(fileA), wordRange(0), 'bar');
+      edit.replace(vscode.Uri.file(fileA), wordRange(0), 'bar');
+      edit.replace(vscode.Uri.file(path.join(repoRoot, 'package.json')), wordRange(0), 'bar');
+
+      const normalized = await normalizeWorkspaceEdit(edit, allowedRootsRealpaths);
+
+      expect(normalized.excludedEditCount).to.equal(1);
+      expect(
+        normalized.edits.map((e) => [
+          path.basename(vscode.Uri.parse(e.uri).fsPath),
+          e.range.start.line,
+        ]),
+      ).to.deep.equal([
+        ['a.txt', 0],
+        ['a.txt', 1],
+        ['b.txt', 0],
+      ]);
+      expect(normalized.edits.every((e) => e.newText === 'bar')).to.equal(true);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns no edits for non-WorkspaceEdit results', async () => {
+    const normalized = await normalizeWorkspaceEdit(undefined, []);
+    expect(normalized).to.deep.equal({ edits: [], excludedEditCount: 0 });
+  });
+});
+
+describe('rename preview paging', () => {
+  it('pages edits without applying the rename', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-renamepreview-paging-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'foo\nfoo\n', 'utf8');
+
+    const uri = vscode.Uri.file(tempFile);
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const toolRuntime = new ToolRuntime();
+
+    let renameCalls = 0;
+    const disposable = vscode.languages.registerRenameProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        provideRenameEdits: (document, _position, newName) => {
+          renameCalls += 1;
+          const edit = new vscode.WorkspaceEdit();
+          edit.replace(document.uri, wordRange(1), newName);
+          edit.replace(document.uri, wordRange(0), newName);
+          return edit;
+        },
+      },
+    );
+
+    try {
+      const args = {
+        uri: uri.toString(),
+        position: { line: 0, character: 1 },
+        newName: 'bar',
+        pageSize: 1,
+      };
+      const deps = { allowedRootsRealpaths, maxItemsPerPage: 200, toolRuntime };
+      const first = await handleRenamePreview(args, deps);
+      expect(first.ok).to.equal(true);
+      if (!first.ok) return;
+      const firstResult = first.result as {
+        available: boolean;
+        items: { range: { start: { line: number } }; newText: string }[];
+        nextCursor: string | null;
+      };
+      expect(firstResult.available).to.equal(true);
+      expect(firstResult.items.map((e) => e.range.start.line)).to.deep.equal([0]);
+      expect(firstResult.nextCursor).to.be.a('string');
+
+      const second = await handleRenamePreview({ ...args, cursor: firstResult.nextCursor }, deps);
+      expect(second.ok).to.equal(true);
+      if (!second.ok) return;
+      const secondResult = second.result as typeof firstResult;
+      expect(secondResult.items.map((e) => e.range.start.line)).to.deep.equal([1]);
+      expect(secondResult.nextCursor).to.equal(null);
+
+      expect(renameCalls).to.equal(1);
+      expect(fs.readFileSync(tempFile, 'utf8')).to.equal('foo\nfoo\n');
+      const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+      expect(doc?.getText() ?? 'foo\nfoo\n').to.equal('foo\nfoo\n');
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
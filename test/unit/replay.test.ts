@@ -0,0 +1,194 @@
+import { expect } from 'chai';
+import { createReplayBuffer, parseEventId } from '../../src/server/replay.js';
+import type { SseConnection } from '../../src/server/sse.js';
+
+type WrittenEvent = { id?: string; data: string };
+
+function createFakeConnection(): {
+  connection: SseConnection;
+  events: WrittenEvent[];
+  disconnect: () => void;
+  isClosed: () => boolean;
+} {
+  const events: WrittenEvent[] = [];
+  let closed = false;
+  const listeners: Array<() => void> = [];
+  const disconnect = () => {
+    if (closed) return;
+    closed = true;
+    for (const listener of listeners.splice(0)) listener();
+  };
+  const writeEvent = (data: string, eventId?: string) => {
+    if (closed) return false;
+    events.push({ ...(eventId !== undefined ? { id: eventId } : undefined), data });
+    return true;
+  };
+  const connection: SseConnection = {
+    send: (message) => writeEvent(JSON.stringify(message)),
+    sendSerialized: (jsonText) => writeEvent(jsonText),
+    writeEvent,
+    close: disconnect,
+    onClose: (listener) => {
+      if (closed) listener();
+      else listeners.push(listener);
+    },
+    isClosed: () => closed,
+  };
+  return { connection, events, disconnect, isClosed: () => closed };
+}
+
+describe('sse replay buffer', () => {
+  it('assigns per-stream event ids and primes new connections', () => {
+    const replay = createReplayBuffer();
+    const first = createFakeConnection();
+    const stream = replay.open();
+    stream.attach(first.connection);
+    stream.send({ n: 1 });
+
+    const other = replay.open();
+    const second = createFakeConnection();
+    other.attach(second.connection);
+    other.send({ n: 2 });
+
+    expect(first.events).to.deep.equal([
+      { id: '1-0', data: '' },
+      { id: '1-1', data: '{"n":1}' },
+    ]);
+    expect(second.events).to.deep.equal([
+      { id: '2-0', data: '' },
+      { id: '2-1', data: '{"n":2}' },
+    ]);
+  });
+
+  it('records events while disconnected and replays only that stream after Last-Event-ID', () => {
+    const replay = createReplayBuffer();
+    const stream = replay.open();
+    const first = createFakeConnection();
+    stream.attach(first.connection);
+    stream.send({ n: 1 });
+    first.disconnect();
+    expect(stream.send({ n: 2 })).to.equal(true);
+    stream.sendSerialized('{"n":3}');
+    replay.open().send({ other: true });
+
+    const resumed = replay.resume('1-1');
+    expect(resumed?.afterSeq).to.equal(1);
+    const second = createFakeConnection();
+    resumed!.stream.attach(second.connection, resumed!.afterSeq);
+    stream.send({ n: 4 });
+
+    expect(second.events).to.deep.equal([
+      { id: '1-2', data: '{"n":2}' },
+      { id: '1-3', data: '{"n":3}' },
+      { id: '1-4', data: '{"n":4}' },
+    ]);
+  });
+
+  it('closes a resumed connection after replaying a completed stream', () => {
+    const replay = createReplayBuffer();
+    const stream = replay.open();
+    stream.sendSerialized('{"result":{}}');
+    stream.close();
+    expect(stream.send({ late: true })).to.equal(false);
+
+    const resumed = replay.resume('1-0');
+    const conn = createFakeConnection();
+    resumed!.stream.attach(conn.connection, resumed!.afterSeq);
+    expect(conn.events).to.deep.equal([{ id: '1-1', data: '{"result":{}}' }]);
+    expect(conn.isClosed()).to.equal(true);
+  });
+
+  it('rejects malformed, unknown, and future event ids', () => {
+    const replay = createReplayBuffer();
+    replay.open().send({ n: 1 });
+
+    expect(replay.resume('1-2')).to.equal(undefined);
+    expect(replay.resume('9-0')).to.equal(undefined);
+    expect(replay.resume('01-0')).to.equal(undefined);
+    expect(replay.resume('x')).to.equal(undefined);
+    expect(parseEventId('12-034')).to.equal(undefined);
+    expect(parseEventId('12-34')).to.deep.equal({ streamId: '12', seq: 34 });
+  });
+
+  it('evicts oldest events under the byte cap and oldest streams past the stream cap', () => {
+    const replay = createReplayBuffer({ perEventCapBytes: 8, totalCapBytes: 16, maxStreams: 2 });
+    const stream = replay.open();
+    stream.sendSerialized('"aaaaaa"');
+    stream.sendSerialized('"bbbbbb"');
+    stream.sendSerialized('"cccccc"');
+    stream.sendSerialized('"too-large"');
+    expect(replay.sizeBytes()).to.equal(16);
+
+    const conn = createFakeConnection();
+    stream.attach(conn.connection, 0);
+    expect(conn.events).to.deep.equal([
+      { id: '1-2', data: '"bbbbbb"' },
+      { id: '1-3', data: '"cccccc"' },
+    ]);
+
+    replay.open();
+    replay.open();
+    expect(replay.resume('1-0')).to.equal(undefined);
+    expect(replay.resume('2-0')).to.not.equal(undefined);
+  });
+
+  it('evicts completed streams first and keeps the standalone stream resumable', () => {
+    const replay = createReplayBuffer({ maxStreams: 3 });
+    const standalone = replay.open({ standalone: true });
+    const first = createFakeConnection();
+    standalone.attach(first.connection);
+    standalone.send({ n: 1 });
+    first.disconnect();
+    standalone.send({ n: 2 });
+
+    const live = replay.open();
+    for (let i = 0; i < 40; i++) {
+      const post = replay.open();
+      post.sendSerialized('{"result":{}}');
+      post.close();
+    }
+
+    // The open POST stream outlived every completed one.
+    expect(replay.resume(`${live.id}-0`)).to.not.equal(undefined);
+
+    const resumed = replay.resume('1-1');
+    expect(resumed?.stream).to.equal(standalone);
+    const second = createFakeConnection();
+    resumed!.stream.attach(second.connection, resumed!.afterSeq);
+    expect(second.events).to.deep.equal([{ id: '1-2', data: '{"n":2}' }]);
+  });
+
+  it('completes the previous standalone stream when a new one opens', () => {
+    const replay = createReplayBuffer();
+    const old = replay.open({ standalone: true });
+    const first = createFakeConnection();
+    old.attach(first.connection);
+    old.send({ n: 1 });
+    first.disconnect();
+    old.send({ n: 2 });
+
+    const next = replay.open({ standalone: true });
+    expect(old.isClosed()).to.equal(true);
+    expect(next.isClosed()).to.equal(false);
+    expect(old.send({ n: 3 })).to.equal(false);
+
+    // Resuming the replaced stream replays what it missed, then ends.
+    const resumed = replay.resume('1-1');
+    const second = createFakeConnection();
+    resumed!.stream.attach(second.connection, resumed!.afterSeq);
+    expect(second.events).to.deep.equal([{ id: '1-2', data: '{"n":2}' }]);
+    expect(second.isClosed()).to.equal(true);
+  });
+
+  it('drops events once their TTL elapses', () => {
+    let now = 0;
+    const replay = createReplayBuffer({ ttlMs: 100, now: () => now });
+    const stream = replay.open();
+    stream.send({ n: 1 });
+    now = 200;
+
+    const conn = createFakeConnection();
+    stream.attach(conn.connection, 0);
+    expect(conn.events).to.deep.equal([]);
+  });
+});
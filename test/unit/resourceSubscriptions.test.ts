@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { createResourceSubscriptions } from '../../src/resources/subscriptions.js';
+
+const DEBOUNCE_MS = 5;
+
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, DEBOUNCE_MS * 4));
+}
+
+function createRecorder() {
+  const sent: Array<[string, string]> = [];
+  const subscriptions = createResourceSubscriptions({
+    notify: (streamKey, uri) => sent.push([streamKey, uri]),
+    debounceMs: DEBOUNCE_MS,
+    maxPerSession: 2,
+  });
+  return { sent, subscriptions };
+}
+
+describe('resource subscriptions', () => {
+  it('notifies each subscribed session once per debounce window', async () => {
+    const { sent, subscriptions } = createRecorder();
+    subscriptions.subscribe('s1', 'file:///w/a.ts', ['file:///w/a.ts']);
+    subscriptions.subscribe('s2', 'file:///w/a.ts?lines=1-5', ['file:///w/a.ts']);
+    subscriptions.subscribe('s2', 'file:///w/b.ts', ['file:///w/b.ts']);
+
+    subscriptions.fileChanged(['file:///w/a.ts']);
+    subscriptions.fileChanged(['file:///w/a.ts', 'file:///w/other.ts']);
+    await settle();
+
+    expect(sent).to.deep.equal([
+      ['s1', 'file:///w/a.ts'],
+      ['s2', 'file:///w/a.ts?lines=1-5'],
+    ]);
+  });
+
+  it('matches any of the file keys (canonical or requested path)', async () => {
+    const { sent, subscriptions } = createRecorder();
+    subscriptions.subscribe('s1', 'file:///link/a.ts', ['file:///real/a.ts', 'file:///link/a.ts']);
+
+    subscriptions.fileChanged(['file:///real/a.ts']);
+    await settle();
+    subscriptions.fileChanged(['file:///link/a.ts']);
+    await settle();
+
+    expect(sent).to.deep.equal([
+      ['s1', 'file:///link/a.ts'],
+      ['s1', 'file:///link/a.ts'],
+    ]);
+  });
+
+  it('drops pending notifications on unsubscribe and session release', async () => {
+    const { sent, subscriptions } = createRecorder();
+    subscriptions.subscribe('s1', 'file:///w/a.ts', ['file:///w/a.ts']);
+    subscriptions.subscribe('s2', 'file:///w/a.ts', ['file:///w/a.ts']);
+
+    subscriptions.fileChanged(['file:///w/a.ts']);
+    subscriptions.unsubscribe('s1', 'file:///w/a.ts');
+    subscriptions.releaseSession('s2');
+    await settle();
+
+    expect(sent).to.deep.equal([]);
+    expect(subscriptions.size()).to.equal(0);
+    subscriptions.unsubscribe('s1', 'file:///w/a.ts');
+  });
+
+  it('caps subscriptions per session; re-subscribing does not count twice', () => {
+    const { subscriptions } = createRecorder();
+    expect(subscriptions.subscribe('s1', 'file:///w/a.ts', ['file:///w/a.ts'])).to.equal(
+      'subscribed',
+    );
+    expect(subscriptions.subscribe('s1', 'file:///w/b.ts', ['file:///w/b.ts'])).to.equal(
+      'subscribed',
+    );
+    expect(subscriptions.subscribe('s1', 'file:///w/a.ts', ['file:///w/a.ts'])).to.equal(
+      'subscribed',
+    );
+    expect(subscriptions.subscribe('s1', 'file:///w/c.ts', ['file:///w/c.ts'])).to.equal(
+      'capExceeded',
+    );
+    expect(subscriptions.subscribe('s2', 'file:///w/c.ts', ['file:///w/c.ts'])).to.equal(
+      'subscribed',
+    );
+    expect(subscriptions.size()).to.equal(3);
+  });
+});
@@ -0,0 +1,182 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { dispatchResourceTemplatesList } from '../../src/resources/dispatcher.js';
+import { handleResourcesRead, RESOURCE_READ_META_KEY } from '../../src/resources/read.js';
+import {
+  buildLinesResourceUri,
+  buildSymbolResourceUri,
+  parseResourceUri,
+} from '../../src/resources/templates.js';
+import { handleDocumentSymbols } from '../../src/tools/handlers/documentSymbols.js';
+import { workspaceSymbolId } from '../../src/tools/handlers/workspaceSymbols.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+
+const SYMBOL_ID = `sha256:${'a'.repeat(64)}`;
+
+describe('resource templates', () => {
+  it('lists the symbol and line-range templates and rejects cursors', () => {
+    const listed = dispatchResourceTemplatesList({});
+    expect(listed.ok).to.equal(true);
+    if (!listed.ok) return;
+    expect(listed.result.resourceTemplates.map((t) => t.uriTemplate)).to.deep.equal([
+      'lsp-symbol:///{uri}#{symbolId}',
+      'file:///{path}?lines={start}-{end}',
+    ]);
+
+    const paged = dispatchResourceTemplatesList({ cursor: 'x' });
+    expect(paged.ok).to.equal(false);
+  });
+
+  it('parses template URIs', () => {
+    expect(parseResourceUri('file:///a/b.ts')).to.deep.equal({
+      kind: 'file',
+      fileUri: 'file:///a/b.ts',
+    });
+    expect(parseResourceUri('file:///a/b.ts?lines=3-7')).to.deep.equal({
+      kind: 'lines',
+      fileUri: 'file:///a/b.ts',
+      lines: { start: 3, end: 7 },
+    });
+    expect(parseResourceUri(buildSymbolResourceUri('file:///a/b.ts', SYMBOL_ID))).to.deep.equal({
+      kind: 'symbol',
+      fileUri: 'file:///a/b.ts',
+      symbolId: SYMBOL_ID,
+    });
+    // Unencoded file URIs are accepted too.
+    expect(parseResourceUri(`lsp-symbol:///file:///a/b.ts#${SYMBOL_ID}`)).to.deep.equal({
+      kind: 'symbol',
+      fileUri: 'file:///a/b.ts',
+      symbolId: SYMBOL_ID,
+    });
+  });
+
+  it('rejects malformed template URIs', () => {
+    for (const uri of [
+      'file:///a/b.ts?lines=0-3',
+      'file:///a/b.ts?lines=5-2',
+      'file:///a/b.ts?lines=1',
+      'file:///a/b.ts?other=1',
+      'file:///a/b.ts#frag',
+      'lsp-symbol:///file%3A%2F%2F%2Fa#sha256:short',
+      'lsp-symbol:///#' + SYMBOL_ID,
+    ]) {
+      expect(parseResourceUri(uri).kind, uri).to.equal('invalid');
+    }
+  });
+});
+
+describe('resources/read templates', () => {
+  it('reads a 1-based inclusive line range and clamps the end', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-lines-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'one\ntwo\nthree\nfour', 'utf8');
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const fileUri = vscode.Uri.file(path.join(allowedRootsRealpaths[0] ?? tempDir, 'file.txt'));
+
+    try {
+      const middle = await handleResourcesRead(
+        buildLinesResourceUri(fileUri.toString(), { start: 2, end: 3 }),
+        { allowedRootsRealpaths, maxReadBytes: 1024 },
+      );
+      expect(middle.ok).to.equal(true);
+      if (!middle.ok) return;
+      const item = middle.result.contents[0] as { uri: string; text: string };
+      expect(item.text).to.equal('two\nthree\n');
+      expect(item.uri).to.equal(`${fileUri.toString()}?lines=2-3`);
+      expect(middle.result._meta[RESOURCE_READ_META_KEY].lines).to.deep.equal({
+        start: 2,
+        end: 3,
+      });
+
+      const tail = await handleResourcesRead(`${fileUri.toString()}?lines=4-99`, {
+        allowedRootsRealpaths,
+        maxReadBytes: 1024,
+      });
+      expect(tail.ok).to.equal(true);
+      if (!tail.ok) return;
+      expect((tail.result.contents[0] as { text: string }).text).to.equal('four');
+      expect(tail.result._meta[RESOURCE_READ_META_KEY].lines).to.deep.equal({ start: 4, end: 4 });
+
+      const past = await handleResourcesRead(`${fileUri.toString()}?lines=9-10`, {
+        allowedRootsRealpaths,
+        maxReadBytes: 1024,
+      });
+      expect(past.ok).to.equal(false);
+      if (past.ok) return;
+      expect(past.error.code).to.equal(-32602);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads a symbol by documentSymbols or workspaceSymbols id', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-symbol-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'header\nfunction f() {\n  return 1;\n}\n', 'utf8');
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const fileUri = vscode.Uri.file(path.join(allowedRootsRealpaths[0] ?? tempDir, 'file.txt'));
+
+    const range = new vscode.Range(new vscode.Position(1, 0), new vscode.Position(3, 1));
+    const symbol = new vscode.DocumentSymbol(
+      'f',
+      '',
+      vscode.SymbolKind.Function,
+      range,
+      new vscode.Range(new vscode.Position(1, 9), new vscode.Position(1, 10)),
+    );
+    const disposable = vscode.languages.registerDocumentSymbolProvider(
+      { scheme: 'file', language: 'plaintext' },
+      { provideDocumentSymbols: async () => [symbol] },
+    );
+
+    try {
+      const listed = await handleDocumentSymbols(
+        { uri: fileUri.toString() },
+        { allowedRootsRealpaths, toolRuntime: new ToolRuntime() },
+      );
+      expect(listed.ok).to.equal(true);
+      if (!listed.ok) return;
+      const docSymbolId = (listed.result as { symbols: { id: string }[] }).symbols[0]?.id ?? '';
+      const wsSymbolId = workspaceSymbolId(
+        {
+          uri: fileUri.toString(),
+          range: { start: { line: 1, character: 0 }, end: { line: 3, character: 1 } },
+        },
+        'f',
+        vscode.SymbolKind.Function,
+        undefined,
+      );
+
+      for (const id of [docSymbolId, wsSymbolId]) {
+        const read = await handleResourcesRead(buildSymbolResourceUri(fileUri.toString(), id), {
+          allowedRootsRealpaths,
+          maxReadBytes: 1024,
+        });
+        expect(read.ok).to.equal(true);
+        if (!read.ok) return;
+        expect((read.result.contents[0] as { text: string }).text).to.equal(
+          'function f() {\n  return 1;\n}',
+        );
+        expect(read.result._meta[RESOURCE_READ_META_KEY].lines).to.deep.equal({
+          start: 2,
+          end: 4,
+        });
+      }
+
+      const missing = await handleResourcesRead(
+        buildSymbolResourceUri(fileUri.toString(), SYMBOL_ID),
+        { allowedRootsRealpaths, maxReadBytes: 1024 },
+      );
+      expect(missing.ok).to.equal(false);
+      if (missing.ok) return;
+      expect(missing.error.code).to.equal(-32002);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,246 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { handleResourcesList } from '../../src/resources/list.js';
+import {
+  handleResourcesRead,
+  RESOURCE_READ_META_KEY,
+  truncateResourcesReadResult,
+  type ResourcesReadResult,
+} from '../../src/resources/read.js';
+import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
+import { jsonByteLength } from '../../src/util/responseSize.js';
+
+const measure = (result: ResourcesReadResult): number =>
+  jsonByteLength({ jsonrpc: '2.0', id: 1, result });
+
+function textResult(text: string): ResourcesReadResult {
+  return {
+    contents: [{ uri: 'file:///a.txt', mimeType: 'text/plain', text }],
+    _meta: {
+      [RESOURCE_READ_META_KEY]: {
+        source: 'disk',
+        totalBytes: Buffer.byteLength(text, 'utf8'),
+        returnedBytes: Buffer.byteLength(text, 'utf8'),
+        truncated: false,
+      },
+    },
+  };
+}
+
+describe('resources/read truncation', () => {
+  it('returns the result unchanged when it fits', () => {
+    const result = textResult('hello');
+    expect(truncateResourcesReadResult(result, 100_000, measure)).to.equal(result);
+  });
+
+  it('keeps the longest fitting text prefix and reports it in _meta', () => {
+    const result = textResult('x'.repeat(1000));
+    const cap = measure(textResult('x'.repeat(400)));
+    const truncated = truncateResourcesReadResult(result, cap, measure);
+    const item = truncated.contents[0] as { text: string };
+    expect(item.text).to.equal('x'.repeat(400));
+    expect(measure(truncated)).to.be.at.most(cap);
+    expect(truncated._meta[RESOURCE_READ_META_KEY]).to.deep.equal({
+      source: 'disk',
+      totalBytes: 1000,
+      returnedBytes: 400,
+      truncated: true,
+    });
+  });
+
+  it('never splits a surrogate pair', () => {
+    const result = textResult('\u{1F600}'.repeat(50));
+    const cap = measure(textResult('\u{1F600}'.repeat(10))) + 5;
+    const truncated = truncateResourcesReadResult(result, cap, measure);
+    const item = truncated.contents[0] as { text: string };
+    expect(item.text).to.equal('\u{1F600}'.repeat(10));
+  });
+
+  it('truncates blobs on byte boundaries', () => {
+    const bytes = Buffer.alloc(300, 7);
+    const result: ResourcesReadResult = {
+      contents: [
+        {
+          uri: 'file:///a.bin',
+          mimeType: 'application/octet-stream',
+          blob: bytes.toString('base64'),
+        },
+      ],
+      _meta: {
+        [RESOURCE_READ_META_KEY]: {
+          source: 'disk',
+          totalBytes: 300,
+          returnedBytes: 300,
+          truncated: false,
+        },
+      },
+    };
+    const truncated = truncateResourcesReadResult(result, measure(result) - 10, measure);
+    const item = truncated.contents[0] as { blob: string };
+    const kept = Buffer.from(item.blob, 'base64');
+    expect(kept.length).to.be.lessThan(300);
+    expect(truncated._meta[RESOURCE_READ_META_KEY].returnedBytes).to.equal(kept.length);
+    expect(truncated._meta[RESOURCE_READ_META_KEY].truncated).to.equal(true);
+  });
+});
+
+describe('resources/read', () => {
+  it('reads text files from disk within the allowed roots', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-read-'));
+    const tempFile = path.join(tempDir, 'file.md');
+    fs.writeFileSync(tempFile, '# Title\n', 'utf8');
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+
+    try {
+      const read = await handleResourcesRead(vscode.Uri.file(tempFile).toString(), {
+        allowedRootsRealpaths,
+        maxReadBytes: 1024,
+      });
+      expect(read.ok).to.equal(true);
+      if (!read.ok) return;
+      const item = read.result.contents[0] as { mimeType: string; text: string };
+      expect(item.mimeType).to.equal('text/markdown');
+      expect(item.text).to.equal('# Title\n');
+      expect(read.result._meta[RESOURCE_READ_META_KEY]).to.deep.equal({
+        source: 'disk',
+        totalBytes: 8,
+        returnedBytes: 8,
+        truncated: false,
+      });
+
+      const bounded = await handleResourcesRead(vscode.Uri.file(tempFile).toString(), {
+        allowedRootsRealpaths,
+        maxReadBytes: 3,
+      });
+      expect(bounded.ok).to.equal(true);
+      if (!bounded.ok) return;
+      expect((bounded.result.contents[0] as { text: string }).text).to.equal('# T');
+      expect(bounded.result._meta[RESOURCE_READ_META_KEY].truncated).to.equal(true);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns binary files as base64 blobs', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-binary-'));
+    const tempFile = path.join(tempDir, 'data.bin');
+    fs.writeFileSync(tempFile, Buffer.from([1, 0, 2, 3]));
+
+    try {
+      const read = await handleResourcesRead(vscode.Uri.file(tempFile).toString(), {
+        allowedRootsRealpaths: [fs.realpathSync(tempDir)],
+        maxReadBytes: 1024,
+      });
+      expect(read.ok).to.equal(true);
+      if (!read.ok) return;
+      const item = read.result.contents[0] as { mimeType: string; blob: string };
+      expect(item.mimeType).to.equal('application/octet-stream');
+      expect(Buffer.from(item.blob, 'base64')).to.deep.equal(Buffer.from([1, 0, 2, 3]));
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('denies files outside the allowed roots', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-denied-'));
+    const rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    const outside = path.join(tempDir, 'secret.txt');
+    fs.writeFileSync(outside, 'secret', 'utf8');
+
+    try {
+      const read = await handleResourcesRead(vscode.Uri.file(outside).toString(), {
+        allowedRootsRealpaths: [fs.realpathSync(rootDir)],
+        maxReadBytes: 1024,
+      });
+      expect(read.ok).to.equal(false);
+      if (read.ok) return;
+      expect(read.error.code).to.equal(-32602);
+      expect((read.error.data as { code?: string }).code).to.equal(
+        'MCP_LSP_GATEWAY/WORKSPACE_DENIED',
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('serves unsaved editor buffers for dirty documents', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-dirty-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'saved', 'utf8');
+    const uri = vscode.Uri.file(tempFile);
+
+    try {
+      await vscode.workspace.openTextDocument(uri);
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(uri, new vscode.Position(0, 0), 'unsaved ');
+      await vscode.workspace.applyEdit(edit);
+
+      const read = await handleResourcesRead(uri.toString(), {
+        allowedRootsRealpaths: [fs.realpathSync(tempDir)],
+        maxReadBytes: 1024,
+      });
+      expect(read.ok).to.equal(true);
+      if (!read.ok) return;
+      expect((read.result.contents[0] as { text: string }).text).to.equal('unsaved saved');
+      expect(read.result._meta[RESOURCE_READ_META_KEY].source).to.equal('buffer');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('resources/list', () => {
+  it('pages sorted files and skips symlinks that leave the roots', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-resources-list-'));
+    const rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    fs.writeFileSync(path.join(rootDir, 'b.ts'), 'export {};', 'utf8');
+    fs.writeFileSync(path.join(rootDir, 'a.json'), '{}', 'utf8');
+    fs.writeFileSync(path.join(tempDir, 'outside.txt'), 'secret', 'utf8');
+    try {
+      fs.symlinkSync(path.join(tempDir, 'outside.txt'), path.join(rootDir, 'link.txt'));
+    } catch {
+      // Symlinks may be unavailable (Windows without privileges); the rest still applies.
+    }
+
+    const allowedRootsRealpaths = [fs.realpathSync(rootDir)];
+    const toolRuntime = new ToolRuntime();
+    const expected = ['a.json', 'b.ts'].map((name) =>
+      vscode.Uri.file(path.join(allowedRootsRealpaths[0] ?? rootDir, name)).toString(),
+    );
+
+    try {
+      const first = await handleResourcesList(null, {
+        allowedRootsRealpaths,
+        maxItemsPerPage: 1,
+        toolRuntime,
+      });
+      expect(first.ok).to.equal(true);
+      if (!first.ok) return;
+      expect(first.result.resources.map((r) => r.uri)).to.deep.equal([expected[0]]);
+      expect(first.result.resources[0]?.mimeType).to.equal('application/json');
+      expect(first.result.nextCursor).to.be.a('string');
+
+      const second = await handleResourcesList(first.result.nextCursor ?? null, {
+        allowedRootsRealpaths,
+        maxItemsPerPage: 1,
+        toolRuntime,
+      });
+      expect(second.ok).to.equal(true);
+      if (!second.ok) return;
+      expect(second.result.resources.map((r) => r.uri)).to.deep.equal([expected[1]]);
+      expect(second.result.resources[0]?.name).to.equal('b.ts');
+      expect(second.result).to.not.have.property('nextCursor');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
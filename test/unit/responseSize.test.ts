@@ -1,6 +1,10 @@
 import { expect } from 'chai';
 import { jsonByteLength, utf8ByteLength } from '../../src/util/responseSize.js';
-import { truncateHoverToolCallResult } from '../../src/tools/truncate.js';
+import {
+  truncateHoverToolCallResult,
+  truncateInlayHintsToolCallResult,
+  truncateSignatureHelpToolCallResult,
+} from '../../src/tools/truncate.js';
 
 describe('response size helpers', () => {
   it('measures UTF-8 byte length deterministically', () => {
@@ -86,3 +90,106 @@ describe('hover truncation', () => {
     );
   });
 });
+
+describe('signature help truncation', () => {
+  it('truncates documentation from the last slot first to fit maxResponseBytes', () => {
+    const sigDoc = 'a'.repeat(400);
+    const paramDoc = 'b'.repeat(4000);
+    const toolResult = {
+      isError: false,
+      structuredContent: {
+        signatures: [
+          {
+            label: 'f(x)',
+            documentation: { kind: 'plaintext', value: sigDoc },
+            parameters: [{ label: 'x', documentation: { kind: 'markdown', value: paramDoc } }],
+          },
+        ],
+        activeSignature: 0,
+        summary: 'Returned 1 signature.',
+      },
+      content: [{ type: 'text', text: 'Returned 1 signature.' }],
+    } as const;
+
+    const maxResponseBytes = 1200;
+    const measured = (candidate: unknown) =>
+      jsonByteLength({ jsonrpc: '2.0', id: 1, result: candidate });
+
+    const truncated = truncateSignatureHelpToolCallResult(toolResult, maxResponseBytes, measured);
+    expect(truncated.truncated).to.equal(true);
+    expect(measured(truncated.result)).to.be.at.most(maxResponseBytes);
+
+    const structured = truncated.result.structuredContent as {
+      signatures: Array<{
+        documentation?: { value: string };
+        parameters: Array<{ documentation?: { kind: string; value: string } }>;
+      }>;
+      activeSignature?: number;
+      summary?: string;
+    };
+    const sig = structured.signatures[0];
+    if (!sig) throw new Error('Missing signature');
+    expect(sig.documentation?.value).to.equal(sigDoc);
+    expect(sig.parameters[0]?.documentation?.kind).to.equal('markdown');
+    expect(sig.parameters[0]?.documentation?.value.length).to.be.lessThan(paramDoc.length);
+    expect(structured.activeSignature).to.equal(0);
+    expect(structured.summary ?? '').to.include('Truncated');
+  });
+
+  it('leaves results within maxResponseBytes unchanged', () => {
+    const toolResult = {
+      isError: false,
+      structuredContent: {
+        signatures: [{ label: 'f()', parameters: [] }],
+        summary: 'Returned 1 signature.',
+      },
+      content: [{ type: 'text', text: 'Returned 1 signature.' }],
+    } as const;
+    const measured = (candidate: unknown) =>
+      jsonByteLength({ jsonrpc: '2.0', id: 1, result: candidate });
+
+    const truncated = truncateSignatureHelpToolCallResult(toolResult, 4096, measured);
+    expect(truncated.truncated).to.equal(false);
+    expect(truncated.result.structuredContent).to.deep.equal(toolResult.structuredContent);
+  });
+});
+
+describe('inlay hint truncation', () => {
+  it('clamps long labels and trims from the last hint to fit maxResponseBytes', () => {
+    const hint = (character: number, label: string) => ({
+      position: { line: 0, character },
+      label,
+      kind: 'type',
+      paddingLeft: false,
+      paddingRight: false,
+    });
+    const toolResult = {
+      isError: false,
+      structuredContent: {
+        hints: [hint(1, ': number'), hint(5, 'y'.repeat(3000)), hint(9, 'z'.repeat(3000))],
+        summary: 'Returned 3 inlay hints.',
+      },
+      content: [{ type: 'text', text: 'Returned 3 inlay hints.' }],
+    } as const;
+
+    const maxResponseBytes = 2000;
+    const measured = (candidate: unknown) =>
+      jsonByteLength({ jsonrpc: '2.0', id: 1, result: candidate });
+
+    const truncated = truncateInlayHintsToolCallResult(toolResult, maxResponseBytes, measured, {
+      maxFragmentCodepoints: 2000,
+    });
+    expect(truncated.truncated).to.equal(true);
+    expect(measured(truncated.result)).to.be.at.most(maxResponseBytes);
+
+    const structured = truncated.result.structuredContent as {
+      hints: Array<{ position: { character: number }; label: string }>;
+      summary?: string;
+    };
+    expect(structured.hints.map((h) => h.position.character)).to.deep.equal([1, 5, 9]);
+    expect(structured.hints[0]?.label).to.equal(': number');
+    expect(structured.hints[1]?.label.length).to.be.at.most(2000);
+    expect(structured.hints[2]?.label).to.equal('');
+    expect(structured.summary ?? '').to.include('Truncated');
+  });
+});
@@ -1,7 +1,13 @@
 import { EventEmitter } from 'node:events';
 import type * as http from 'node:http';
 import { expect } from 'chai';
-import { createRouter, MAX_REQUEST_BYTES, type McpPostHandler } from '../../src/server/router.js';
+import {
+  createRouter,
+  MAX_REQUEST_BYTES,
+  type McpDeleteHandler,
+  type McpGetHandler,
+  type McpPostHandler,
+} from '../../src/server/router.js';
 import type { AuthVerifier } from '../../src/server/auth.js';
 import { createLogger, type Logger } from '../../src/logging/redact.js';
 import type * as vscode from 'vscode';
@@ -33,6 +39,7 @@ class MockResponse {
   public writableEnded = false;
   public headers: Record<string, string> = {};
   public bodyText: string | undefined;
+  public chunks: string[] = [];
 
   private resolveDone!: () => void;
   public done = new Promise<void>((resolve) => {
@@ -49,6 +56,20 @@ class MockResponse {
     this.bodyText = body;
     this.resolveDone();
   }
+
+  public flushHeaders(): void {
+    this.headersSent = true;
+    this.resolveDone();
+  }
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public on(): this {
+    return this;
+  }
 }
 
 class FakeOutputChannel {
@@ -63,8 +84,10 @@ async function invoke(
   listener: http.RequestListener,
   headers: Record<string, string>,
   body?: string,
+  method = 'POST',
 ): Promise<{ status: number; headers: Record<string, string> }> {
   const req = new MockRequest();
+  req.method = method;
   req.headers = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
   const res = new MockResponse();
 
@@ -178,4 +201,190 @@ describe('router boundary', () => {
     expect(joined).to.not.include('good-token');
     expect(joined).to.not.include('session-123');
   });
+
+  it('rejects GET with 405 when no stream handler is configured', async () => {
+    const listener = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: [],
+      auth,
+      logger,
+    });
+
+    const res = await invoke(
+      listener,
+      { Authorization: 'Bearer good-token', Accept: 'text/event-stream' },
+      undefined,
+      'GET',
+    );
+    expect(res.status).to.equal(405);
+    expect(res.headers['allow']).to.equal('POST');
+  });
+
+  it('applies origin, auth, and Accept checks before opening a GET stream', async () => {
+    let opened = 0;
+    const onMcpGet: McpGetHandler = () => ({
+      status: 200,
+      onStream: () => {
+        opened += 1;
+      },
+    });
+    const listener = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: ['https://allowed.example'],
+      auth,
+      logger,
+      onMcpGet,
+    });
+
+    const blocked = await invoke(
+      listener,
+      {
+        Origin: 'https://blocked.example',
+        Authorization: 'Bearer good-token',
+        Accept: 'text/event-stream',
+      },
+      undefined,
+      'GET',
+    );
+    expect(blocked.status).to.equal(403);
+
+    const unauthorized = await invoke(listener, { Accept: 'text/event-stream' }, undefined, 'GET');
+    expect(unauthorized.status).to.equal(401);
+
+    const notAcceptable = await invoke(
+      listener,
+      { Authorization: 'Bearer good-token', Accept: 'application/json' },
+      undefined,
+      'GET',
+    );
+    expect(notAcceptable.status).to.equal(406);
+    expect(opened).to.equal(0);
+
+    const ok = await invoke(
+      listener,
+      { Authorization: 'Bearer good-token', Accept: 'text/event-stream' },
+      undefined,
+      'GET',
+    );
+    expect(ok.status).to.equal(200);
+    expect(ok.headers['content-type']).to.equal('text/event-stream');
+    expect(ok.headers['cache-control']).to.equal('no-cache');
+    expect(opened).to.equal(1);
+  });
+
+  it('passes handler rejections for GET through as empty responses', async () => {
+    let seen: Record<string, string> | undefined;
+    const listener = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: [],
+      auth,
+      logger,
+      onMcpGet: (ctx) => {
+        seen = ctx.headers;
+        return { status: 404 };
+      },
+    });
+
+    const res = await invoke(
+      listener,
+      {
+        Authorization: 'Bearer good-token',
+        Accept: 'text/event-stream',
+        'MCP-Session-Id': 'stale',
+      },
+      undefined,
+      'GET',
+    );
+    expect(res.status).to.equal(404);
+    expect(seen?.['mcp-session-id']).to.equal('stale');
+  });
+
+  it('routes DELETE to the session handler after origin and auth checks', async () => {
+    const seen: Array<Record<string, string>> = [];
+    const onMcpDelete: McpDeleteHandler = (ctx) => {
+      seen.push(ctx.headers);
+      return { status: 200 };
+    };
+    const withDelete = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: [],
+      auth,
+      logger,
+      onMcpDelete,
+    });
+    const withoutDelete = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: [],
+      auth,
+      logger,
+      onMcpGet: () => ({ status: 400 }),
+    });
+
+    const unauthorized = await invoke(withDelete, { 'MCP-Session-Id': 's1' }, undefined, 'DELETE');
+    expect(unauthorized.status).to.equal(401);
+    expect(seen).to.have.length(0);
+
+    const ok = await invoke(
+      withDelete,
+      { Authorization: 'Bearer good-token', 'MCP-Session-Id': 's1' },
+      undefined,
+      'DELETE',
+    );
+    expect(ok.status).to.equal(200);
+    expect(seen[0]?.['mcp-session-id']).to.equal('s1');
+
+    const put = await invoke(withDelete, { Authorization: 'Bearer good-token' }, undefined, 'PUT');
+    expect(put.status).to.equal(405);
+    expect(put.headers['allow']).to.equal('POST, DELETE');
+
+    const disabled = await invoke(
+      withoutDelete,
+      { Authorization: 'Bearer good-token', 'MCP-Session-Id': 's1' },
+      undefined,
+      'DELETE',
+    );
+    expect(disabled.status).to.equal(405);
+    expect(disabled.headers['allow']).to.equal('GET, POST');
+  });
+
+  it('answers a POST as an event stream when the handler asks for one', async () => {
+    const listener = createRouter({
+      endpointPath: '/mcp',
+      maxRequestBytes: MAX_REQUEST_BYTES,
+      allowedOrigins: [],
+      auth,
+      logger,
+      onMcpPost: () => ({
+        status: 200,
+        onStream: (stream) => {
+          stream.send({ jsonrpc: '2.0', id: 1, result: {} });
+        },
+      }),
+    });
+
+    const req = new MockRequest();
+    req.headers = {
+      authorization: 'Bearer good-token',
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+    };
+    const res = new MockResponse();
+    listener(req as unknown as http.IncomingMessage, res as unknown as http.ServerResponse);
+    req.emit('data', Buffer.from('{}', 'utf8'));
+    req.emit('end');
+    await res.done;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(res.statusCode).to.equal(200);
+    expect(res.headers['content-type']).to.equal('text/event-stream');
+    expect(res.chunks).to.deep.equal([
+      'event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n',
+    ]);
+    expect(res.writableEnded).to.equal(true);
+  });
 });
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeSelectionRanges } from '../../src/tools/handlers/selectionRanges.js';
+
+describe('selection range normalization', () => {
+  const range = (sl: number, sc: number, el: number, ec: number) => ({
+    start: { line: sl, character: sc },
+    end: { line: el, character: ec },
+  });
+
+  it('flattens parent chains innermost to outermost in input order', () => {
+    const file = new vscode.SelectionRange(new vscode.Range(0, 0, 10, 0));
+    const block = new vscode.SelectionRange(new vscode.Range(2, 0, 6, 1), file);
+    const word = new vscode.SelectionRange(new vscode.Range(3, 4, 3, 9), block);
+    const duplicate = new vscode.SelectionRange(new vscode.Range(3, 4, 3, 9), word);
+    const other = new vscode.SelectionRange(new vscode.Range(8, 0, 8, 3), file);
+
+    const selections = normalizeSelectionRanges(
+      [duplicate, other],
+      [
+        { line: 3, character: 5 },
+        { line: 8, character: 1 },
+        { line: 9, character: 0 },
+      ],
+    );
+    expect(selections).to.deep.equal([
+      {
+        position: { line: 3, character: 5 },
+        ranges: [range(3, 4, 3, 9), range(2, 0, 6, 1), range(0, 0, 10, 0)],
+        capped: false,
+      },
+      {
+        position: { line: 8, character: 1 },
+        ranges: [range(8, 0, 8, 3), range(0, 0, 10, 0)],
+        capped: false,
+      },
+      { position: { line: 9, character: 0 }, ranges: [], capped: false },
+    ]);
+  });
+
+  it('stops at non-enclosing parents and caps chain depth', () => {
+    // SelectionRange's constructor rejects non-enclosing parents, so use a plain provider shape.
+    const word = {
+      range: new vscode.Range(3, 4, 3, 9),
+      parent: { range: new vscode.Range(7, 0, 7, 2) },
+    };
+    const [broken] = normalizeSelectionRanges([word], [{ line: 3, character: 5 }]);
+    expect(broken?.ranges).to.deep.equal([range(3, 4, 3, 9)]);
+
+    const file = new vscode.SelectionRange(new vscode.Range(0, 0, 10, 0));
+    const block = new vscode.SelectionRange(new vscode.Range(2, 0, 6, 1), file);
+    const leaf = new vscode.SelectionRange(new vscode.Range(3, 4, 3, 9), block);
+    const [capped] = normalizeSelectionRanges([leaf], [{ line: 3, character: 5 }], 2);
+    expect(capped?.ranges).to.deep.equal([range(3, 4, 3, 9), range(2, 0, 6, 1)]);
+    expect(capped?.capped).to.equal(true);
+  });
+});
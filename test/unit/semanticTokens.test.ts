@@ -0,0 +1,44 @@
+import { expect } from 'chai';
+import { decodeSemanticTokens } from '../../src/tools/handlers/semanticTokens.js';
+
+const legend = {
+  tokenTypes: ['type', 'parameter', 'property', 'variable'],
+  tokenModifiers: ['declaration', 'readonly', 'static'],
+};
+
+describe('semantic tokens decoding', () => {
+  it('decodes delta-encoded tokens with modifier bitsets', () => {
+    // line 0 col 4 len 3 type, [declaration]; same line +6 -> col 10 len 1 parameter;
+    // line 2 col 2 len 5 variable [declaration, readonly]
+    const data = new Uint32Array([0, 4, 3, 0, 1, 0, 6, 1, 1, 0, 2, 2, 5, 3, 3]);
+
+    const tokens = decodeSemanticTokens(data, legend);
+    expect(tokens).to.deep.equal([
+      {
+        range: { start: { line: 0, character: 4 }, end: { line: 0, character: 7 } },
+        tokenType: 'type',
+        modifiers: ['declaration'],
+      },
+      {
+        range: { start: { line: 0, character: 10 }, end: { line: 0, character: 11 } },
+        tokenType: 'parameter',
+        modifiers: [],
+      },
+      {
+        range: { start: { line: 2, character: 2 }, end: { line: 2, character: 7 } },
+        tokenType: 'variable',
+        modifiers: ['declaration', 'readonly'],
+      },
+    ]);
+  });
+
+  it('drops unknown token types and tokens outside the requested range', () => {
+    const data = [0, 0, 2, 9, 0, 1, 0, 3, 2, 0, 1, 0, 3, 2, 4];
+    const bound = { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } };
+
+    const tokens = decodeSemanticTokens(data, legend, bound);
+    expect(tokens.map((t) => [t.range.start.line, t.tokenType, t.modifiers])).to.deep.equal([
+      [1, 'property', []],
+    ]);
+  });
+});
@@ -33,4 +33,94 @@ describe('session store', () => {
     expect(present.session.initializedNotificationSeen).to.equal(false);
     expect(Object.prototype.hasOwnProperty.call(present.session, 'createdAtMs')).to.equal(false);
   });
+
+  it('terminates sessions explicitly; terminated ids are rejected with 404', () => {
+    const store = createSessionStore({ maxSessions: 2 });
+    const id = store.create('2025-11-25');
+    const other = store.create('2025-11-25');
+
+    expect(store.delete(id)).to.equal(true);
+    expect(store.delete(id)).to.equal(false);
+    expect(store.size()).to.equal(1);
+    const res = store.require(id);
+    expect(res.ok).to.equal(false);
+    if (!res.ok) expect(res.status).to.equal(404);
+    expect(store.require(other).ok).to.equal(true);
+  });
+
+  it('evicts the least recently active session at capacity', () => {
+    const evicted: Array<[string, string, number]> = [];
+    const store = createSessionStore({
+      maxSessions: 2,
+      onEvict: (id, reason, remaining) => evicted.push([id, reason, remaining]),
+    });
+    const id1 = store.create('2025-11-25');
+    const id2 = store.create('2025-11-25');
+
+    // A request on the older session makes id2 the least recently active.
+    expect(store.require(id1).ok).to.equal(true);
+    store.get(id2);
+    const id3 = store.create('2025-11-25');
+
+    expect(store.require(id1).ok).to.equal(true);
+    expect(store.require(id2).ok).to.equal(false);
+    expect(store.require(id3).ok).to.equal(true);
+    expect(evicted).to.deep.equal([[id2, 'capacity', 2]]);
+  });
+
+  it('expires sessions idle for longer than idleTtlMs', () => {
+    let now = 1_000;
+    const evicted: Array<[string, string]> = [];
+    const store = createSessionStore({
+      idleTtlMs: 100,
+      now: () => now,
+      onEvict: (id, reason) => evicted.push([id, reason]),
+    });
+    const idle = store.create('2025-11-25');
+    const active = store.create('2025-11-25');
+
+    now = 1_060;
+    expect(store.require(active).ok).to.equal(true);
+    now = 1_120;
+    const res = store.require(idle);
+    expect(res.ok).to.equal(false);
+    if (!res.ok) expect(res.status).to.equal(404);
+    expect(store.get(active)).to.not.equal(undefined);
+    expect(store.size()).to.equal(1);
+
+    now = 1_160;
+    expect(store.size()).to.equal(0);
+    expect(evicted).to.deep.equal([
+      [idle, 'idle'],
+      [active, 'idle'],
+    ]);
+  });
+
+  it('keeps sessions reported active (open GET stream) past the idle TTL', () => {
+    let now = 1_000;
+    const streaming = new Set<string>();
+    const evicted: string[] = [];
+    const store = createSessionStore({
+      idleTtlMs: 100,
+      now: () => now,
+      isActive: (id) => streaming.has(id),
+      onEvict: (id) => evicted.push(id),
+    });
+    const listener = store.create('2025-11-25');
+    const idle = store.create('2025-11-25');
+    streaming.add(listener);
+
+    now = 1_150;
+    expect(store.size()).to.equal(1);
+    expect(evicted).to.deep.equal([idle]);
+    expect(store.require(listener).ok).to.equal(true);
+
+    // Once the stream closes, the usual idle TTL applies from the last sweep that saw it open.
+    streaming.delete(listener);
+    now = 1_240;
+    expect(store.get(listener)).to.not.equal(undefined);
+    now = 1_260;
+    expect(store.get(listener)).to.equal(undefined);
+    expect(evicted).to.deep.equal([idle, listener]);
+  });
 });
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { normalizeSignatureHelp } from '../../src/tools/handlers/signatureHelp.js';
+
+describe('signature help normalization', () => {
+  it('resolves offset labels and normalizes documentation kinds', () => {
+    const help = new vscode.SignatureHelp();
+    const sig = new vscode.SignatureInformation(
+      'add(a: number, b: number): number',
+      new vscode.MarkdownString('Adds **two** numbers.'),
+    );
+    sig.parameters = [
+      new vscode.ParameterInformation([4, 13], 'first operand'),
+      new vscode.ParameterInformation('b: number'),
+      new vscode.ParameterInformation([30, 99]),
+    ];
+    help.signatures = [sig];
+    help.activeSignature = 0;
+    help.activeParameter = 1;
+
+    const normalized = normalizeSignatureHelp(help);
+    expect(normalized.activeSignature).to.equal(0);
+    expect(normalized.activeParameter).to.equal(1);
+    expect(normalized.signatures).to.deep.equal([
+      {
+        label: 'add(a: number, b: number): number',
+        documentation: { kind: 'markdown', value: 'Adds **two** numbers.' },
+        parameters: [
+          {
+            label: 'a: number',
+            labelOffsets: [4, 13],
+            documentation: { kind: 'plaintext', value: 'first operand' },
+          },
+          { label: 'b: number' },
+        ],
+      },
+    ]);
+  });
+
+  it('drops an active signature index that is out of range', () => {
+    const help = new vscode.SignatureHelp();
+    help.signatures = [new vscode.SignatureInformation('f()')];
+    help.activeSignature = 3;
+    help.activeParameter = 0;
+
+    const normalized = normalizeSignatureHelp(help);
+    expect(normalized.signatures.length).to.equal(1);
+    expect(normalized.activeSignature).to.equal(undefined);
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import {
+  createSseStream,
+  createSseStreamRegistry,
+  formatSseEvent,
+  type SseResponse,
+} from '../../src/server/sse.js';
+
+class FakeSseResponse implements SseResponse {
+  public chunks: string[] = [];
+  public ended = false;
+  private closeListeners: Array<() => void> = [];
+
+  public write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  public end(): void {
+    this.ended = true;
+    this.emitClose();
+  }
+
+  public on(_event: 'close', listener: () => void): this {
+    this.closeListeners.push(listener);
+    return this;
+  }
+
+  public emitClose(): void {
+    for (const listener of this.closeListeners.splice(0)) listener();
+  }
+}
+
+describe('sse streams', () => {
+  it('frames JSON-RPC messages as message events', () => {
+    const res = new FakeSseResponse();
+    const stream = createSseStream(res, { heartbeatMs: 0 });
+
+    expect(stream.send({ jsonrpc: '2.0', method: 'notifications/ping' })).to.equal(true);
+    expect(res.chunks).to.deep.equal([
+      'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/ping"}\n\n',
+    ]);
+    expect(formatSseEvent('message', 'a\nb')).to.equal('event: message\ndata: a\ndata: b\n\n');
+    expect(formatSseEvent('message', '{}', '3-1')).to.equal(
+      'id: 3-1\nevent: message\ndata: {}\n\n',
+    );
+    expect(formatSseEvent('message', '', '3-0')).to.equal('id: 3-0\nevent: message\ndata:\n\n');
+  });
+
+  it('stops writing after the client disconnects and notifies close listeners once', () => {
+    const res = new FakeSseResponse();
+    const stream = createSseStream(res, { heartbeatMs: 0 });
+    let closes = 0;
+    stream.onClose(() => {
+      closes += 1;
+    });
+
+    res.emitClose();
+    stream.close();
+    expect(stream.isClosed()).to.equal(true);
+    expect(stream.send({ jsonrpc: '2.0', method: 'x' })).to.equal(false);
+    expect(res.chunks).to.deep.equal([]);
+    expect(closes).to.equal(1);
+  });
+
+  it('keeps one stream per session and drops streams when they close', () => {
+    const registry = createSseStreamRegistry();
+    const firstRes = new FakeSseResponse();
+    const first = createSseStream(firstRes, { heartbeatMs: 0 });
+    const secondRes = new FakeSseResponse();
+    const second = createSseStream(secondRes, { heartbeatMs: 0 });
+    const otherRes = new FakeSseResponse();
+    const other = createSseStream(otherRes, { heartbeatMs: 0 });
+
+    registry.attach('s1', first);
+    registry.attach('s1', second);
+    registry.attach('s2', other);
+    expect(firstRes.ended).to.equal(true);
+    expect(registry.size()).to.equal(2);
+
+    expect(registry.send('s1', { n: 1 })).to.equal(true);
+    expect(registry.send('missing', { n: 1 })).to.equal(false);
+    expect(registry.broadcast({ n: 2 })).to.equal(2);
+    expect(secondRes.chunks).to.have.length(2);
+    expect(otherRes.chunks).to.have.length(1);
+
+    otherRes.emitClose();
+    expect(registry.size()).to.equal(1);
+
+    registry.closeAll();
+    expect(secondRes.ended).to.equal(true);
+    expect(registry.size()).to.equal(0);
+  });
+});
@@ -0,0 +1,235 @@
+import { expect } from 'chai';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Handshake } from '../../src/bridge/handshake.js';
+import {
+  createSseParser,
+  createStdioBridge,
+  type BridgeFetch,
+  type SseEvent,
+} from '../../src/bridge/stdioBridge.js';
+
+const HANDSHAKE: Handshake = {
+  version: 1,
+  endpoint: 'http://127.0.0.1:3939/mcp',
+  token: 'test-token',
+  protocolVersion: '2025-11-25',
+  pid: 1,
+};
+
+type Call = Readonly<{ method: string; headers: Record<string, string>; body?: string }>;
+
+function createFakeFetch(respond: (call: Call) => Response): {
+  fetch: BridgeFetch;
+  calls: Call[];
+} {
+  const calls: Call[] = [];
+  const fetch: BridgeFetch = async (_url, init) => {
+    const call: Call = {
+      method: init.method,
+      headers: init.headers,
+      ...(init.body !== undefined ? { body: init.body } : {}),
+    };
+    calls.push(call);
+    return respond(call);
+  };
+  return { fetch, calls };
+}
+
+describe('stdio bridge', () => {
+  describe('createSseParser', () => {
+    it('parses events split across chunks, including a split CRLF', () => {
+      const events: SseEvent[] = [];
+      const parser = createSseParser((event) => events.push(event));
+      parser.push(': comment\r\nid: s-1\r\nevent: message\r\ndata: {"a":1}\r');
+      expect(events).to.have.length(0);
+      parser.push('\n\r\ndata: line1\ndata: line2\n');
+      parser.push('\n');
+      expect(events).to.deep.equal([
+        { id: 's-1', event: 'message', data: '{"a":1}' },
+        { event: 'message', data: 'line1\nline2' },
+      ]);
+    });
+
+    it('discards an event that is not terminated by a blank line', () => {
+      const events: SseEvent[] = [];
+      const parser = createSseParser((event) => events.push(event));
+      parser.push('data: partial\n');
+      expect(events).to.have.length(0);
+    });
+  });
+
+  describe('createStdioBridge', () => {
+    it('injects auth headers and propagates the session id from initialize', async () => {
+      const { fetch, calls } = createFakeFetch((call) => {
+        if (call.method === 'DELETE') return new Response(null, { status: 204 });
+        return new Response('{"jsonrpc":"2.0","id":1,"result":{}}\n', {
+          status: 200,
+          headers: { 'content-type': 'application/json', 'mcp-session-id': 'sid-1' },
+        });
+      });
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch,
+      });
+
+      await bridge.handleLine('{"jsonrpc":"2.0","id":1,"method":"initialize","params":{}}');
+      await bridge.handleLine('{"jsonrpc":"2.0","id":2,"method":"tools/list"}');
+      await bridge.close();
+
+      expect(written).to.deep.equal([
+        '{"jsonrpc":"2.0","id":1,"result":{}}',
+        '{"jsonrpc":"2.0","id":1,"result":{}}',
+      ]);
+      expect(calls[0]?.headers.Authorization).to.equal('Bearer test-token');
+      expect(calls[0]?.headers['MCP-Protocol-Version']).to.equal('2025-11-25');
+      expect(calls[0]?.headers['MCP-Session-Id']).to.equal(undefined);
+      expect(calls[1]?.headers['MCP-Session-Id']).to.equal('sid-1');
+      expect(calls[2]?.method).to.equal('DELETE');
+      expect(calls[2]?.headers['MCP-Session-Id']).to.equal('sid-1');
+    });
+
+    it('relays SSE message events as single lines', async () => {
+      const { fetch } = createFakeFetch(
+        () =>
+          new Response(
+            'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress"}\n\n' +
+              'id: r-1\nevent: message\ndata: {"jsonrpc":"2.0","id":3,"result":{}}\n\n',
+            { status: 200, headers: { 'content-type': 'text/event-stream' } },
+          ),
+      );
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch,
+      });
+
+      await bridge.handleLine('{"jsonrpc":"2.0","id":3,"method":"tools/call","params":{}}');
+      expect(written).to.deep.equal([
+        '{"jsonrpc":"2.0","method":"notifications/progress"}',
+        '{"jsonrpc":"2.0","id":3,"result":{}}',
+      ]);
+    });
+
+    it('maps HTTP rejections and invalid lines to JSON-RPC errors', async () => {
+      const { fetch } = createFakeFetch(() => new Response(null, { status: 401 }));
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch,
+      });
+
+      await bridge.handleLine('{"jsonrpc":"2.0","id":"a","method":"tools/list"}');
+      await bridge.handleLine('{"jsonrpc":"2.0","method":"notifications/initialized"}');
+      await bridge.handleLine('not json');
+
+      expect(written.map((line) => JSON.parse(line) as unknown)).to.deep.equal([
+        {
+          jsonrpc: '2.0',
+          id: 'a',
+          error: { code: -32603, message: 'Gateway rejected the request (HTTP 401).' },
+        },
+        { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+      ]);
+    });
+
+    it('reports an unreachable gateway for each request id', async () => {
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch: () => Promise.reject(new Error('ECONNREFUSED')),
+      });
+
+      await bridge.handleLine(
+        '[{"jsonrpc":"2.0","id":1,"method":"ping"},{"jsonrpc":"2.0","id":2,"method":"ping"}]',
+      );
+      expect(written.map((line) => (JSON.parse(line) as { id: unknown }).id)).to.deep.equal([1, 2]);
+    });
+
+    it('writes responses to lines already forwarded when input ends', async () => {
+      const { fetch, calls } = createFakeFetch((call) => {
+        if (call.method === 'DELETE') return new Response(null, { status: 204 });
+        return new Response('{"jsonrpc":"2.0","id":1,"result":{}}', {
+          status: 200,
+          headers: { 'content-type': 'application/json', 'mcp-session-id': 'sid-1' },
+        });
+      });
+      const slowFetch: BridgeFetch = async (url, init) => {
+        if (init.method === 'POST') await new Promise((resolve) => setTimeout(resolve, 20));
+        return await fetch(url, init);
+      };
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch: slowFetch,
+      });
+
+      // Like `echo '<request>' | bridge`: the line is forwarded and stdin closes right away.
+      void bridge.handleLine('{"jsonrpc":"2.0","id":1,"method":"initialize","params":{}}');
+      await bridge.close();
+      await bridge.handleLine('{"jsonrpc":"2.0","id":2,"method":"ping"}');
+
+      expect(written).to.deep.equal(['{"jsonrpc":"2.0","id":1,"result":{}}']);
+      expect(calls.map((call) => call.method)).to.deep.equal(['POST', 'DELETE']);
+    });
+
+    it('aborts requests still pending after the drain timeout', async () => {
+      const written: string[] = [];
+      const bridge = createStdioBridge({
+        handshake: HANDSHAKE,
+        writeMessage: (line) => written.push(line),
+        fetch: (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+        drainTimeoutMs: 10,
+      });
+
+      const pending = bridge.handleLine('{"jsonrpc":"2.0","id":1,"method":"ping"}');
+      await bridge.close();
+      await pending;
+      expect(written).to.deep.equal([]);
+    });
+
+    it('reaches a socket endpoint over the local socket', async function () {
+      if (process.platform === 'win32') this.skip();
+      const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-lsp-gw-'));
+      const socketPath = path.join(tmpDir, 'gw.sock');
+      const seen: http.IncomingHttpHeaders[] = [];
+      const server = http.createServer((req, res) => {
+        seen.push(req.headers);
+        req.resume();
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('event: message\ndata: {"jsonrpc":"2.0","id":7,');
+        res.end('"result":{}}\n\n');
+      });
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+
+      try {
+        const written: string[] = [];
+        const bridge = createStdioBridge({
+          handshake: {
+            ...HANDSHAKE,
+            endpoint: `http+unix://${encodeURIComponent(socketPath)}/mcp`,
+          },
+          writeMessage: (line) => written.push(line),
+        });
+        await bridge.handleLine('{"jsonrpc":"2.0","id":7,"method":"tools/list"}');
+
+        expect(written).to.deep.equal(['{"jsonrpc":"2.0","id":7,"result":{}}']);
+        expect(seen[0]?.authorization).to.equal('Bearer test-token');
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { expect } from 'chai';
+import type { CancellationToken } from 'vscode';
+import { createCancellationSource } from '../../src/tools/runtime/cancellation.js';
 import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
 
 const flushMicrotasks = async (): Promise<void> =>
@@ -69,6 +71,90 @@ describe('ToolRuntime singleflight', () => {
     });
     expect(calls).to.equal(2);
   });
+
+  it('keeps shared work running while another waiter remains', async () => {
+    const runtime = new ToolRuntime();
+    const a = createCancellationSource();
+    const b = createCancellationSource();
+    let release: (value: string) => void = () => undefined;
+    let sharedToken: CancellationToken | undefined;
+
+    const fn = (token: CancellationToken): Promise<string> => {
+      sharedToken = token;
+      return new Promise<string>((resolve) => {
+        release = resolve;
+      });
+    };
+
+    const p1 = runtime.singleflightCancellable('key', fn, a.token);
+    const p2 = runtime.singleflightCancellable('key', fn, b.token);
+    await flushMicrotasks();
+
+    a.cancel();
+    expect(await p1).to.deep.equal({ cancelled: true });
+    expect(sharedToken?.isCancellationRequested).to.equal(false);
+
+    release('ok');
+    expect(await p2).to.deep.equal({ cancelled: false, value: 'ok' });
+  });
+
+  it('cancels shared work and frees the key once every waiter cancels', async () => {
+    const runtime = new ToolRuntime();
+    const a = createCancellationSource();
+    const b = createCancellationSource();
+    let calls = 0;
+    let sharedToken: CancellationToken | undefined;
+
+    const hang = (token: CancellationToken): Promise<string> => {
+      calls += 1;
+      sharedToken = token;
+      return new Promise<string>(() => undefined);
+    };
+
+    const p1 = runtime.singleflightCancellable('key', hang, a.token);
+    const p2 = runtime.singleflightCancellable('key', hang, b.token);
+    await flushMicrotasks();
+
+    a.cancel();
+    b.cancel();
+    expect(await p1).to.deep.equal({ cancelled: true });
+    expect(await p2).to.deep.equal({ cancelled: true });
+    expect(sharedToken?.isCancellationRequested).to.equal(true);
+
+    const fresh = await runtime.singleflightCancellable('key', async () => 'fresh', undefined);
+    expect(fresh).to.deep.equal({ cancelled: false, value: 'fresh' });
+    expect(calls).to.equal(1);
+  });
+
+  it('reports shared progress to every waiting caller until it stops waiting', async () => {
+    const runtime = new ToolRuntime();
+    const a = createCancellationSource();
+    const seenA: string[] = [];
+    const seenB: string[] = [];
+    let report: ((message: string) => void) | undefined;
+    let release: (value: string) => void = () => undefined;
+
+    const fn = (_token: CancellationToken, reportProgress: (message: string) => void) => {
+      report = reportProgress;
+      return new Promise<string>((resolve) => {
+        release = resolve;
+      });
+    };
+
+    const p1 = runtime.singleflightCancellable('key', fn, a.token, (m) => seenA.push(m));
+    await flushMicrotasks();
+    report?.('Running provider.');
+    const p2 = runtime.singleflightCancellable('key', fn, undefined, (m) => seenB.push(m));
+    report?.('Provider returned 3 items.');
+    a.cancel();
+    expect(await p1).to.deep.equal({ cancelled: true });
+    report?.('Cached 3 items.');
+
+    release('ok');
+    expect(await p2).to.deep.equal({ cancelled: false, value: 'ok' });
+    expect(seenA).to.deep.equal(['Running provider.', 'Provider returned 3 items.']);
+    expect(seenB).to.deep.equal(['Provider returned 3 items.', 'Cached 3 items.']);
+  });
 });
 
 describe('ToolRuntime epochs', () => {
@@ -78,11 +164,20 @@ describe('ToolRuntime epochs', () => {
     const references = runtime.getEpochSnapshotForTool('vscode_lsp_references');
     expect(references.length).to.equal(3);
 
+    const implementation = runtime.getEpochSnapshotForTool('vscode_lsp_implementation');
+    expect(implementation.length).to.equal(3);
+
     const workspaceDiagnostics = runtime.getEpochSnapshotForTool(
       'vscode_lsp_diagnostics_workspace',
     );
     expect(workspaceDiagnostics.length).to.equal(3);
 
+    const completions = runtime.getEpochSnapshotForTool('vscode_lsp_completions');
+    expect(completions.length).to.equal(2);
+
+    const foldingRanges = runtime.getEpochSnapshotForTool('vscode_lsp_foldingRanges');
+    expect(foldingRanges.length).to.equal(2);
+
     const hover = runtime.getEpochSnapshotForTool('vscode_lsp_hover');
     expect(hover.length).to.equal(4);
   });
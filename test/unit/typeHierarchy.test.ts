@@ -0,0 +1,93 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { buildTypeGraph } from '../../src/tools/handlers/typeHierarchy.js';
+
+function makeItem(uri: vscode.Uri, name: string, line: number): vscode.TypeHierarchyItem {
+  const range = new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 10));
+  return new vscode.TypeHierarchyItem(vscode.SymbolKind.Class, name, '', uri, range, range);
+}
+
+describe('type hierarchy graph', () => {
+  it('points subtype edges from derived to base and drops out-of-root types', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-typehierarchy-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'a\nb\nc\nd\n', 'utf8');
+
+    try {
+      const uri = vscode.Uri.file(tempFile);
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const base = makeItem(uri, 'Base', 0);
+      const derivedB = makeItem(uri, 'DerivedB', 2);
+      const derivedA = makeItem(uri, 'DerivedA', 1);
+      const leaf = makeItem(uri, 'Leaf', 3);
+      const outside = makeItem(vscode.Uri.file(path.join(repoRoot, 'package.json')), 'Ext', 0);
+
+      const subtypes = new Map<string, unknown[]>([
+        ['Base', [derivedB, outside, derivedA]],
+        ['DerivedA', [leaf]],
+        ['DerivedB', [leaf]],
+      ]);
+
+      const built = await buildTypeGraph([base], 'subtypes', 2, allowedRootsRealpaths, (item) =>
+        Promise.resolve(subtypes.get(item.name) ?? []),
+      );
+
+      expect(built.ok).to.equal(true);
+      if (!built.ok) return;
+      const graph = built.value;
+      const nameById = new Map(graph.nodes.map((node) => [node.id, node.name]));
+
+      expect(graph.nodes.map((node) => node.name)).to.deep.equal([
+        'Base',
+        'DerivedA',
+        'DerivedB',
+        'Leaf',
+      ]);
+      expect(
+        graph.edges.map((edge) => [nameById.get(edge.from), nameById.get(edge.to), edge.depth]),
+      ).to.deep.equal([
+        ['DerivedA', 'Base', 1],
+        ['DerivedB', 'Base', 1],
+        ['Leaf', 'DerivedA', 2],
+        ['Leaf', 'DerivedB', 2],
+      ]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('points supertype edges from the queried type to its bases', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-typehierarchy-super-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'a\nb\n', 'utf8');
+
+    try {
+      const uri = vscode.Uri.file(tempFile);
+      const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+      const base = makeItem(uri, 'Base', 0);
+      const derived = makeItem(uri, 'Derived', 1);
+
+      const built = await buildTypeGraph(
+        [derived],
+        'supertypes',
+        3,
+        allowedRootsRealpaths,
+        (item) => Promise.resolve(item.name === 'Derived' ? [base] : []),
+      );
+
+      expect(built.ok).to.equal(true);
+      if (!built.ok) return;
+      const [edge] = built.value.edges;
+      const nameById = new Map(built.value.nodes.map((node) => [node.id, node.name]));
+      expect(nameById.get(edge?.from ?? '')).to.equal('Derived');
+      expect(nameById.get(edge?.to ?? '')).to.equal('Base');
+      expect(built.value.roots.map((id) => nameById.get(id))).to.deep.equal(['Derived']);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -6,6 +6,7 @@ import { handleDefinition } from '../../src/tools/handlers/definition.js';
 import { handleDiagnosticsDocument } from '../../src/tools/handlers/diagnosticsDocument.js';
 import { handleDocumentSymbols } from '../../src/tools/handlers/documentSymbols.js';
 import { handleHover } from '../../src/tools/handlers/hover.js';
+import { handleTypeDefinition } from '../../src/tools/handlers/typeDefinition.js';
 import { ToolRuntime } from '../../src/tools/runtime/toolRuntime.js';
 
 describe('unpaged tool caching', () => {
@@ -114,6 +115,61 @@ describe('unpaged tool caching', () => {
     }
   });
 
+  it('caches type definition results by document version', async () => {
+    const repoRoot = path.resolve(__dirname, '..', '..', '..');
+    const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-typedefinition-'));
+    const tempFile = path.join(tempDir, 'file.txt');
+    fs.writeFileSync(tempFile, 'const x = 1;', 'utf8');
+
+    const uri = vscode.Uri.file(tempFile);
+    const allowedRootsRealpaths = [fs.realpathSync(tempDir)];
+    const toolRuntime = new ToolRuntime();
+
+    let calls = 0;
+    const location = new vscode.Location(
+      uri,
+      new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 1)),
+    );
+
+    const disposable = vscode.languages.registerTypeDefinitionProvider(
+      { scheme: 'file', language: 'plaintext' },
+      {
+        provideTypeDefinition: async () => {
+          calls += 1;
+          return [location];
+        },
+      },
+    );
+
+    try {
+      const first = await handleTypeDefinition(
+        { uri: uri.toString(), position: { line: 0, character: 0 } },
+        { allowedRootsRealpaths, toolRuntime },
+      );
+      expect(first.ok).to.equal(true);
+      const second = await handleTypeDefinition(
+        { uri: uri.toString(), position: { line: 0, character: 0 } },
+        { allowedRootsRealpaths, toolRuntime },
+      );
+      expect(second.ok).to.equal(true);
+      expect(calls).to.equal(1);
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(uri, new vscode.Position(0, 0), ' ');
+      await vscode.workspace.applyEdit(edit);
+
+      const third = await handleTypeDefinition(
+        { uri: uri.toString(), position: { line: 0, character: 0 } },
+        { allowedRootsRealpaths, toolRuntime },
+      );
+      expect(third.ok).to.equal(true);
+      expect(calls).to.equal(2);
+    } finally {
+      disposable.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
   it('caches document symbols by document version', async () => {
     const repoRoot = path.resolve(__dirname, '..', '..', '..');
     const tempDir = fs.mkdtempSync(path.join(repoRoot, 'tmp-docsymbols-'));